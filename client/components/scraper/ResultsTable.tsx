@@ -0,0 +1,74 @@
+import type { ScrapeItem } from "@shared/api";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { describeStructured, formatFieldValue } from "./fields";
+
+export default function ResultsTable({ results }: { results: ScrapeItem[] }) {
+  const hasFields = results.some((r) => r.fields);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>URL / Title</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Words</TableHead>
+          <TableHead>Links</TableHead>
+          {hasFields && <TableHead>Fields</TableHead>}
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {results.map((r) => (
+          <TableRow key={r.url}>
+            <TableCell className="max-w-[420px]">
+              <div className="font-medium truncate" title={r.title ?? r.url}>{r.title ?? r.url}</div>
+              <a className="text-xs text-primary underline underline-offset-4 break-all" href={r.url} target="_blank" rel="noreferrer">{r.url}</a>
+              {describeStructured(r.structured) && (
+                <div className="text-xs text-foreground/60 truncate" title="From the page's structured data">
+                  {describeStructured(r.structured)}
+                </div>
+              )}
+            </TableCell>
+            <TableCell>
+              {r.success ? (
+                <>
+                  <Badge className="bg-emerald-500/15 text-emerald-600">{r.status}</Badge>
+                  {r.unchanged && (
+                    <Badge variant="outline" className="ml-1" title="Matched the HTTP cache; not refetched">unchanged</Badge>
+                  )}
+                  {!!r.changes?.length && (
+                    <Badge className="ml-1 bg-sky-500/15 text-sky-600" title={r.changes.map((c) => `${c.type}: ${c.field}`).join("\n")}>
+                      {r.changes.length} changed
+                    </Badge>
+                  )}
+                </>
+              ) : r.skipped ? (
+                <Badge className="bg-amber-500/15 text-amber-600" title={r.error}>robots</Badge>
+              ) : (
+                <Badge className="bg-rose-500/15 text-rose-600" title={r.error}>error</Badge>
+              )}
+            </TableCell>
+            <TableCell>{r.textPreview ? r.textPreview.split(/\s+/).length : 0}</TableCell>
+            <TableCell>{r.links?.length ?? 0}</TableCell>
+            {hasFields && (
+              <TableCell className="max-w-[320px] text-xs">
+                {Object.entries(r.fields ?? {}).map(([name, value]) => (
+                  <div key={name} className="truncate" title={formatFieldValue(value)}>
+                    <span className="text-foreground/60">{name}:</span> {formatFieldValue(value) || "—"}
+                  </div>
+                ))}
+              </TableCell>
+            )}
+            <TableCell className="text-right">
+              <Button asChild size="sm" variant="outline">
+                <a href={r.url} target="_blank" rel="noreferrer">Open</a>
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
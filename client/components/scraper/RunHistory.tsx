@@ -0,0 +1,122 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { ScrapeRun, ScrapeRunsResponse } from "@shared/api";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useState } from "react";
+import { exportCSV, exportJSON } from "./export";
+import ResultsTable from "./ResultsTable";
+
+export default function RunHistory() {
+  const queryClient = useQueryClient();
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const runs = useQuery({
+    queryKey: ["runs"],
+    queryFn: async () => {
+      const res = await fetch("/api/runs");
+      if (!res.ok) throw new Error("Failed to load runs");
+      return (await res.json()) as ScrapeRunsResponse;
+    },
+  });
+
+  const openRun = useQuery({
+    queryKey: ["runs", openId],
+    enabled: !!openId,
+    queryFn: async () => {
+      const res = await fetch(`/api/runs/${openId}`);
+      if (!res.ok) throw new Error("Failed to load run");
+      return (await res.json()) as ScrapeRun;
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/runs/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete run");
+    },
+    onSuccess: (_data, id) => {
+      if (id === openId) setOpenId(null);
+      queryClient.invalidateQueries({ queryKey: ["runs"] });
+    },
+  });
+
+  const filename = (run: ScrapeRun, ext: string) =>
+    `scrape-run-${new Date(run.startedAt).toISOString().replace(/[:.]/g, "-")}.${ext}`;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Run History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {runs.isLoading && <div className="text-sm text-foreground/60">Loading runs…</div>}
+          {runs.data && runs.data.runs.length === 0 && (
+            <div className="text-sm text-foreground/60">No runs yet.</div>
+          )}
+          {runs.data && runs.data.runs.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>URLs</TableHead>
+                  <TableHead>Success</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.data.runs.map((run) => (
+                  <TableRow key={run.id} data-state={run.id === openId ? "selected" : undefined}>
+                    <TableCell>{new Date(run.startedAt).toLocaleString()}</TableCell>
+                    <TableCell className="max-w-[320px] truncate" title={run.request.urls?.join("\n")}>
+                      {run.request.urls?.[0]}
+                      {(run.request.urls?.length ?? 0) > 1 && (
+                        <span className="text-foreground/60"> +{run.request.urls!.length - 1} more</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{run.success}/{run.total}</Badge>
+                      {!!run.unchanged && (
+                        <Badge variant="outline" className="ml-1">{run.unchanged} unchanged</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{(run.durationMs / 1000).toFixed(1)}s</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button size="sm" variant="outline" onClick={() => setOpenId(run.id === openId ? null : run.id)}>
+                        {run.id === openId ? "Close" : "Open"}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => remove.mutate(run.id)} disabled={remove.isPending}>
+                        Delete
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {openRun.data && openId && (
+        <Card>
+          <CardHeader className="flex-row items-center gap-3 space-y-0">
+            <CardTitle className="text-base">Run from {new Date(openRun.data.startedAt).toLocaleString()}</CardTitle>
+            <div className="flex-1" />
+            <Button type="button" variant="outline" onClick={() => exportCSV(openRun.data.results, filename(openRun.data, "csv"))}>
+              Export CSV
+            </Button>
+            <Button type="button" variant="outline" onClick={() => exportJSON(openRun.data.results, filename(openRun.data, "json"))}>
+              Export JSON
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <ResultsTable results={openRun.data.results} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,57 +1,50 @@
-import { useMutation } from "@tanstack/react-query";
-import type { ScrapeResponse, ScrapeItem } from "@shared/api";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ScrapeItem } from "@shared/api";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { useState, useMemo } from "react";
+import { parseFieldLines } from "./fields";
+import { streamScrape } from "./stream";
+import { exportCSV, exportJSON } from "./export";
+import ResultsTable from "./ResultsTable";
 
 interface Options {
   timeout: number; // seconds
   concurrency: number;
   userAgent: string;
-}
-
-function toCSV(items: ScrapeItem[]): string {
-  const headers = [
-    "url",
-    "success",
-    "status",
-    "title",
-    "words",
-    "links",
-  ];
-  const rows = items.map((r) => [
-    r.url,
-    String(r.success),
-    r.status ?? "",
-    (r.title ?? "").replace(/\n|\r/g, " "),
-    r.textPreview ? r.textPreview.split(/\s+/).length : 0,
-    r.links ? r.links.length : 0,
-  ]);
-  return [headers.join(","), ...rows.map((row) => row.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(","))].join("\n");
+  respectRobotsTxt: boolean;
 }
 
 export default function ScraperPanel() {
   const [urlsText, setUrlsText] = useState("");
-  const [opts, setOpts] = useState<Options>({ timeout: 12, concurrency: 4, userAgent: navigator.userAgent });
+  const [fieldsText, setFieldsText] = useState("");
+  const [opts, setOpts] = useState<Options>({ timeout: 12, concurrency: 4, userAgent: navigator.userAgent, respectRobotsTxt: true });
   const [results, setResults] = useState<ScrapeItem[] | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
+  const queryClient = useQueryClient();
 
   const mutation = useMutation({
     mutationFn: async (urls: string[]) => {
-      const res = await fetch("/api/scrape", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ urls, options: opts }),
-      });
-      if (!res.ok) throw new Error("Scrape failed");
-      return (await res.json()) as ScrapeResponse;
+      const fields = parseFieldLines(fieldsText);
+      setResults([]);
+      // Rows are appended as each URL finishes rather than all at once
+      return streamScrape(
+        {
+          urls,
+          fields: Object.keys(fields).length ? fields : undefined,
+          options: opts,
+        },
+        (item) => setResults((prev) => [...(prev ?? []), item]),
+      );
     },
-    onSuccess: (data) => setResults(data.results),
+    // Each finished scrape is stored as a run on the server
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["runs"] }),
   });
 
   const onSubmit = (e: React.FormEvent) => {
@@ -60,37 +53,18 @@ export default function ScraperPanel() {
       .split(/\n|,|\s+/)
       .map((u) => u.trim())
       .filter((u) => /^https?:\/\//i.test(u));
-    if (urls.length) mutation.mutate(urls.slice(0, 25));
-  };
-
-  const exportJSON = () => {
-    if (!results) return;
-    const blob = new Blob([JSON.stringify(results, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "scrape-results.json";
-    a.click();
-    URL.revokeObjectURL(url);
-  };
-
-  const exportCSV = () => {
-    if (!results) return;
-    const csv = toCSV(results);
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "scrape-results.csv";
-    a.click();
-    URL.revokeObjectURL(url);
+    if (urls.length) {
+      setPendingCount(Math.min(urls.length, 25));
+      mutation.mutate(urls.slice(0, 25));
+    }
   };
 
   const totals = useMemo(() => {
     if (!results) return null;
     const success = results.filter((r) => r.success).length;
+    const unchanged = results.filter((r) => r.unchanged).length;
     const links = results.reduce((a, r) => a + (r.links?.length ?? 0), 0);
-    return { total: results.length, success, links };
+    return { total: results.length, success, unchanged, links };
   }, [results]);
 
   return (
@@ -107,6 +81,16 @@ export default function ScraperPanel() {
               placeholder="https://example.com\nhttps://httpbin.org/html"
               className="min-h-32"
             />
+            <div>
+              <Label htmlFor="fields">Fields (optional)</Label>
+              <Textarea
+                id="fields"
+                value={fieldsText}
+                onChange={(e) => setFieldsText(e.target.value)}
+                placeholder={"price: .product .price\nimage: img.hero @src\ndescription: #description @html"}
+                className="min-h-20 font-mono text-xs"
+              />
+            </div>
             <div className="grid md:grid-cols-3 gap-4 items-center">
               <div>
                 <Label htmlFor="ua">User-Agent</Label>
@@ -127,19 +111,32 @@ export default function ScraperPanel() {
                 </div>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="robots"
+                checked={opts.respectRobotsTxt}
+                onCheckedChange={(v) => setOpts({ ...opts, respectRobotsTxt: v })}
+              />
+              <Label htmlFor="robots">Respect robots.txt</Label>
+            </div>
             <div className="flex items-center gap-3">
               <Button type="submit" disabled={mutation.isPending}>
-                {mutation.isPending ? "Scraping..." : "Scrape"}
+                {mutation.isPending
+                  ? `Scraping... ${results?.length ?? 0}/${pendingCount}`
+                  : "Scrape"}
               </Button>
               {totals && (
                 <div className="text-sm text-foreground/60">
                   <Badge variant="outline" className="mr-2">{totals.success}/{totals.total} success</Badge>
+                  {totals.unchanged > 0 && (
+                    <Badge variant="outline" className="mr-2">{totals.unchanged} unchanged</Badge>
+                  )}
                   <Badge variant="outline">{totals.links} links</Badge>
                 </div>
               )}
               <div className="flex-1" />
-              <Button type="button" variant="outline" onClick={exportCSV} disabled={!results}>Export CSV</Button>
-              <Button type="button" variant="outline" onClick={exportJSON} disabled={!results}>Export JSON</Button>
+              <Button type="button" variant="outline" onClick={() => exportCSV(results!)} disabled={!results}>Export CSV</Button>
+              <Button type="button" variant="outline" onClick={() => exportJSON(results!)} disabled={!results}>Export JSON</Button>
             </div>
           </form>
         </CardContent>
@@ -151,41 +148,7 @@ export default function ScraperPanel() {
             <CardTitle className="text-base">Results</CardTitle>
           </CardHeader>
           <CardContent>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>URL / Title</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Words</TableHead>
-                  <TableHead>Links</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {results.map((r) => (
-                  <TableRow key={r.url}>
-                    <TableCell className="max-w-[420px]">
-                      <div className="font-medium truncate" title={r.title ?? r.url}>{r.title ?? r.url}</div>
-                      <a className="text-xs text-primary underline underline-offset-4 break-all" href={r.url} target="_blank" rel="noreferrer">{r.url}</a>
-                    </TableCell>
-                    <TableCell>
-                      {r.success ? (
-                        <Badge className="bg-emerald-500/15 text-emerald-600">{r.status}</Badge>
-                      ) : (
-                        <Badge className="bg-rose-500/15 text-rose-600">error</Badge>
-                      )}
-                    </TableCell>
-                    <TableCell>{r.textPreview ? r.textPreview.split(/\s+/).length : 0}</TableCell>
-                    <TableCell>{r.links?.length ?? 0}</TableCell>
-                    <TableCell className="text-right">
-                      <Button asChild size="sm" variant="outline">
-                        <a href={r.url} target="_blank" rel="noreferrer">Open</a>
-                      </Button>
-                    </TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+            <ResultsTable results={results} />
           </CardContent>
         </Card>
       )}
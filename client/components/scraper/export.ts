@@ -0,0 +1,43 @@
+import type { ScrapeItem } from "@shared/api";
+import { formatFieldValue } from "./fields";
+
+export function toCSV(items: ScrapeItem[]): string {
+  const fieldNames = Array.from(new Set(items.flatMap((r) => Object.keys(r.fields ?? {}))));
+  const headers = [
+    "url",
+    "success",
+    "status",
+    "title",
+    "words",
+    "links",
+    ...fieldNames,
+  ];
+  const rows = items.map((r) => [
+    r.url,
+    String(r.success),
+    r.status ?? "",
+    (r.title ?? "").replace(/\n|\r/g, " "),
+    r.textPreview ? r.textPreview.split(/\s+/).length : 0,
+    r.links ? r.links.length : 0,
+    ...fieldNames.map((f) => formatFieldValue(r.fields?.[f]).replace(/\n|\r/g, " ")),
+  ]);
+  return [headers.join(","), ...rows.map((row) => row.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(","))].join("\n");
+}
+
+function download(content: string, type: string, filename: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function exportJSON(results: ScrapeItem[], filename = "scrape-results.json") {
+  download(JSON.stringify(results, null, 2), "application/json", filename);
+}
+
+export function exportCSV(results: ScrapeItem[], filename = "scrape-results.csv") {
+  download(toCSV(results), "text/csv", filename);
+}
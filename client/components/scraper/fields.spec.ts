@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { parseFieldLines } from "./fields";
+
+describe("parseFieldLines", () => {
+  it("reads text, attribute and html fields", () => {
+    expect(
+      parseFieldLines(
+        [
+          "title: h1",
+          "link: a.next @href",
+          "body: article .content @html",
+          "  price :  span[data-price] @data-price  ",
+        ].join("\n"),
+      ),
+    ).toEqual({
+      title: "h1",
+      link: { selector: "a.next", attribute: "href" },
+      body: { selector: "article .content", mode: "html" },
+      price: { selector: "span[data-price]", attribute: "data-price" },
+    });
+  });
+
+  it("skips lines that aren't name: selector", () => {
+    expect(parseFieldLines("\n# notes\nno colon here\nok: .x\n")).toEqual({
+      ok: ".x",
+    });
+  });
+
+  it("keeps colons inside the selector", () => {
+    expect(parseFieldLines("first: li:first-child")).toEqual({
+      first: "li:first-child",
+    });
+  });
+});
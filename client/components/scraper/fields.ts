@@ -0,0 +1,51 @@
+import type { FieldSpec, FieldValue, StructuredData } from "@shared/api";
+
+/**
+ * Parse the field editor text into the request's `fields` map. Each line is
+ * `name: selector`, optionally ending in `@attribute` or `@html`.
+ */
+export function parseFieldLines(text: string): Record<string, FieldSpec> {
+  const fields: Record<string, FieldSpec> = {};
+  for (const line of text.split("\n")) {
+    const m = line.match(/^\s*([\w.-]+)\s*:\s*(.+?)\s*$/);
+    if (!m) continue;
+    const [, name, rest] = m;
+    const suffix = rest.match(/^(.*?)\s+@([\w:-]+)$/);
+    if (!suffix) {
+      fields[name] = rest;
+    } else if (suffix[2] === "html") {
+      fields[name] = { selector: suffix[1], mode: "html" };
+    } else {
+      fields[name] = { selector: suffix[1], attribute: suffix[2] };
+    }
+  }
+  return fields;
+}
+
+export function formatFieldValue(value: FieldValue | undefined): string {
+  if (value == null) return "";
+  return Array.isArray(value) ? value.join(" | ") : value;
+}
+
+/**
+ * One line summing up a page's structured data: the first product's price
+ * and availability, or the first article's authors and publication date.
+ */
+export function describeStructured(data: StructuredData | undefined): string {
+  const product = data?.products[0];
+  if (product) {
+    const price =
+      product.price !== undefined
+        ? `${product.price}${product.currency ? ` ${product.currency}` : ""}`
+        : undefined;
+    return ["Product", price, product.availability].filter(Boolean).join(" · ");
+  }
+  const article = data?.articles[0];
+  if (article) {
+    const date = article.datePublished?.slice(0, 10);
+    const by = article.authors.length ? `by ${article.authors.join(", ")}` : undefined;
+    return [article.type, by, date].filter(Boolean).join(" · ");
+  }
+  const types = Array.from(new Set(data?.entities.flatMap((e) => e.type) ?? []));
+  return types.slice(0, 3).join(", ");
+}
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ScrapeItem } from "@shared/api";
+import { streamScrape } from "./stream";
+
+const encoder = new TextEncoder();
+
+/**
+ * Answer fetch with an SSE body sent in the given chunks. Unless `end`, the
+ * stream then stays open until the request's signal aborts it.
+ */
+function respondWith(chunks: string[], end = true) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach((c) => controller.enqueue(encoder.encode(c)));
+          if (end) controller.close();
+          init.signal?.addEventListener("abort", () =>
+            controller.error(init.signal!.reason),
+          );
+        },
+      });
+      return new Response(body, {
+        headers: { "Content-Type": "text/event-stream" },
+      });
+    }),
+  );
+}
+
+const item = (url: string) =>
+  `event: item\ndata: ${JSON.stringify({ url, success: true })}\n\n`;
+const done = `event: done\ndata: ${JSON.stringify({ total: 2, success: 2, failed: 0, durationMs: 5 })}\n\n`;
+
+describe("streamScrape", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("parses events split across chunks at any boundary", async () => {
+    const text = item("https://a.example") + item("https://b.example") + done;
+    // Split mid-line, mid-JSON and between the two newlines
+    respondWith([
+      text.slice(0, 7),
+      text.slice(7, 40),
+      text.slice(40, -1),
+      "\n",
+    ]);
+    const items: ScrapeItem[] = [];
+
+    const summary = await streamScrape({ urls: [] }, (i) => items.push(i));
+    expect(items.map((i) => i.url)).toEqual([
+      "https://a.example",
+      "https://b.example",
+    ]);
+    expect(summary).toEqual({ total: 2, success: 2, failed: 0, durationMs: 5 });
+  });
+
+  it("joins multi-line data and ignores comments", async () => {
+    respondWith([
+      ": keep-alive\n\n",
+      'event: item\ndata: {"url":\ndata: "https://a.example"}\n\n',
+      done,
+    ]);
+    const items: ScrapeItem[] = [];
+    await streamScrape({ urls: [] }, (i) => items.push(i));
+    expect(items).toEqual([{ url: "https://a.example" }]);
+  });
+
+  it("rejects when the stream ends without a summary", async () => {
+    respondWith([item("https://a.example")]);
+    await expect(streamScrape({ urls: [] }, () => {})).rejects.toThrow(
+      "Scrape stream ended early",
+    );
+  });
+
+  it("stops reading when aborted mid-stream", async () => {
+    respondWith([item("https://a.example")], false);
+    const controller = new AbortController();
+    const items: ScrapeItem[] = [];
+    const running = streamScrape(
+      { urls: [] },
+      (i) => {
+        items.push(i);
+        controller.abort();
+      },
+      controller.signal,
+    );
+    await expect(running).rejects.toMatchObject({ name: "AbortError" });
+    expect(items).toHaveLength(1);
+  });
+});
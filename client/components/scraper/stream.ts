@@ -0,0 +1,52 @@
+import type {
+  ScrapeItem,
+  ScrapeRequest,
+  ScrapeStreamSummary,
+} from "@shared/api";
+
+/**
+ * POST a scrape request to /api/scrape/stream and read the SSE response,
+ * calling `onItem` for every result as it arrives. Resolves with the final
+ * summary event.
+ */
+export async function streamScrape(
+  request: ScrapeRequest,
+  onItem: (item: ScrapeItem) => void,
+  signal?: AbortSignal,
+): Promise<ScrapeStreamSummary> {
+  const res = await fetch("/api/scrape/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!res.ok || !res.body) throw new Error("Scrape failed");
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let summary: ScrapeStreamSummary | undefined;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const event = parseEvent(buffer.slice(0, end));
+      buffer = buffer.slice(end + 2);
+      if (event?.type === "item") onItem(event.data);
+      if (event?.type === "done") summary = event.data;
+    }
+  }
+  if (!summary) throw new Error("Scrape stream ended early");
+  return summary;
+}
+
+function parseEvent(block: string): { type: string; data: any } | undefined {
+  let type = "message";
+  const data: string[] = [];
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) type = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+  }
+  return data.length ? { type, data: JSON.parse(data.join("\n")) } : undefined;
+}
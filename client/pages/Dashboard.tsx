@@ -1,5 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
-import type { MetricsResponse } from "@shared/api";
+import type {
+  ChangesResponse,
+  FieldChange,
+  MetricsResponse,
+} from "@shared/api";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -29,6 +33,18 @@ function useMetrics() {
   });
 }
 
+function useChanges() {
+  return useQuery<ChangesResponse>({
+    queryKey: ["changes"],
+    queryFn: async () => {
+      const res = await fetch("/api/changes?limit=20");
+      if (!res.ok) throw new Error("Failed to load changes");
+      return (await res.json()) as ChangesResponse;
+    },
+    refetchInterval: 5000,
+  });
+}
+
 export default function Dashboard() {
   const { data, isLoading } = useMetrics();
 
@@ -36,7 +52,11 @@ export default function Dashboard() {
     <div className="container py-8 md:py-10">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold">Operations</h1>
-        <Badge className="bg-primary/15 text-primary">Realtime</Badge>
+        {data?.demo ? (
+          <Badge className="bg-amber-500/15 text-amber-600">Demo data</Badge>
+        ) : (
+          <Badge className="bg-primary/15 text-primary">Realtime</Badge>
+        )}
       </div>
 
       <Tabs defaultValue="analytics" className="space-y-8">
@@ -56,6 +76,7 @@ export default function Dashboard() {
                 <Proxies data={data} />
                 <Alerts data={data} />
               </div>
+              <RecentChanges />
             </div>
           )}
         </TabsContent>
@@ -68,7 +89,6 @@ export default function Dashboard() {
   );
 }
 
-
 function LoadingState() {
   return (
     <div className="space-y-6">
@@ -239,7 +259,12 @@ function Proxies({ data }: { data: MetricsResponse }) {
             <div key={p.proxy} className="rounded-lg border p-4">
               <div className="flex items-center justify-between">
                 <div className="font-medium">{p.proxy}</div>
-                <div className="text-sm text-foreground/60">
+                <div className="flex items-center gap-2 text-sm text-foreground/60">
+                  {p.quarantinedUntil && (
+                    <Badge className="bg-red-500/15 text-red-600">
+                      Quarantined
+                    </Badge>
+                  )}
                   {Math.round(p.health * 100)}%
                 </div>
               </div>
@@ -303,3 +328,64 @@ function Alerts({ data }: { data: MetricsResponse }) {
     </Card>
   );
 }
+
+function RecentChanges() {
+  const { data } = useChanges();
+  const changes = data?.changes ?? [];
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Recent Changes</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {changes.length === 0 ? (
+          <div className="text-sm text-foreground/60">
+            No changes detected since the server started
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {changes.map((e) => (
+              <li key={e.id} className="rounded-lg border p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <a
+                    className="text-sm font-medium text-primary underline underline-offset-4 break-all"
+                    href={e.url}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    {e.url}
+                  </a>
+                  <span className="text-xs text-foreground/50 whitespace-nowrap">
+                    {new Date(e.timestamp).toLocaleTimeString()}
+                  </span>
+                </div>
+                <ul className="mt-2 space-y-1 text-xs">
+                  {e.changes.map((c) => (
+                    <li
+                      key={c.field}
+                      className="truncate"
+                      title={describeChange(c)}
+                    >
+                      <Badge variant="outline" className="mr-2">
+                        {c.type}
+                      </Badge>
+                      {describeChange(c)}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function describeChange(c: FieldChange) {
+  const show = (v: unknown) =>
+    typeof v === "string" ? v : JSON.stringify(v ?? null);
+  if (c.type === "added") return `${c.field}: ${show(c.after)}`;
+  if (c.type === "removed") return `${c.field}: ${show(c.before)}`;
+  return `${c.field}: ${show(c.before)} → ${show(c.after)}`;
+}
@@ -1,10 +1,24 @@
 import ScraperPanel from "@/components/scraper/ScraperPanel";
+import RunHistory from "@/components/scraper/RunHistory";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 export default function ScraperPage() {
   return (
     <div className="container py-8 md:py-10">
       <h1 className="text-2xl font-bold mb-6">Scraper</h1>
-      <ScraperPanel />
+      <Tabs defaultValue="scrape">
+        <TabsList className="mb-6">
+          <TabsTrigger value="scrape">Scrape</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+        {/* Keep the panel mounted so an in-progress scrape survives tab switches */}
+        <TabsContent value="scrape" forceMount className="data-[state=inactive]:hidden">
+          <ScraperPanel />
+        </TabsContent>
+        <TabsContent value="history">
+          <RunHistory />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -11,8 +11,16 @@ import { WebSocketServer } from 'ws';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
-import { AdvancedScraperEngine, ScrapingTarget } from '../core/ScraperEngine';
+import { AdvancedScraperEngine, ScrapingJob, ScrapingTarget } from '../core/ScraperEngine';
 import { DataAnalyzer } from '../analysis/DataAnalyzer';
+import { changeEvents } from '../core/changes';
+import { validateSchema } from '../core/schema';
+import { validateSelector } from '../core/selectors';
+import { validatePagination } from '../core/pagination';
+import { sessions } from '../core/sessions';
+import { proxyPool } from '../core/proxyPool';
+import { summarizeJob } from '../core/jobs';
+import { jobHandlers } from '../routes/jobs';
 
 const app = express();
 const server = createServer(app);
@@ -22,7 +30,9 @@ const wss = new WebSocketServer({ server });
 const scraperEngine = new AdvancedScraperEngine({
   maxConcurrency: 5,
   rateLimit: 120,
-  enableCaching: true
+  enableCaching: true,
+  // The process-wide pool, so /api/metrics reports this engine's proxies
+  proxyPool
 });
 
 const dataAnalyzer = new DataAnalyzer();
@@ -65,6 +75,29 @@ scraperEngine.on('batch-complete', (data) => {
   broadcast('stats-update', scraperEngine.getStats());
 });
 
+scraperEngine.on('job-started', (job: ScrapingJob) => {
+  broadcast('job-update', summarizeJob(job));
+});
+
+// Finished jobs are analyzed and their results pushed to clients
+scraperEngine.on('job-complete', async (job: ScrapingJob) => {
+  broadcast('job-update', summarizeJob(job));
+  job.results.forEach(result => {
+    broadcast('result-update', result);
+  });
+  if (!job.results.length) return;
+  try {
+    await dataAnalyzer.analyzeResults(job.results);
+  } catch (error) {
+    console.error('Analysis error:', error);
+  }
+});
+
+// Every change-detected event, from this engine or any other in the process
+changeEvents.on('change-detected', (event) => {
+  broadcast('change-detected', event);
+});
+
 dataAnalyzer.on('analysis-complete', (analysis) => {
   broadcast('analysis-update', analysis);
 });
@@ -73,6 +106,7 @@ dataAnalyzer.on('analysis-complete', (analysis) => {
 
 /**
  * Start scraping operation
+ * Returns 202 with a job ID at once; the work continues in the background
  */
 app.post('/api/scraper/start', async (req: Request, res: Response) => {
   try {
@@ -83,30 +117,52 @@ app.post('/api/scraper/start', async (req: Request, res: Response) => {
     }
 
     // Validate target structure
-    const validTargets = targets.filter(target => 
-      target.url && target.selectors && typeof target.selectors === 'object'
+    // A malformed schema is a client error, not a target to drop silently
+    for (const target of targets) {
+      const schemaError = target?.schema !== undefined ? validateSchema(target.schema) : undefined;
+      if (schemaError) {
+        return res.status(400).json({ error: `Invalid schema for ${target.url}: ${schemaError}` });
+      }
+      if (!target?.schema && target?.selectors && typeof target.selectors === 'object') {
+        for (const [field, entry] of Object.entries(target.selectors)) {
+          const selectorError = validateSelector(entry);
+          if (selectorError) {
+            return res.status(400).json({ error: `Invalid selector '${field}' for ${target.url}: ${selectorError}` });
+          }
+        }
+      }
+      const paginationError = target?.pagination !== undefined ? validatePagination(target.pagination) : undefined;
+      if (paginationError) {
+        return res.status(400).json({ error: `Invalid pagination for ${target.url}: ${paginationError}` });
+      }
+      if (target?.session !== undefined) {
+        // This engine has no browser, so only form logins can be renewed
+        const session = sessions.get(target.session);
+        if (!session) {
+          return res.status(400).json({ error: `Unknown session '${target.session}' for ${target.url}` });
+        }
+        if (session.login.type === 'browser') {
+          return res.status(400).json({ error: `Session '${target.session}' needs a browser login, which this engine doesn't have` });
+        }
+      }
+    }
+
+    const validTargets = targets.filter(target =>
+      target.url &&
+      (target.schema || (target.selectors && typeof target.selectors === 'object'))
     );
 
     if (validTargets.length === 0) {
       return res.status(400).json({ error: 'No valid targets provided' });
     }
 
-    // Start scraping asynchronously
-    const results = await scraperEngine.scrapeTargets(validTargets);
-    
-    // Analyze results
-    const analysis = await dataAnalyzer.analyzeResults(results);
-    
-    // Broadcast results
-    results.forEach(result => {
-      broadcast('result-update', result);
-    });
+    // Start scraping in the background
+    const job = scraperEngine.startJob(validTargets);
 
-    res.json({
+    res.status(202).json({
       success: true,
       message: `Started scraping ${validTargets.length} targets`,
-      resultsCount: results.length,
-      analysis: analysis.id
+      jobId: job.id
     });
 
   } catch (error) {
@@ -118,18 +174,12 @@ app.post('/api/scraper/start', async (req: Request, res: Response) => {
   }
 });
 
-/**
- * Stop scraping operation
- */
-app.post('/api/scraper/stop', (req: Request, res: Response) => {
-  try {
-    // Implementation would depend on how you want to handle stopping
-    // For now, just return success
-    res.json({ success: true, message: 'Scraping stopped' });
-  } catch (error) {
-    res.status(500).json({ error: 'Failed to stop scraping' });
-  }
-});
+// Stop (one job by `jobId`, or all running), list, inspect and cancel jobs
+const jobs = jobHandlers(scraperEngine);
+app.post('/api/scraper/stop', jobs.stop);
+app.get('/api/scraper/jobs', jobs.list);
+app.get('/api/scraper/jobs/:id', jobs.get);
+app.delete('/api/scraper/jobs/:id', jobs.cancel);
 
 /**
  * Get current scraper statistics
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  ActionElement,
+  ActionFrame,
+  ActionPage,
+  runActions,
+  validateActions,
+} from "./actions";
+
+function fakePage(selectors: string[]) {
+  const log: string[] = [];
+  const frame = (name: string): ActionFrame => ({
+    async waitForSelector(selector) {
+      if (!selectors.includes(selector)) {
+        throw new Error(`Waiting for selector \`${selector}\` failed`);
+      }
+      const element: ActionElement = {
+        click: async (o) =>
+          void log.push(
+            `${name}:click ${selector}${o?.clickCount ? ` x${o.clickCount}` : ""}`,
+          ),
+        type: async (text) => void log.push(`${name}:type ${selector} ${text}`),
+        press: async (key) => void log.push(`${name}:press ${selector} ${key}`),
+        select: async (...values) => (selector === "#size" ? values : []),
+        hover: async () => void log.push(`${name}:hover ${selector}`),
+        scrollIntoView: async () => void log.push(`${name}:scroll ${selector}`),
+        contentFrame: async () =>
+          selector.startsWith("iframe") ? frame(selector) : null,
+      };
+      return element;
+    },
+  });
+  const main = frame("main");
+  const page: ActionPage = {
+    mainFrame: () => main,
+    keyboard: { press: async (key) => void log.push(`key ${key}`) },
+    waitForNetworkIdle: async () => log.push("idle"),
+    waitForNavigation: async () => log.push("navigated"),
+  };
+  return { page, log };
+}
+
+describe("runActions", () => {
+  it("runs steps in order and switches into iframes", async () => {
+    const { page, log } = fakePage([
+      "#user",
+      "button[type=submit]",
+      "iframe#consent",
+      "#accept",
+    ]);
+    const results = await runActions(page, [
+      { action: "type", selector: "#user", text: "ada" },
+      { action: "press", key: "Tab" },
+      {
+        action: "click",
+        selector: "button[type=submit]",
+        waitForNavigation: true,
+      },
+      { action: "frame", selector: "iframe#consent" },
+      { action: "click", selector: "#accept" },
+      { action: "frame" },
+      { action: "waitForNetworkIdle" },
+    ]);
+    expect(results.every((r) => r.ok)).toBe(true);
+    expect(log).toEqual([
+      "main:click #user x3",
+      "main:press #user Backspace",
+      "main:type #user ada",
+      "key Tab",
+      "navigated",
+      "main:click button[type=submit]",
+      "iframe#consent:click #accept",
+      "idle",
+    ]);
+  });
+
+  it("skips past optional failures and stops at required ones", async () => {
+    const { page, log } = fakePage(["#size", ".more"]);
+    const results = await runActions(page, [
+      { action: "click", selector: ".cookie-banner button", optional: true },
+      { action: "select", selector: "#size", values: ["XL"] },
+      { action: "hover", selector: ".menu" },
+      { action: "click", selector: ".more" },
+    ]);
+    expect(results.map((r) => [r.action, r.ok])).toEqual([
+      ["click", false],
+      ["select", true],
+      ["hover", false],
+    ]);
+    expect(results[2].error).toMatch(/\.menu/);
+    expect(log).toEqual([]);
+  });
+});
+
+describe("validateActions", () => {
+  it("checks each step", () => {
+    expect(
+      validateActions([{ action: "wait", ms: 500 }, { action: "frame" }]),
+    ).toBeUndefined();
+    expect(validateActions([{ action: "eval", script: "x" }])).toBe(
+      "action 1: unknown action 'eval'",
+    );
+    expect(
+      validateActions([{ action: "press", key: "Enter" }, { action: "click" }]),
+    ).toBe("action 2: click needs a selector");
+    expect(validateActions([{ action: "wait", ms: 120_000 }])).toMatch(
+      /between/,
+    );
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * SENTINEL ACTIONS - Declarative browser steps for dynamic targets
+ * A target lists steps (click, type, select, hover, waits, key presses,
+ * scrolling, iframe switching) instead of shipping JavaScript to run in the
+ * page. Steps run in order; the first required step that fails ends the
+ * sequence, while `optional` steps (say, a cookie banner that may not show)
+ * are allowed to fail. Every step is reported with its outcome.
+ */
+
+export type BrowserAction = (
+  | { action: "click"; selector: string; waitForNavigation?: boolean }
+  | {
+      action: "type";
+      selector: string;
+      text: string;
+      /** Clear the field first (default true) */
+      clear?: boolean;
+      delayMs?: number;
+    }
+  | { action: "select"; selector: string; values: string[] }
+  | { action: "hover"; selector: string }
+  | { action: "waitForSelector"; selector: string; visible?: boolean }
+  | { action: "waitForNetworkIdle"; idleMs?: number }
+  | { action: "wait"; ms: number }
+  | { action: "press"; key: string }
+  | { action: "scrollIntoView"; selector: string }
+  /** Later steps act inside this iframe; without a selector, back to the page */
+  | { action: "frame"; selector?: string }
+) & {
+  /** Failing doesn't stop the sequence */
+  optional?: boolean;
+  timeoutMs?: number;
+};
+
+export type BrowserActionName = BrowserAction["action"];
+
+export interface ActionResult {
+  index: number;
+  action: BrowserActionName;
+  ok: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+/** The parts of a puppeteer ElementHandle the steps use. */
+export interface ActionElement {
+  click(options?: { clickCount?: number }): Promise<void>;
+  type(text: string, options?: { delay?: number }): Promise<void>;
+  press(key: string): Promise<void>;
+  select(...values: string[]): Promise<string[]>;
+  hover(): Promise<void>;
+  scrollIntoView(): Promise<void>;
+  contentFrame(): Promise<ActionFrame | null>;
+}
+
+export interface ActionFrame {
+  waitForSelector(
+    selector: string,
+    options?: { timeout?: number; visible?: boolean },
+  ): Promise<ActionElement | null>;
+}
+
+/** The parts of a puppeteer Page the steps use. */
+export interface ActionPage {
+  mainFrame(): ActionFrame;
+  keyboard: { press(key: string): Promise<void> };
+  waitForNetworkIdle(options?: {
+    idleTime?: number;
+    timeout?: number;
+  }): Promise<unknown>;
+  waitForNavigation(options?: { timeout?: number }): Promise<unknown>;
+}
+
+export class ActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ActionError";
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const MAX_ACTIONS = 50;
+const MAX_WAIT_MS = 60_000;
+
+const SELECTOR_ACTIONS = new Set<string>([
+  "click",
+  "type",
+  "select",
+  "hover",
+  "waitForSelector",
+  "scrollIntoView",
+]);
+
+/** Check a target's `actions`, returning a message if malformed. */
+export function validateActions(actions: unknown): string | undefined {
+  if (!Array.isArray(actions)) return "actions must be an array";
+  if (actions.length > MAX_ACTIONS) {
+    return `at most ${MAX_ACTIONS} actions are allowed`;
+  }
+  for (const [index, step] of actions.entries()) {
+    const error = validateAction(step);
+    if (error) return `action ${index + 1}: ${error}`;
+  }
+  return undefined;
+}
+
+function validateAction(step: any): string | undefined {
+  if (!step || typeof step !== "object") return "must be an object";
+  const { action } = step;
+  const known = [
+    ...SELECTOR_ACTIONS,
+    "waitForNetworkIdle",
+    "wait",
+    "press",
+    "frame",
+  ];
+  if (!known.includes(action)) return `unknown action '${action}'`;
+  if (
+    SELECTOR_ACTIONS.has(action) &&
+    (typeof step.selector !== "string" || !step.selector.trim())
+  ) {
+    return `${action} needs a selector`;
+  }
+  if (
+    step.timeoutMs !== undefined &&
+    !(typeof step.timeoutMs === "number" && step.timeoutMs > 0)
+  ) {
+    return "timeoutMs must be a positive number";
+  }
+  switch (action) {
+    case "type":
+      return typeof step.text === "string" ? undefined : "type needs text";
+    case "select":
+      return Array.isArray(step.values) &&
+        step.values.every((v: unknown) => typeof v === "string")
+        ? undefined
+        : "select needs a list of values";
+    case "wait":
+      return typeof step.ms === "number" &&
+        step.ms >= 0 &&
+        step.ms <= MAX_WAIT_MS
+        ? undefined
+        : `wait needs ms between 0 and ${MAX_WAIT_MS}`;
+    case "press":
+      return typeof step.key === "string" && step.key
+        ? undefined
+        : "press needs a key";
+    case "frame":
+      return step.selector === undefined || typeof step.selector === "string"
+        ? undefined
+        : "frame selector must be a string";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Run the steps in order on `page`. Returns one result per step that ran;
+ * steps after a failed required step don't run.
+ */
+export async function runActions(
+  page: ActionPage,
+  actions: BrowserAction[],
+): Promise<ActionResult[]> {
+  const results: ActionResult[] = [];
+  let frame = page.mainFrame();
+
+  for (const [index, step] of actions.entries()) {
+    const started = Date.now();
+    try {
+      frame = await runAction(page, frame, step);
+      results.push({
+        index,
+        action: step.action,
+        ok: true,
+        durationMs: Date.now() - started,
+      });
+    } catch (error) {
+      results.push({
+        index,
+        action: step.action,
+        ok: false,
+        durationMs: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (!step.optional) break;
+    }
+  }
+  return results;
+}
+
+/** Run one step; returns the frame later steps act in. */
+async function runAction(
+  page: ActionPage,
+  frame: ActionFrame,
+  step: BrowserAction,
+): Promise<ActionFrame> {
+  const timeout = step.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const find = async (selector: string, visible = false) => {
+    const element = await frame.waitForSelector(selector, { timeout, visible });
+    if (!element) throw new ActionError(`No element matches '${selector}'`);
+    return element;
+  };
+
+  switch (step.action) {
+    case "click": {
+      const element = await find(step.selector, true);
+      if (step.waitForNavigation) {
+        await Promise.all([
+          page.waitForNavigation({ timeout }),
+          element.click(),
+        ]);
+      } else {
+        await element.click();
+      }
+      return frame;
+    }
+    case "type": {
+      const element = await find(step.selector, true);
+      if (step.clear !== false) {
+        // Select whatever is in the field so typing replaces it
+        await element.click({ clickCount: 3 });
+        await element.press("Backspace");
+      }
+      await element.type(step.text, { delay: step.delayMs });
+      return frame;
+    }
+    case "select": {
+      const element = await find(step.selector);
+      const selected = await element.select(...step.values);
+      if (step.values.length && !selected.length) {
+        throw new ActionError(
+          `No option of '${step.selector}' has value ${step.values.join(", ")}`,
+        );
+      }
+      return frame;
+    }
+    case "hover":
+      await (await find(step.selector, true)).hover();
+      return frame;
+    case "waitForSelector":
+      await find(step.selector, step.visible);
+      return frame;
+    case "waitForNetworkIdle":
+      await page.waitForNetworkIdle({ idleTime: step.idleMs ?? 500, timeout });
+      return frame;
+    case "wait":
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(step.ms, MAX_WAIT_MS)),
+      );
+      return frame;
+    case "press":
+      await page.keyboard.press(step.key);
+      return frame;
+    case "scrollIntoView":
+      await (await find(step.selector)).scrollIntoView();
+      return frame;
+    case "frame": {
+      if (!step.selector) return page.mainFrame();
+      const inner = await (await find(step.selector)).contentFrame();
+      if (!inner) throw new ActionError(`'${step.selector}' is not an iframe`);
+      return inner;
+    }
+    default:
+      throw new ActionError(
+        `Unknown action '${(step as { action: string }).action}'`,
+      );
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { BrowserPool, BrowserPoolError } from "./browserPool";
+
+class FakePage {
+  closed = false;
+  heap = 10;
+  constructor(readonly id: number) {}
+  async close() {
+    this.closed = true;
+  }
+  async metrics() {
+    return { JSHeapUsedSize: this.heap * 1024 * 1024 };
+  }
+}
+
+class FakeBrowser {
+  contexts = 0;
+  private handlers: Array<() => void> = [];
+  constructor(private nextPage: () => FakePage) {}
+  async createIncognitoBrowserContext() {
+    this.contexts++;
+    return {
+      newPage: async () => this.nextPage(),
+      close: async () => {
+        this.contexts--;
+      },
+    };
+  }
+  on(_event: "disconnected", handler: () => void) {
+    this.handlers.push(handler);
+  }
+  async close() {}
+  crash() {
+    this.handlers.forEach((h) => h());
+  }
+}
+
+function fakePool(options = {}) {
+  let pages = 0;
+  const browsers: FakeBrowser[] = [];
+  const pool = new BrowserPool<FakePage>(async () => {
+    const browser = new FakeBrowser(() => new FakePage(++pages));
+    browsers.push(browser);
+    return browser;
+  }, options);
+  return { pool, browsers };
+}
+
+describe("BrowserPool", () => {
+  it("reuses an idle page and waits when every context is busy", async () => {
+    const { pool } = fakePool({ contextsPerBrowser: 1 });
+    const first = await pool.acquire();
+    let second: FakePage | undefined;
+    const waiting = pool.acquire().then((lease) => (second = lease.page));
+    await Promise.resolve();
+    expect(second).toBeUndefined();
+    expect(pool.stats().waiting).toBe(1);
+
+    await first.release();
+    await waiting;
+    expect(second).toBe(first.page);
+    expect(pool.stats()).toMatchObject({ launches: 1, pagesServed: 2 });
+  });
+
+  it("recycles a context after its page quota or heap growth", async () => {
+    const { pool } = fakePool({ pagesPerContext: 2, maxHeapGrowthMb: 50 });
+    const page1 = await pool.withPage(async (page) => page);
+    expect(await pool.withPage(async (page) => page)).toBe(page1);
+    const page2 = await pool.withPage(async (page) => page);
+    expect(page2).not.toBe(page1);
+
+    page2.heap = 100;
+    await pool.withPage(async () => {});
+    expect(await pool.withPage(async (page) => page)).not.toBe(page2);
+    expect(pool.stats().recycledContexts).toBe(2);
+  });
+
+  it("discards the page of a failed scrape", async () => {
+    const { pool } = fakePool();
+    await expect(
+      pool.withPage(async () => {
+        throw new Error("timeout");
+      }),
+    ).rejects.toThrow("timeout");
+    expect(pool.stats()).toMatchObject({ contexts: 0, busyPages: 0 });
+  });
+
+  it("relaunches a browser that disconnects", async () => {
+    const { pool, browsers } = fakePool();
+    const lease = await pool.acquire();
+    browsers[0].crash();
+    await lease.release();
+    const next = await pool.acquire();
+    expect(next.page).not.toBe(lease.page);
+    expect(browsers).toHaveLength(2);
+    expect(pool.stats()).toMatchObject({ launches: 2, restarts: 1 });
+  });
+
+  it("fails waiters when closed", async () => {
+    const { pool } = fakePool({ contextsPerBrowser: 1 });
+    await pool.acquire();
+    const waiting = pool.acquire();
+    await pool.close();
+    await expect(waiting).rejects.toBeInstanceOf(BrowserPoolError);
+    await expect(pool.acquire()).rejects.toThrow(/closed/);
+  });
+});
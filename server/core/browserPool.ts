@@ -0,0 +1,306 @@
+/**
+ * SENTINEL BROWSER POOL - Bounded, self-healing headless browsers
+ * A fixed number of browsers each host a few incognito contexts; a context
+ * keeps one page open and lends it to one scrape at a time. Contexts are
+ * recycled after a number of pages or when their JS heap has grown too much,
+ * and a browser that disconnects (crash, OOM kill) is relaunched.
+ */
+
+/** The parts of a puppeteer Page the pool uses. */
+export interface PooledPage {
+  close(): Promise<void>;
+  metrics?(): Promise<{ JSHeapUsedSize?: number }>;
+}
+
+export interface PooledContext<P extends PooledPage> {
+  newPage(): Promise<P>;
+  close(): Promise<void>;
+}
+
+/** The parts of a puppeteer Browser the pool uses. */
+export interface PooledBrowser<P extends PooledPage> {
+  createIncognitoBrowserContext(): Promise<PooledContext<P>>;
+  on(event: "disconnected", handler: () => void): unknown;
+  close(): Promise<void>;
+}
+
+export interface BrowserPoolOptions<P extends PooledPage = PooledPage> {
+  browsers: number;
+  contextsPerBrowser: number;
+  /** Pages served by a context before it is closed and replaced */
+  pagesPerContext: number;
+  /** JS heap growth since a context's first page that gets it replaced */
+  maxHeapGrowthMb: number;
+  /** Clear a page between scrapes; a page that fails to reset is discarded */
+  resetPage?: (page: P) => Promise<void>;
+}
+
+export interface PageLease<P> {
+  page: P;
+  /** Return the page; `discard` replaces its context instead of reusing it */
+  release(options?: { discard?: boolean }): Promise<void>;
+}
+
+export interface BrowserPoolStats {
+  browsers: number;
+  contexts: number;
+  busyPages: number;
+  waiting: number;
+  capacity: number;
+  launches: number;
+  restarts: number;
+  recycledContexts: number;
+  pagesServed: number;
+}
+
+export class BrowserPoolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BrowserPoolError";
+  }
+}
+
+interface BrowserSlot<P extends PooledPage> {
+  browser?: Promise<PooledBrowser<P>>;
+  contexts: ContextSlot<P>[];
+}
+
+interface ContextSlot<P extends PooledPage> {
+  host: BrowserSlot<P>;
+  context?: PooledContext<P>;
+  page?: P;
+  busy: boolean;
+  pages: number;
+  baselineHeap?: number;
+}
+
+const MB = 1024 * 1024;
+
+export class BrowserPool<P extends PooledPage> {
+  private options: BrowserPoolOptions<P>;
+  private hosts: BrowserSlot<P>[];
+  private busy = 0;
+  private waiting: Array<{ resolve: () => void; reject: (e: Error) => void }> =
+    [];
+  private closed = false;
+  private counters = {
+    launches: 0,
+    restarts: 0,
+    recycledContexts: 0,
+    pagesServed: 0,
+  };
+
+  constructor(
+    private launchBrowser: () => Promise<PooledBrowser<P>>,
+    options: Partial<BrowserPoolOptions<P>> = {},
+  ) {
+    this.options = {
+      browsers: 1,
+      contextsPerBrowser: 4,
+      pagesPerContext: 50,
+      maxHeapGrowthMb: 256,
+      ...options,
+    };
+    this.hosts = Array.from(
+      { length: Math.max(1, this.options.browsers) },
+      () => ({ contexts: [] }),
+    );
+  }
+
+  get capacity(): number {
+    return this.hosts.length * Math.max(1, this.options.contextsPerBrowser);
+  }
+
+  /**
+   * Borrow a page, waiting while every context is busy. Browsers and contexts
+   * are created on first use. Throws `BrowserPoolError` once the pool closes.
+   */
+  async acquire(): Promise<PageLease<P>> {
+    if (this.closed) throw new BrowserPoolError("Browser pool is closed");
+    if (this.busy >= this.capacity) {
+      // A releasing lease hands its place straight to the first waiter
+      await new Promise<void>((resolve, reject) =>
+        this.waiting.push({ resolve, reject }),
+      );
+    } else {
+      this.busy++;
+    }
+
+    let slot: ContextSlot<P>;
+    try {
+      slot = await this.take();
+    } catch (error) {
+      this.handOff();
+      throw error;
+    }
+    this.counters.pagesServed++;
+
+    let released = false;
+    return {
+      page: slot.page!,
+      release: async ({ discard = false } = {}) => {
+        if (released) return;
+        released = true;
+        try {
+          await this.giveBack(slot, discard);
+        } finally {
+          this.handOff();
+        }
+      },
+    };
+  }
+
+  /** Run `fn` with a borrowed page; a page whose scrape throws is discarded. */
+  async withPage<T>(fn: (page: P) => Promise<T>): Promise<T> {
+    const lease = await this.acquire();
+    let discard = false;
+    try {
+      return await fn(lease.page);
+    } catch (error) {
+      discard = true;
+      throw error;
+    } finally {
+      await lease.release({ discard });
+    }
+  }
+
+  stats(): BrowserPoolStats {
+    const contexts = this.hosts.flatMap((h) => h.contexts);
+    return {
+      browsers: this.hosts.filter((h) => h.browser).length,
+      contexts: contexts.length,
+      busyPages: contexts.filter((c) => c.busy).length,
+      waiting: this.waiting.length,
+      capacity: this.capacity,
+      ...this.counters,
+    };
+  }
+
+  /** Close every browser and fail anything still waiting for a page. */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(new BrowserPoolError("Browser pool is closed"));
+    }
+    const browsers = this.hosts.map((h) => h.browser);
+    for (const host of this.hosts) {
+      host.browser = undefined;
+      host.contexts = [];
+    }
+    await Promise.all(
+      browsers.map(async (launching) => {
+        if (!launching) return;
+        try {
+          await (await launching).close();
+        } catch {
+          // Already gone
+        }
+      }),
+    );
+  }
+
+  /** An idle context, or a new one on the least loaded browser. */
+  private async take(): Promise<ContextSlot<P>> {
+    let slot = this.hosts
+      .flatMap((h) => h.contexts)
+      .find((c) => !c.busy && c.page);
+    if (!slot) {
+      const host = this.hosts.reduce((a, b) =>
+        b.contexts.length < a.contexts.length ? b : a,
+      );
+      slot = { host, busy: true, pages: 0 };
+      host.contexts.push(slot);
+    }
+    slot.busy = true;
+    try {
+      const browser = await this.browserFor(slot.host);
+      slot.context ??= await browser.createIncognitoBrowserContext();
+      slot.page ??= await slot.context.newPage();
+      return slot;
+    } catch (error) {
+      await this.retire(slot);
+      throw error;
+    }
+  }
+
+  private browserFor(host: BrowserSlot<P>): Promise<PooledBrowser<P>> {
+    host.browser ??= this.launch(host);
+    return host.browser;
+  }
+
+  private launch(host: BrowserSlot<P>): Promise<PooledBrowser<P>> {
+    const launching = this.launchBrowser().then((browser) => {
+      this.counters.launches++;
+      browser.on("disconnected", () => this.disconnected(host, launching));
+      return browser;
+    });
+    // A failed launch is retried by the next acquire
+    launching.catch(() => {
+      if (host.browser === launching) host.browser = undefined;
+    });
+    return launching;
+  }
+
+  /** A browser went away: forget its contexts and start a replacement. */
+  private disconnected(
+    host: BrowserSlot<P>,
+    launching: Promise<PooledBrowser<P>>,
+  ): void {
+    // Closed on purpose, or already replaced
+    if (this.closed || host.browser !== launching) return;
+    host.contexts = [];
+    host.browser = this.launch(host);
+    this.counters.restarts++;
+  }
+
+  private async giveBack(slot: ContextSlot<P>, discard: boolean) {
+    slot.pages++;
+    let recycle =
+      discard ||
+      slot.pages >= this.options.pagesPerContext ||
+      !slot.host.contexts.includes(slot);
+    if (!recycle) {
+      const heap = await this.heapOf(slot.page!);
+      if (heap !== undefined) {
+        slot.baselineHeap ??= heap;
+        recycle = heap - slot.baselineHeap > this.options.maxHeapGrowthMb * MB;
+      }
+    }
+    if (!recycle && this.options.resetPage) {
+      try {
+        await this.options.resetPage(slot.page!);
+      } catch {
+        recycle = true;
+      }
+    }
+    if (recycle) {
+      if (slot.host.contexts.includes(slot)) this.counters.recycledContexts++;
+      await this.retire(slot);
+    } else {
+      slot.busy = false;
+    }
+  }
+
+  private async heapOf(page: P): Promise<number | undefined> {
+    try {
+      return (await page.metrics?.())?.JSHeapUsedSize;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async retire(slot: ContextSlot<P>) {
+    slot.host.contexts = slot.host.contexts.filter((c) => c !== slot);
+    try {
+      await slot.context?.close();
+    } catch {
+      // The browser may already be gone
+    }
+  }
+
+  private handOff() {
+    const next = this.waiting.shift();
+    if (next) next.resolve();
+    else this.busy--;
+  }
+}
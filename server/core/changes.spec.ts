@@ -0,0 +1,90 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  SnapshotStore,
+  changeEvents,
+  detectChanges,
+  diffData,
+  targetKey,
+} from "./changes";
+
+describe("diffData", () => {
+  it("reports added, removed and changed fields", () => {
+    expect(
+      diffData(
+        { price: "9.99", stock: "in", tags: ["a", "b"] },
+        { price: "8.99", tags: ["a", "b"], sku: "X1" },
+      ),
+    ).toEqual([
+      { field: "price", type: "changed", before: "9.99", after: "8.99" },
+      { field: "stock", type: "removed", before: "in" },
+      { field: "sku", type: "added", after: "X1" },
+    ]);
+  });
+
+  it("compares objects regardless of key order but arrays in order", () => {
+    expect(diffData({ o: { a: 1, b: 2 } }, { o: { b: 2, a: 1 } })).toEqual([]);
+    expect(diffData({ l: [1, 2] }, { l: [2, 1] })).toHaveLength(1);
+  });
+});
+
+describe("SnapshotStore", () => {
+  let dir: string;
+  let store: SnapshotStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "snapshots-"));
+    store = new SnapshotStore(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("has nothing to compare on first sight, then diffs the last snapshot", async () => {
+    const id = targetKey("https://shop.example/p/1", { price: ".price" });
+    expect(await store.compare(id, "u", { price: "10" }, 1)).toEqual({
+      changes: [],
+    });
+    expect(await store.compare(id, "u", { price: "12" }, 2)).toEqual({
+      changes: [{ field: "price", type: "changed", before: "10", after: "12" }],
+      previousTimestamp: 1,
+    });
+    expect((await store.get(id))?.data).toEqual({ price: "12" });
+  });
+
+  it("emits change-detected only when something changed", async () => {
+    const seen: string[] = [];
+    const listener = (e: { url: string }) => seen.push(e.url);
+    changeEvents.on("change-detected", listener);
+    try {
+      await detectChanges(
+        "t1",
+        "https://a.example/",
+        { x: "1" },
+        "test",
+        store,
+      );
+      await detectChanges(
+        "t1",
+        "https://a.example/",
+        { x: "1" },
+        "test",
+        store,
+      );
+      const { event } = await detectChanges(
+        "t1",
+        "https://a.example/",
+        { x: "2" },
+        "test",
+        store,
+      );
+      expect(event?.changes).toHaveLength(1);
+      expect(seen).toEqual(["https://a.example/"]);
+    } finally {
+      changeEvents.off("change-detected", listener);
+    }
+  });
+});
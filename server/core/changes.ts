@@ -0,0 +1,170 @@
+/**
+ * SENTINEL CHANGES - Per-target snapshots and field-level diffs
+ * The last extracted data for each target (URL + selectors) is kept on disk;
+ * every new extraction is diffed against it and a `change-detected` event is
+ * emitted on `changeEvents` when any field differs.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { ChangeEvent, FieldChange } from "@shared/api";
+
+export interface Snapshot {
+  targetId: string;
+  url: string;
+  data: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface Comparison {
+  changes: FieldChange[];
+  /** When the snapshot compared against was taken; absent on first sight */
+  previousTimestamp?: number;
+}
+
+// Recent change events kept in memory for the dashboard and alerts
+const MAX_RECENT = 200;
+
+/** Same key AdvancedScraperEngine uses: URL plus the selectors used on it. */
+export function targetKey(url: string, selectors: unknown): string {
+  return createHash("md5")
+    .update(url + JSON.stringify(selectors))
+    .digest("hex");
+}
+
+/**
+ * Field-level diff of two extractions. Values are compared structurally, so
+ * arrays must match element for element, in order.
+ */
+export function diffData(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of fields) {
+    const had = field in before && before[field] !== undefined;
+    const has = field in after && after[field] !== undefined;
+    if (had && !has) {
+      changes.push({ field, type: "removed", before: before[field] });
+    } else if (!had && has) {
+      changes.push({ field, type: "added", after: after[field] });
+    } else if (had && stableJson(before[field]) !== stableJson(after[field])) {
+      changes.push({
+        field,
+        type: "changed",
+        before: before[field],
+        after: after[field],
+      });
+    }
+  }
+  return changes;
+}
+
+function stableJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => (a < b ? -1 : 1)),
+        )
+      : v,
+  );
+}
+
+/**
+ * Snapshots stored as one JSON file per target under
+ * `$SCRAPER_DATA_DIR/snapshots` (default `./data/snapshots`).
+ */
+export class SnapshotStore {
+  /** Without a `dir`, SCRAPER_DATA_DIR is read on each use */
+  constructor(private dir?: string) {}
+
+  async get(targetId: string): Promise<Snapshot | undefined> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(targetId), "utf8"));
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return undefined;
+      throw e;
+    }
+  }
+
+  /** Diff `data` against the stored snapshot, then make it the new snapshot. */
+  async compare(
+    targetId: string,
+    url: string,
+    data: Record<string, unknown>,
+    now = Date.now(),
+  ): Promise<Comparison> {
+    const previous = await this.get(targetId);
+    await mkdir(this.snapshotsDir(), { recursive: true });
+    const snapshot: Snapshot = { targetId, url, data, timestamp: now };
+    await writeFile(this.pathFor(targetId), JSON.stringify(snapshot));
+    if (!previous) return { changes: [] };
+    return {
+      changes: diffData(previous.data, data),
+      previousTimestamp: previous.timestamp,
+    };
+  }
+
+  private pathFor(targetId: string): string {
+    // Target IDs are hex hashes, but never trust them as path segments
+    const safe = targetId.replace(/[^\w-]/g, "_");
+    return path.join(this.snapshotsDir(), `${safe}.json`);
+  }
+
+  private snapshotsDir(): string {
+    return (
+      this.dir ??
+      path.resolve(process.env.SCRAPER_DATA_DIR || "data", "snapshots")
+    );
+  }
+}
+
+/** Shared store for the HTTP endpoints and engines in this process. */
+export const snapshotStore = new SnapshotStore();
+
+/**
+ * Process-wide `change-detected` events, whichever component found them.
+ * Engines also emit the event on themselves for direct subscribers.
+ */
+export const changeEvents = new EventEmitter();
+
+const recent: ChangeEvent[] = [];
+
+/**
+ * Compare an extraction against its snapshot and, if anything changed,
+ * record and emit a `change-detected` event. Returns the comparison.
+ */
+export async function detectChanges(
+  targetId: string,
+  url: string,
+  data: Record<string, unknown>,
+  source: string,
+  store = snapshotStore,
+): Promise<Comparison & { event?: ChangeEvent }> {
+  const comparison = await store.compare(targetId, url, data);
+  if (!comparison.changes.length) return comparison;
+  const event: ChangeEvent = {
+    id: randomUUID(),
+    targetId,
+    url,
+    changes: comparison.changes,
+    timestamp: Date.now(),
+    previousTimestamp: comparison.previousTimestamp,
+    source,
+  };
+  recent.push(event);
+  if (recent.length > MAX_RECENT) recent.splice(0, recent.length - MAX_RECENT);
+  changeEvents.emit("change-detected", event);
+  return { ...comparison, event };
+}
+
+/** Change events recorded in this process, newest first. */
+export function recentChanges(since = 0, limit = 50): ChangeEvent[] {
+  return recent
+    .filter((e) => e.timestamp >= since)
+    .slice(-limit)
+    .reverse();
+}
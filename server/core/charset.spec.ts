@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  charsetFromContentType,
+  charsetFromMarkup,
+  decodeBody,
+  normalizeCharset,
+} from "./charset";
+
+const bytes = (text: string) => new Uint8Array(Buffer.from(text, "latin1"));
+const concat = (...parts: Array<Uint8Array | number[]>) =>
+  new Uint8Array(parts.flatMap((part) => [...part]));
+
+// 日本語 in Shift_JIS, Привет in windows-1251
+const SJIS = [0x93, 0xfa, 0x96, 0x7b, 0x8c, 0xea];
+const CP1251 = [0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2];
+
+describe("charset labels", () => {
+  it("normalizes aliases and rejects unknown labels", () => {
+    expect(normalizeCharset("Shift_JIS")).toBe("shift_jis");
+    expect(normalizeCharset("sjis")).toBe("shift_jis");
+    expect(normalizeCharset("'latin1'")).toBe("windows-1252");
+    expect(normalizeCharset("x-unknown")).toBeUndefined();
+    expect(charsetFromContentType('text/html; charset="cp1251"')).toBe(
+      "windows-1251",
+    );
+    expect(charsetFromContentType("text/html")).toBeUndefined();
+  });
+
+  it("finds meta charset, http-equiv and XML declarations", () => {
+    expect(charsetFromMarkup(bytes('<head><meta charset="euc-kr">'))).toBe(
+      "euc-kr",
+    );
+    expect(
+      charsetFromMarkup(
+        bytes(
+          `<meta name="x"><meta http-equiv='Content-Type' content='text/html; charset=Shift_JIS'>`,
+        ),
+      ),
+    ).toBe("shift_jis");
+    expect(
+      charsetFromMarkup(bytes('<?xml version="1.0" encoding="windows-1251"?>')),
+    ).toBe("windows-1251");
+    expect(charsetFromMarkup(bytes('<meta charset="utf-16">'))).toBe("utf-8");
+    // Outside the first 1024 bytes it doesn't count
+    expect(
+      charsetFromMarkup(bytes(" ".repeat(1024) + '<meta charset="koi8-r">')),
+    ).toBeUndefined();
+  });
+});
+
+describe("decodeBody", () => {
+  it("decodes Shift_JIS declared in the Content-Type header", () => {
+    const decoded = decodeBody(
+      concat(bytes("<p>"), SJIS, bytes("</p>")),
+      "text/html; charset=Shift_JIS",
+    );
+    expect(decoded).toEqual({
+      text: "<p>日本語</p>",
+      encoding: "shift_jis",
+      source: "header",
+    });
+  });
+
+  it("falls back to the meta tag when the header has no charset", () => {
+    const page = concat(
+      bytes('<html><head><meta charset="windows-1251"></head><h1>'),
+      CP1251,
+      bytes("</h1>"),
+    );
+    expect(decodeBody(page, "text/html")).toMatchObject({
+      encoding: "windows-1251",
+      source: "meta",
+    });
+    expect(decodeBody(page, "text/html").text).toContain("<h1>Привет</h1>");
+    // Non-markup bodies aren't sniffed
+    expect(decodeBody(page, "application/json").source).toBe("default");
+  });
+
+  it("lets a BOM override the header and strips it", () => {
+    const decoded = decodeBody(
+      concat([0xef, 0xbb, 0xbf], Buffer.from("café")),
+      "text/html; charset=iso-8859-1",
+    );
+    expect(decoded).toEqual({ text: "café", encoding: "utf-8", source: "bom" });
+    expect(
+      decodeBody(concat([0xff, 0xfe], Buffer.from("hé", "utf16le"))),
+    ).toMatchObject({ text: "hé", encoding: "utf-16le" });
+  });
+
+  it("uses UTF-8 when the declared charset is unknown", () => {
+    expect(
+      decodeBody(Buffer.from("naïve"), "text/html; charset=x-bogus"),
+    ).toEqual({ text: "naïve", encoding: "utf-8", source: "default" });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * SENTINEL CHARSET - Decoding fetched bodies from their declared encoding
+ * Bodies are fetched as bytes and decoded here, following the order browsers
+ * use: a byte order mark wins, then the Content-Type charset, then a
+ * `<meta charset>` / `http-equiv` tag or XML declaration within the first
+ * KB, and finally UTF-8. Labels are resolved through TextDecoder, so any
+ * encoding the runtime's ICU knows (Shift_JIS, windows-1251, EUC-KR, ...)
+ * works; an unknown label is skipped like a missing one.
+ */
+
+export type CharsetSource = "bom" | "header" | "meta" | "default";
+
+export interface DecodedBody {
+  text: string;
+  /** Canonical WHATWG name, e.g. "shift_jis", "windows-1251", "utf-8" */
+  encoding: string;
+  source: CharsetSource;
+}
+
+// WHATWG prescan: a meta charset must appear within the first 1024 bytes
+const PRESCAN_BYTES = 1024;
+
+const BOMS: Array<{ bytes: number[]; encoding: string }> = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: "utf-8" },
+  { bytes: [0xfe, 0xff], encoding: "utf-16be" },
+  { bytes: [0xff, 0xfe], encoding: "utf-16le" },
+];
+
+/** Canonical name of an encoding label, or undefined if it isn't supported. */
+export function normalizeCharset(
+  label: string | undefined,
+): string | undefined {
+  const trimmed = label?.trim().replace(/^["']|["']$/g, "");
+  if (!trimmed) return undefined;
+  try {
+    return new TextDecoder(trimmed).encoding;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The `charset` parameter of a Content-Type header. */
+export function charsetFromContentType(
+  contentType: string | undefined,
+): string | undefined {
+  const match = /;\s*charset\s*=\s*("[^"]*"|[^;\s]+)/i.exec(contentType ?? "");
+  return normalizeCharset(match?.[1]);
+}
+
+export function sniffBom(bytes: Uint8Array): string | undefined {
+  return BOMS.find(({ bytes: bom }) => bom.every((b, i) => bytes[i] === b))
+    ?.encoding;
+}
+
+/**
+ * The charset declared inside the document: `<meta charset>`, a
+ * `http-equiv="content-type"` meta, or an XML declaration's encoding.
+ */
+export function charsetFromMarkup(bytes: Uint8Array): string | undefined {
+  // Every encoding worth sniffing is ASCII-compatible in its markup
+  const head = new TextDecoder("latin1").decode(
+    bytes.subarray(0, PRESCAN_BYTES),
+  );
+  const xml = /^\s*<\?xml[^>]*\bencoding\s*=\s*["']([^"']+)["']/i.exec(head);
+  if (xml) return normalizeCharset(xml[1]);
+
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attrs = metaAttributes(tag);
+    const charset =
+      normalizeCharset(attrs.charset) ??
+      (/^content-type$/i.test(attrs["http-equiv"] ?? "")
+        ? charsetFromContentType(attrs.content)
+        : undefined);
+    // A document can't declare itself UTF-16 from inside ASCII markup
+    if (charset) return charset.startsWith("utf-16") ? "utf-8" : charset;
+  }
+  return undefined;
+}
+
+function metaAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, value] of tag.matchAll(
+    /([\w-]+)\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/g,
+  )) {
+    attrs[name.toLowerCase()] = value.replace(/^["']|["']$/g, "");
+  }
+  return attrs;
+}
+
+/** Work out a body's encoding and decode it. */
+export function decodeBody(
+  bytes: Uint8Array,
+  contentType?: string,
+): DecodedBody {
+  const bom = sniffBom(bytes);
+  const header = bom ? undefined : charsetFromContentType(contentType);
+  const meta =
+    bom || header || !/html|xml/i.test(contentType || "html")
+      ? undefined
+      : charsetFromMarkup(bytes);
+  const encoding = bom ?? header ?? meta ?? "utf-8";
+  const source: CharsetSource = bom
+    ? "bom"
+    : header
+      ? "header"
+      : meta
+        ? "meta"
+        : "default";
+  // The decoder drops a BOM that matches its encoding
+  return { text: new TextDecoder(encoding).decode(bytes), encoding, source };
+}
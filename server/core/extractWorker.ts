@@ -0,0 +1,33 @@
+/**
+ * SENTINEL EXTRACTION WORKER - Worker thread entry for the extraction pool
+ * Receives `{ id, task }` messages, runs the extraction and replies with the
+ * result (or error message) and this isolate's heap usage.
+ */
+
+import { getHeapStatistics } from "v8";
+import { parentPort } from "worker_threads";
+import { ExtractionOutput, ExtractionTask, runExtraction } from "./extraction";
+import type { WorkerReply } from "./workerPool";
+
+function memory() {
+  const heap = getHeapStatistics();
+  return { heapUsed: heap.used_heap_size, heapTotal: heap.total_heap_size };
+}
+
+parentPort?.on(
+  "message",
+  ({ id, task }: { id: number; task: ExtractionTask }) => {
+    let reply: WorkerReply<ExtractionOutput>;
+    try {
+      reply = { id, ok: true, result: runExtraction(task), memory: memory() };
+    } catch (error) {
+      reply = {
+        id,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+        memory: memory(),
+      };
+    }
+    parentPort!.postMessage(reply);
+  },
+);
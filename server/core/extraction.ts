@@ -0,0 +1,106 @@
+/**
+ * SENTINEL EXTRACTION - One page's extraction as a self-contained task
+ * Parsing a body and running a target's schema or selectors over it is pure
+ * CPU work on plain data, so it is described by a structured-cloneable task
+ * and result. The same function runs inside extraction workers and, when the
+ * pool is disabled or no worker can be started, on the main thread.
+ */
+
+import { existsSync } from "fs";
+import { createRequire } from "module";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { Worker } from "worker_threads";
+import type { StructuredData } from "@shared/api";
+import { extractStructuredData } from "../scrape/structured";
+import { Pagination, nextPageUrl } from "./pagination";
+import { ExtractionSchema, extractSchema } from "./schema";
+import {
+  SelectorEntry,
+  SelectorFailure,
+  extractSelectors,
+  parseBody,
+} from "./selectors";
+
+export interface ExtractionTask {
+  url: string;
+  body: string;
+  contentType?: string;
+  /** Takes precedence over `selectors` */
+  schema?: ExtractionSchema;
+  selectors?: Record<string, SelectorEntry>;
+  /** Also collect JSON-LD, microdata, RDFa and OpenGraph from HTML */
+  structured?: boolean;
+  /** Work out the page after this one; `index` is this page's, from 0 */
+  pagination?: { pagination: Pagination; index: number; firstUrl: string };
+}
+
+export interface ExtractionOutput {
+  /** How the body was parsed; JSON that doesn't parse falls back to HTML */
+  parsed: "html" | "json";
+  data: Record<string, any>;
+  schemaErrors: string[];
+  selectorErrors: SelectorFailure[];
+  structured?: StructuredData;
+  nextPage?: string;
+}
+
+/** Parse the task's body and run its schema or selectors over it. */
+export function runExtraction(task: ExtractionTask): ExtractionOutput {
+  const doc = parseBody(task.body, task.contentType);
+  const output: ExtractionOutput = {
+    parsed: doc.kind,
+    data: {},
+    schemaErrors: [],
+    selectorErrors: [],
+  };
+
+  if (task.schema) {
+    const { data, errors } = extractSchema(
+      task.body,
+      task.schema,
+      task.url,
+      task.contentType,
+    );
+    output.data = data;
+    output.schemaErrors = errors;
+  } else if (task.selectors) {
+    const { data, errors } = extractSelectors(doc, task.selectors);
+    output.data = data;
+    output.selectorErrors = errors;
+  }
+
+  if (task.structured && doc.kind === "html") {
+    output.structured = extractStructuredData(doc.$, task.url);
+  }
+  if (task.pagination) {
+    const { pagination, index, firstUrl } = task.pagination;
+    output.nextPage = nextPageUrl(pagination, index, firstUrl, task.url, doc);
+  }
+  return output;
+}
+
+/**
+ * A factory for extraction workers, or undefined when none can be started
+ * here. A build runs the `extractWorker.mjs` entry emitted beside the server
+ * bundle. From a TypeScript checkout the worker loads tsx itself: workers
+ * don't inherit the parent's loader, so `new Worker("./extractWorker.ts")`
+ * fails with "Unknown file extension".
+ */
+export function extractionWorkerFactory(): (() => Worker) | undefined {
+  // Not passed inline, so bundlers leave the worker URL alone
+  const base = import.meta.url;
+  const extension = path.extname(fileURLToPath(base));
+  const entry = new URL(`./extractWorker${extension}`, base);
+  if (!existsSync(fileURLToPath(entry))) return undefined;
+  if (extension !== ".ts") return () => new Worker(entry);
+
+  let tsx: string;
+  try {
+    tsx = pathToFileURL(createRequire(base).resolve("tsx/esm/api")).href;
+  } catch {
+    return undefined;
+  }
+  const bootstrap = `import(${JSON.stringify(tsx)}).then(({ tsImport }) => tsImport(${JSON.stringify(entry.href)}, ${JSON.stringify(entry.href)}))`;
+  return () => new Worker(bootstrap, { eval: true });
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { CrawlFrontier, normalizeUrl, validateScope } from "./frontier";
+
+describe("normalizeUrl", () => {
+  it("drops fragments, default ports and tracking params and sorts the query", () => {
+    expect(
+      normalizeUrl("HTTPS://Example.COM:443/a?b=2&utm_source=x&a=1#top"),
+    ).toBe("https://example.com/a?a=1&b=2");
+  });
+
+  it("resolves relative URLs and rejects non-http schemes", () => {
+    expect(normalizeUrl("../b", "https://example.com/x/y/z")).toBe(
+      "https://example.com/x/b",
+    );
+    expect(normalizeUrl("mailto:a@example.com")).toBeUndefined();
+    expect(normalizeUrl("not a url")).toBeUndefined();
+  });
+});
+
+describe("CrawlFrontier", () => {
+  const make = (scope = {}, maxDepth = 2, maxPages = 100) =>
+    new CrawlFrontier(["https://example.com/docs/intro"], {
+      maxDepth,
+      maxPages,
+      scope,
+    });
+
+  it("dedupes URLs and stays on the seed host by default", () => {
+    const f = make();
+    const seed = f.next()!;
+    const added = f.addLinks(
+      [
+        "/docs/a",
+        "/docs/a#section",
+        "https://other.example/",
+        "https://example.com/blog",
+      ],
+      seed.depth,
+      seed.url,
+    );
+    expect(added).toBe(2);
+    expect(f.next()).toMatchObject({
+      url: "https://example.com/docs/a",
+      depth: 1,
+      referrer: seed.url,
+    });
+  });
+
+  it("applies path prefix and include/exclude rules", () => {
+    const f = make({
+      samePathPrefix: true,
+      include: ["/docs/"],
+      exclude: ["\\.pdf$"],
+    });
+    expect(f.inScope("https://example.com/docs/guide")).toBe(true);
+    expect(f.inScope("https://example.com/blog/post")).toBe(false);
+    expect(f.inScope("https://example.com/docs/file.pdf")).toBe(false);
+  });
+
+  it("stops at max depth and max pages", () => {
+    const shallow = make({}, 0);
+    const seed = shallow.next()!;
+    expect(shallow.addLinks(["/docs/a"], seed.depth, seed.url)).toBe(0);
+
+    const small = make({}, 2, 2);
+    const first = small.next()!;
+    small.addLinks(["/docs/a", "/docs/b"], first.depth, first.url);
+    expect(small.next()).toBeDefined();
+    expect(small.next()).toBeUndefined();
+    expect(small.pending).toBe(0);
+  });
+
+  it("adds late seeds at depth 0 and widens the host scope", () => {
+    const f = make();
+    expect(
+      f.addSeeds(["https://example.com/docs/intro", "https://blog.example/"]),
+    ).toBe(1);
+    f.next();
+    expect(f.next()).toMatchObject({ url: "https://blog.example/", depth: 0 });
+    expect(f.inScope("https://blog.example/post")).toBe(true);
+  });
+
+  it("rejects invalid scope patterns", () => {
+    expect(validateScope({ include: ["("] })).toMatch(/Invalid scope/);
+    expect(validateScope({ exclude: ["ok"] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * SENTINEL FRONTIER - URL normalization, crawl scope and dedupe queue
+ * Breadth-first: every URL at depth n is handed out before depth n + 1.
+ */
+
+import type { CrawlScope } from "@shared/api";
+
+export interface FrontierEntry {
+  url: string;
+  depth: number;
+  referrer?: string;
+}
+
+export interface FrontierOptions {
+  maxDepth: number;
+  maxPages: number;
+  scope: CrawlScope;
+}
+
+// Query parameters that only track the visit and never change the page
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid)$/i;
+
+/**
+ * Canonical form used to dedupe URLs: lower-case scheme and host, no default
+ * port, no fragment, no tracking parameters and sorted query parameters.
+ * Returns undefined for anything that isn't an http(s) URL.
+ */
+export function normalizeUrl(raw: string, base?: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(raw.trim(), base);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+  url.hash = "";
+  url.username = "";
+  url.password = "";
+  const params = [...url.searchParams].filter(
+    ([k]) => !TRACKING_PARAMS.test(k),
+  );
+  params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = new URLSearchParams(params).toString();
+  // URL already lower-cases the host and drops default ports
+  return url.toString();
+}
+
+/** Check scope regexes up front so bad patterns fail the request, not the crawl. */
+export function validateScope(
+  scope: CrawlScope | undefined,
+): string | undefined {
+  for (const pattern of [
+    ...(scope?.include ?? []),
+    ...(scope?.exclude ?? []),
+  ]) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      return `Invalid scope pattern '${pattern}'`;
+    }
+  }
+  return undefined;
+}
+
+export class CrawlFrontier {
+  private queue: FrontierEntry[] = [];
+  private seen = new Set<string>();
+  private dispatched = 0;
+  private seeds: URL[];
+  private include: RegExp[];
+  private exclude: RegExp[];
+
+  constructor(
+    seeds: string[],
+    private options: FrontierOptions,
+  ) {
+    const normalized = seeds
+      .map((s) => normalizeUrl(s))
+      .filter((s): s is string => !!s);
+    this.seeds = normalized.map((s) => new URL(s));
+    this.include = (options.scope.include ?? []).map((p) => new RegExp(p));
+    this.exclude = (options.scope.exclude ?? []).map((p) => new RegExp(p));
+    // Seeds are always crawled, even if a pattern would exclude them
+    for (const url of normalized) this.enqueue({ url, depth: 0 });
+  }
+
+  /** The next URL to fetch, or undefined once empty or the budget is spent. */
+  next(): FrontierEntry | undefined {
+    if (this.dispatched >= this.options.maxPages) return undefined;
+    const entry = this.queue.shift();
+    if (entry) this.dispatched++;
+    return entry;
+  }
+
+  /**
+   * Add seeds after construction (e.g. from a sitemap). They widen the scope
+   * like the original seeds and are queued at depth 0; returns how many were new.
+   */
+  addSeeds(urls: string[]): number {
+    let added = 0;
+    for (const raw of urls) {
+      const url = normalizeUrl(raw);
+      if (!url) continue;
+      this.seeds.push(new URL(url));
+      if (this.enqueue({ url, depth: 0 })) added++;
+    }
+    return added;
+  }
+
+  /** Queue links found on a page at `depth`; returns how many were new. */
+  addLinks(hrefs: string[], depth: number, referrer: string): number {
+    if (depth + 1 > this.options.maxDepth) return 0;
+    let added = 0;
+    for (const href of hrefs) {
+      const url = normalizeUrl(href, referrer);
+      if (
+        url &&
+        this.inScope(url) &&
+        this.enqueue({ url, depth: depth + 1, referrer })
+      ) {
+        added++;
+      }
+    }
+    return added;
+  }
+
+  inScope(url: string): boolean {
+    const { sameHost = true, samePathPrefix = false } = this.options.scope;
+    const parsed = new URL(url);
+    const seeds = sameHost
+      ? this.seeds.filter((s) => s.host === parsed.host)
+      : this.seeds;
+    if (!seeds.length) return false;
+    if (
+      samePathPrefix &&
+      !seeds.some((s) => parsed.pathname.startsWith(pathPrefix(s)))
+    ) {
+      return false;
+    }
+    if (this.include.length && !this.include.some((r) => r.test(url)))
+      return false;
+    return !this.exclude.some((r) => r.test(url));
+  }
+
+  get pending(): number {
+    return Math.min(this.queue.length, this.options.maxPages - this.dispatched);
+  }
+
+  get discovered(): number {
+    return this.seen.size;
+  }
+
+  private enqueue(entry: FrontierEntry): boolean {
+    if (this.seen.has(entry.url)) return false;
+    this.seen.add(entry.url);
+    this.queue.push(entry);
+    return true;
+  }
+}
+
+/** Directory part of a seed's path: `/docs/guide/intro` gives `/docs/guide/`. */
+function pathPrefix(seed: URL): string {
+  return seed.pathname.slice(0, seed.pathname.lastIndexOf("/") + 1);
+}
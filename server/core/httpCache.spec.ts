@@ -0,0 +1,145 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  HttpCache,
+  conditionalHeaders,
+  freshUntil,
+  parseCacheControl,
+} from "./httpCache";
+import type { CachedResponse } from "./httpCache";
+
+const entry = (headers: Record<string, string>): CachedResponse => ({
+  url: "https://example.com/",
+  status: 200,
+  headers,
+  body: "<p>hi</p>",
+  storedAt: 1_000_000,
+});
+
+describe("freshness", () => {
+  it("parses Cache-Control directives", () => {
+    expect(parseCacheControl('max-age=60, No-Cache, foo="bar"')).toEqual({
+      "max-age": "60",
+      "no-cache": "",
+      foo: "bar",
+    });
+  });
+
+  it("uses max-age minus Age, then Expires relative to Date", () => {
+    expect(
+      freshUntil(entry({ "cache-control": "max-age=60", age: "10" })),
+    ).toBe(1_050_000);
+    expect(
+      freshUntil(
+        entry({
+          date: "Wed, 01 Jan 2025 00:00:00 GMT",
+          expires: "Wed, 01 Jan 2025 00:00:30 GMT",
+        }),
+      ),
+    ).toBe(1_030_000);
+  });
+
+  it("treats no-cache and missing freshness as always stale", () => {
+    expect(
+      freshUntil(entry({ "cache-control": "no-cache, max-age=600" })),
+    ).toBe(0);
+    expect(freshUntil(entry({ etag: '"v1"' }))).toBe(0);
+  });
+
+  it("builds conditional headers from validators", () => {
+    expect(
+      conditionalHeaders(
+        entry({
+          etag: '"v1"',
+          "last-modified": "Wed, 01 Jan 2025 00:00:00 GMT",
+        }),
+      ),
+    ).toEqual({
+      "if-none-match": '"v1"',
+      "if-modified-since": "Wed, 01 Jan 2025 00:00:00 GMT",
+    });
+    expect(conditionalHeaders(undefined)).toEqual({});
+  });
+});
+
+describe("HttpCache", () => {
+  let dir: string;
+  let cache: HttpCache;
+  const url = "https://example.com/catalog";
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "http-cache-"));
+    cache = new HttpCache(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("stores responses with a validator and keeps only cache headers", async () => {
+    await cache.put(url, 200, { etag: '"v1"', "set-cookie": "a=b" }, "body");
+    const stored = await cache.get(url);
+    expect(stored?.body).toBe("body");
+    expect(stored?.headers).toEqual({ etag: '"v1"' });
+  });
+
+  it("keeps the encoding and the URL redirected to", async () => {
+    await cache.put(
+      url,
+      200,
+      { etag: '"v1"' },
+      {
+        text: "body",
+        encoding: "shift_jis",
+        finalUrl: "https://example.com/catalog/",
+      },
+    );
+    expect(await cache.get(url)).toMatchObject({
+      encoding: "shift_jis",
+      finalUrl: "https://example.com/catalog/",
+    });
+
+    // Not redirected: nothing extra to store
+    await cache.put(
+      url,
+      200,
+      { etag: '"v2"' },
+      { text: "body", finalUrl: url },
+    );
+    expect((await cache.get(url))?.finalUrl).toBeUndefined();
+  });
+
+  it("skips no-store, non-200 and unvalidated responses", async () => {
+    await cache.put(
+      url,
+      200,
+      { etag: '"v1"', "cache-control": "no-store" },
+      "x",
+    );
+    await cache.put(url, 404, { etag: '"v1"' }, "x");
+    await cache.put(url, 200, {}, "x");
+    expect(await cache.get(url)).toBeUndefined();
+  });
+
+  it("refreshes headers and the clock on revalidation", async () => {
+    const stored = await cache.put(
+      url,
+      200,
+      { etag: '"v1"', "cache-control": "max-age=60" },
+      "body",
+      1000,
+    );
+    const updated = await cache.revalidated(
+      stored!,
+      { "cache-control": "max-age=120" },
+      5000,
+    );
+    expect(updated).toMatchObject({ body: "body", storedAt: 5000 });
+    expect((await cache.get(url))?.headers).toEqual({
+      etag: '"v1"',
+      "cache-control": "max-age=120",
+    });
+  });
+});
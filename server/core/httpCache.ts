@@ -0,0 +1,207 @@
+/**
+ * SENTINEL HTTP CACHE - Persistent validator cache for conditional re-scrapes
+ * Responses are stored with their ETag / Last-Modified so the next fetch can
+ * send If-None-Match / If-Modified-Since and reuse the body on a 304.
+ * Cache-Control max-age and Expires make an entry fresh, skipping the request
+ * entirely until it goes stale. The cache is best-effort: I/O errors are
+ * swallowed and simply behave like a miss.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+export interface CachedResponse {
+  url: string;
+  /** Where the body came from after redirects; relative links resolve against it */
+  finalUrl?: string;
+  status: number;
+  /** Lower-cased response headers that matter for caching and parsing */
+  headers: Record<string, string>;
+  body: string;
+  /** Encoding the body was decoded from, when it was fetched as bytes */
+  encoding?: string;
+  storedAt: number;
+}
+
+/** A fetched body with what is known about it beyond its headers. */
+export interface FetchedBody {
+  text: string;
+  /** Encoding the bytes were decoded from */
+  encoding?: string;
+  /** URL after redirects */
+  finalUrl?: string;
+}
+
+// Only these headers are kept; the rest say nothing about the stored body
+const KEPT_HEADERS = [
+  "content-type",
+  "etag",
+  "last-modified",
+  "cache-control",
+  "expires",
+  "date",
+  "age",
+];
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+/** Cache-Control directives, lower-cased; valueless ones map to "". */
+export function parseCacheControl(value?: string): Record<string, string> {
+  const directives: Record<string, string> = {};
+  for (const part of (value ?? "").split(",")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key) {
+      directives[key.toLowerCase()] = rest.join("=").replace(/^"|"$/g, "");
+    }
+  }
+  return directives;
+}
+
+/**
+ * Epoch ms until which an entry may be reused without asking the server.
+ * Entries without explicit freshness are always revalidated: catalog pages
+ * change too unpredictably for heuristic lifetimes.
+ */
+export function freshUntil(entry: CachedResponse): number {
+  const cc = parseCacheControl(entry.headers["cache-control"]);
+  if ("no-cache" in cc) return 0;
+  const age = Number(entry.headers.age) || 0;
+  if (cc["max-age"] !== undefined) {
+    const maxAge = Number(cc["max-age"]);
+    return Number.isFinite(maxAge) ? entry.storedAt + (maxAge - age) * 1000 : 0;
+  }
+  const expires = Date.parse(entry.headers.expires ?? "");
+  if (Number.isNaN(expires)) return 0;
+  const date = Date.parse(entry.headers.date ?? "");
+  // Expires is relative to the server's clock, not ours
+  return (
+    entry.storedAt + expires - (Number.isNaN(date) ? entry.storedAt : date)
+  );
+}
+
+export function isFresh(entry: CachedResponse, now = Date.now()): boolean {
+  return freshUntil(entry) > now;
+}
+
+/** If-None-Match / If-Modified-Since headers to revalidate an entry. */
+export function conditionalHeaders(
+  entry: CachedResponse | undefined,
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry?.headers.etag) headers["if-none-match"] = entry.headers.etag;
+  if (entry?.headers["last-modified"]) {
+    headers["if-modified-since"] = entry.headers["last-modified"];
+  }
+  return headers;
+}
+
+function pickHeaders(headers: Record<string, any>): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    const value = headers[name];
+    if (value !== undefined && value !== null) kept[name] = String(value);
+  }
+  return kept;
+}
+
+export class HttpCache {
+  /** Without a `dir`, SCRAPER_DATA_DIR is read on each use */
+  constructor(private dir?: string) {}
+
+  async get(url: string): Promise<CachedResponse | undefined> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(url), "utf8"));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a 200 response when it can ever be reused: it needs a validator or
+   * explicit freshness, and must not be marked no-store. Returns the entry
+   * that was stored, if any. A fetched body keeps its source encoding and
+   * final URL.
+   */
+  async put(
+    url: string,
+    status: number,
+    headers: Record<string, any>,
+    body: string | FetchedBody,
+    now = Date.now(),
+  ): Promise<CachedResponse | undefined> {
+    const fetched = typeof body === "string" ? { text: body } : body;
+    const entry: CachedResponse = {
+      url,
+      finalUrl:
+        fetched.finalUrl && fetched.finalUrl !== url
+          ? fetched.finalUrl
+          : undefined,
+      status,
+      headers: pickHeaders(headers),
+      body: fetched.text,
+      encoding: fetched.encoding,
+      storedAt: now,
+    };
+    const cc = parseCacheControl(entry.headers["cache-control"]);
+    const reusable =
+      entry.headers.etag ||
+      entry.headers["last-modified"] ||
+      freshUntil(entry) > now;
+    if (
+      status !== 200 ||
+      "no-store" in cc ||
+      !reusable ||
+      Buffer.byteLength(entry.body) > MAX_BODY_BYTES
+    ) {
+      return undefined;
+    }
+    await this.write(entry);
+    return entry;
+  }
+
+  /**
+   * Apply a 304 to a stored entry: headers it carries replace the stored
+   * ones and the freshness clock restarts.
+   */
+  async revalidated(
+    entry: CachedResponse,
+    headers: Record<string, any>,
+    now = Date.now(),
+  ): Promise<CachedResponse> {
+    const updated: CachedResponse = {
+      ...entry,
+      headers: { ...entry.headers, ...pickHeaders(headers) },
+      storedAt: now,
+    };
+    await this.write(updated);
+    return updated;
+  }
+
+  async delete(url: string): Promise<void> {
+    await rm(this.pathFor(url), { force: true }).catch(() => undefined);
+  }
+
+  private async write(entry: CachedResponse): Promise<void> {
+    try {
+      await mkdir(this.cacheDir(), { recursive: true });
+      await writeFile(this.pathFor(entry.url), JSON.stringify(entry));
+    } catch {
+      // A cache that can't be written only costs a full fetch next time
+    }
+  }
+
+  private pathFor(url: string): string {
+    const key = createHash("sha256").update(url).digest("hex");
+    return path.join(this.cacheDir(), `${key}.json`);
+  }
+
+  private cacheDir(): string {
+    return this.dir ?? defaultCacheDir();
+  }
+}
+
+function defaultCacheDir() {
+  return path.resolve(process.env.SCRAPER_DATA_DIR || "data", "http-cache");
+}
+
+/** Shared cache for the HTTP endpoints and engines in this process. */
+export const httpCache = new HttpCache();
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_INTERCEPTION,
+  InterceptionError,
+  applyCaptures,
+  matchesUrl,
+  mergeInterception,
+  shouldBlock,
+  validateInterception,
+  wantsCapture,
+} from "./interception";
+
+describe("matchesUrl", () => {
+  it("matches domains with their subdomains, globs and regexes", () => {
+    expect(matchesUrl("doubleclick.net", "https://ad.doubleclick.net/x")).toBe(
+      true,
+    );
+    expect(matchesUrl("doubleclick.net", "https://notdoubleclick.net/")).toBe(
+      false,
+    );
+    expect(
+      matchesUrl(
+        "*://*.shop.example/api/*",
+        "https://www.shop.example/api/items?p=1",
+      ),
+    ).toBe(true);
+    expect(matchesUrl("/\\/graphql$/", "https://shop.example/graphql")).toBe(
+      true,
+    );
+    expect(() => matchesUrl("/(/", "https://shop.example/")).toThrow(
+      InterceptionError,
+    );
+  });
+});
+
+describe("validateInterception", () => {
+  it("rejects a bad regex in block or capture patterns up front", () => {
+    expect(validateInterception(DEFAULT_INTERCEPTION)).toBeUndefined();
+    expect(validateInterception(undefined)).toBeUndefined();
+    expect(
+      validateInterception({ block: { urlPatterns: ["ok.example", "/[/"] } }),
+    ).toMatch(/Invalid URL pattern '\/\[\/'/);
+    expect(
+      validateInterception({ capture: [{ name: "items", urlPattern: "/(/" }] }),
+    ).toMatch(/Invalid URL pattern/);
+  });
+});
+
+describe("shouldBlock", () => {
+  it("blocks by type and tracker domain but never the navigation", () => {
+    const rules = mergeInterception(DEFAULT_INTERCEPTION, {
+      block: { urlPatterns: ["*.css"] },
+    });
+    expect(
+      shouldBlock(rules, {
+        url: "https://shop.example/a.png",
+        resourceType: "image",
+      }),
+    ).toBe(true);
+    expect(
+      shouldBlock(rules, {
+        url: "https://www.google-analytics.com/g/collect",
+        resourceType: "xhr",
+      }),
+    ).toBe(true);
+    expect(
+      shouldBlock(rules, {
+        url: "https://shop.example/site.css",
+        resourceType: "stylesheet",
+      }),
+    ).toBe(true);
+    expect(
+      shouldBlock(rules, {
+        url: "https://shop.example/app.js",
+        resourceType: "script",
+      }),
+    ).toBe(false);
+    expect(
+      shouldBlock(
+        { block: { resourceTypes: ["document"] } },
+        {
+          url: "https://shop.example/",
+          resourceType: "document",
+          navigation: true,
+        },
+      ),
+    ).toBe(false);
+  });
+
+  it("lets a target opt out of the global rules", () => {
+    const rules = mergeInterception(DEFAULT_INTERCEPTION, { inherit: false });
+    expect(
+      shouldBlock(rules, {
+        url: "https://shop.example/a.png",
+        resourceType: "image",
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("captures", () => {
+  const rules = [
+    {
+      name: "products",
+      urlPattern: "*/api/products*",
+      path: "$.items[*].name",
+    },
+    { name: "config", urlPattern: "*/api/config" },
+  ];
+
+  it("only reads XHR and fetch responses that a rule matches", () => {
+    expect(
+      wantsCapture(
+        { capture: rules },
+        { url: "https://s.example/api/config", resourceType: "fetch" },
+      ),
+    ).toBe(true);
+    expect(
+      wantsCapture(
+        { capture: rules },
+        { url: "https://s.example/api/config", resourceType: "script" },
+      ),
+    ).toBe(false);
+    expect(
+      wantsCapture(
+        { capture: rules },
+        { url: "https://s.example/other", resourceType: "xhr" },
+      ),
+    ).toBe(false);
+  });
+
+  it("collects values across responses like selector results", () => {
+    const data = applyCaptures(rules, [
+      {
+        url: "https://s.example/api/products?page=1",
+        data: { items: [{ name: "a" }] },
+      },
+      {
+        url: "https://s.example/api/products?page=2",
+        data: { items: [{ name: "b" }] },
+      },
+      { url: "https://s.example/api/config", data: { currency: "EUR" } },
+    ]);
+    expect(data).toEqual({ products: ["a", "b"], config: { currency: "EUR" } });
+  });
+});
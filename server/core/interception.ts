@@ -0,0 +1,213 @@
+/**
+ * SENTINEL INTERCEPTION - Request blocking and API response capture
+ * Browser scrapes don't need images, fonts, media or trackers: rules block
+ * requests by resource type or URL pattern. Many SPAs load their real data
+ * over XHR/fetch, so matching JSON responses can be captured as extra fields.
+ * URL patterns are a domain (`doubleclick.net` also covers its subdomains),
+ * a glob over the whole URL (`*://*.example.com/api/*`) or a `/regex/flags`.
+ */
+
+import { queryJsonPath } from "./jsonPath";
+
+export interface BlockRules {
+  /** Puppeteer resource types, e.g. image, font, media, stylesheet */
+  resourceTypes?: string[];
+  urlPatterns?: string[];
+}
+
+export interface CaptureRule {
+  /** Field the captured value is stored under */
+  name: string;
+  urlPattern: string;
+  /** JSONPath into each response; the whole body without one */
+  path?: string;
+}
+
+export interface InterceptionRules {
+  block?: BlockRules;
+  capture?: CaptureRule[];
+  /** Extend the engine's global rules (default true) */
+  inherit?: boolean;
+}
+
+export interface CapturedResponse {
+  url: string;
+  data: unknown;
+}
+
+export class InterceptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InterceptionError";
+  }
+}
+
+/** Ad, analytics and tag-manager hosts blocked by default. */
+export const TRACKER_DOMAINS = [
+  "doubleclick.net",
+  "googlesyndication.com",
+  "googleadservices.com",
+  "google-analytics.com",
+  "googletagmanager.com",
+  "amazon-adsystem.com",
+  "facebook.net",
+  "connect.facebook.com",
+  "scorecardresearch.com",
+  "hotjar.com",
+  "segment.io",
+  "criteo.com",
+  "taboola.com",
+  "outbrain.com",
+];
+
+export const DEFAULT_INTERCEPTION: InterceptionRules = {
+  block: {
+    resourceTypes: ["image", "font", "media"],
+    urlPatterns: TRACKER_DOMAINS,
+  },
+};
+
+/** Only these requests can carry API data worth capturing */
+const CAPTURE_TYPES = new Set(["xhr", "fetch"]);
+
+/** Target rules on top of the global ones, unless the target opts out. */
+export function mergeInterception(
+  global: InterceptionRules = {},
+  target: InterceptionRules = {},
+): InterceptionRules {
+  if (target.inherit === false) return target;
+  return {
+    block: {
+      resourceTypes: union(
+        global.block?.resourceTypes,
+        target.block?.resourceTypes,
+      ),
+      urlPatterns: union(global.block?.urlPatterns, target.block?.urlPatterns),
+    },
+    capture: [...(global.capture ?? []), ...(target.capture ?? [])],
+  };
+}
+
+function union(a: string[] = [], b: string[] = []): string[] {
+  return [...new Set([...a, ...b])];
+}
+
+const compiled = new Map<string, (url: string) => boolean>();
+const MAX_COMPILED = 500;
+
+/**
+ * Compile every URL pattern up front. Patterns are otherwise compiled on first
+ * use, inside the page's request handler, where a bad one would stall the
+ * request it was matching.
+ */
+export function validateInterception(
+  rules: InterceptionRules | undefined,
+): string | undefined {
+  const patterns = [
+    ...(rules?.block?.urlPatterns ?? []),
+    ...(rules?.capture ?? []).map((rule) => rule.urlPattern),
+  ];
+  for (const pattern of patterns) {
+    if (typeof pattern !== "string") return "URL patterns must be strings";
+    try {
+      matchesUrl(pattern, "");
+    } catch (e: any) {
+      return e.message;
+    }
+  }
+  return undefined;
+}
+
+/** Whether `url` matches a domain, glob or regex pattern. */
+export function matchesUrl(pattern: string, url: string): boolean {
+  let test = compiled.get(pattern);
+  if (!test) {
+    test = compilePattern(pattern);
+    if (compiled.size >= MAX_COMPILED) compiled.clear();
+    compiled.set(pattern, test);
+  }
+  return test(url);
+}
+
+function compilePattern(pattern: string): (url: string) => boolean {
+  const literal = /^\/(.+)\/([a-z]*)$/s.exec(pattern);
+  if (literal) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(literal[1], literal[2].replace("g", ""));
+    } catch (e: any) {
+      throw new InterceptionError(
+        `Invalid URL pattern '${pattern}': ${e.message}`,
+      );
+    }
+    return (url) => regex.test(url);
+  }
+  if (pattern.includes("*")) {
+    const source = pattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    const regex = new RegExp(`^${source}$`, "i");
+    return (url) => regex.test(url);
+  }
+  const domain = pattern.toLowerCase().replace(/^\.+/, "");
+  return (url) => {
+    let host: string;
+    try {
+      host = new URL(url).hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+    return host === domain || host.endsWith(`.${domain}`);
+  };
+}
+
+/**
+ * Whether to abort a request. The page's own navigation is never blocked,
+ * whatever the rules say, or there would be nothing to scrape.
+ */
+export function shouldBlock(
+  rules: InterceptionRules,
+  request: { url: string; resourceType: string; navigation?: boolean },
+): boolean {
+  if (request.navigation) return false;
+  const { resourceTypes = [], urlPatterns = [] } = rules.block ?? {};
+  return (
+    resourceTypes.includes(request.resourceType) ||
+    urlPatterns.some((pattern) => matchesUrl(pattern, request.url))
+  );
+}
+
+/** Whether a response should be read for any capture rule. */
+export function wantsCapture(
+  rules: InterceptionRules,
+  response: { url: string; resourceType: string },
+): boolean {
+  return (
+    CAPTURE_TYPES.has(response.resourceType) &&
+    (rules.capture ?? []).some((rule) =>
+      matchesUrl(rule.urlPattern, response.url),
+    )
+  );
+}
+
+/**
+ * Captured fields, shaped like selector results: one value on its own,
+ * several as an array, none leaves the field out.
+ */
+export function applyCaptures(
+  rules: CaptureRule[] = [],
+  responses: CapturedResponse[],
+): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const rule of rules) {
+    const values = responses
+      .filter((response) => matchesUrl(rule.urlPattern, response.url))
+      .flatMap((response) =>
+        rule.path ? queryJsonPath(rule.path, response.data) : [response.data],
+      );
+    if (values.length === 1) data[rule.name] = values[0];
+    else if (values.length > 1) data[rule.name] = values;
+  }
+  return data;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { JobRegistry } from "./jobs";
+
+interface Result {
+  ok: boolean;
+}
+
+/** Work that records one result per step, until aborted. */
+function steps(count: number, gate: Promise<void>) {
+  return async (signal: AbortSignal, record: (r: Result) => void) => {
+    for (let i = 0; i < count; i++) {
+      await gate;
+      record({ ok: !signal.aborted });
+    }
+  };
+}
+
+describe("JobRegistry", () => {
+  it("runs work in the background and keeps the finished job", async () => {
+    const jobs = new JobRegistry<Result>();
+    let finished: unknown;
+    const job = jobs.startJob(2, steps(2, Promise.resolve()), (j) => {
+      finished = j;
+    });
+    expect(job.state).toBe("running");
+    expect(jobs.running).toBe(1);
+    expect(jobs.listJobs()).toEqual([
+      expect.not.objectContaining({ results: expect.anything() }),
+    ]);
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(finished).toBe(job);
+    expect(jobs.getJob(job.id)).toMatchObject({
+      state: "completed",
+      total: 2,
+      completed: 2,
+      results: [{ ok: true }, { ok: true }],
+    });
+    expect(jobs.running).toBe(0);
+  });
+
+  it("drops results a cancel cut short", async () => {
+    const jobs = new JobRegistry<Result>({ cutShort: (r) => !r.ok });
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    let done!: () => void;
+    const finished = new Promise<void>((resolve) => (done = resolve));
+    const job = jobs.startJob(3, steps(3, gate), () => done());
+
+    expect(jobs.cancelJob(job.id)).toBe(true);
+    release();
+    await finished;
+    expect(job).toMatchObject({ state: "cancelled", completed: 0 });
+    expect(job.results).toEqual([]);
+    // Still known once finished, so cancelling again isn't a 404
+    expect(jobs.cancelJob(job.id)).toBe(true);
+    expect(jobs.cancelJob("nope")).toBe(false);
+  });
+
+  it("marks failed work and caps the history", async () => {
+    const jobs = new JobRegistry<Result>({ maxHistory: 2 });
+    const ids = [1, 2, 3].map(
+      () =>
+        jobs.startJob(0, async () => {
+          throw new Error("boom");
+        }).id,
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(jobs.getJob(ids[0])).toBeUndefined();
+    expect(jobs.getJob(ids[2])).toMatchObject({
+      state: "failed",
+      error: "boom",
+    });
+    // Newest first
+    expect(jobs.listJobs().map((j) => j.id)).toEqual([ids[2], ids[1]]);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * SENTINEL JOBS - Background jobs that can be listed, inspected and cancelled
+ * A job runs a piece of work with an AbortSignal and collects its results as
+ * they arrive. Cancelling aborts the signal; results the cancel itself cut
+ * short (a `cutShort` predicate decides) are dropped rather than counted as
+ * progress. Finished jobs are kept for inspection, the oldest dropped beyond
+ * `maxHistory`.
+ */
+
+import { randomUUID } from "crypto";
+
+export type JobState = "running" | "completed" | "cancelled" | "failed";
+
+export interface Job<R> {
+  id: string;
+  state: JobState;
+  startedAt: number;
+  finishedAt?: number;
+  total: number;
+  /** Results gathered so far; always `results.length` */
+  completed: number;
+  results: R[];
+  error?: string;
+}
+
+/** A job without its results, as listed. */
+export type JobSummary<R = unknown> = Omit<Job<R>, "results">;
+
+export interface JobRegistryOptions<R> {
+  maxHistory: number;
+  /** A result that only exists because the job was cancelled */
+  cutShort?: (result: R) => boolean;
+}
+
+/** What the work gets: the job's signal and a callback for each result. */
+export type JobWork<R> = (
+  signal: AbortSignal,
+  record: (result: R) => void,
+) => Promise<unknown>;
+
+export class JobRegistry<R> {
+  private options: JobRegistryOptions<R>;
+  private active = new Map<
+    string,
+    { job: Job<R>; controller: AbortController }
+  >();
+  private history = new Map<string, Job<R>>();
+
+  constructor(options: Partial<JobRegistryOptions<R>> = {}) {
+    this.options = { maxHistory: 50, ...options };
+  }
+
+  /** Jobs still running. */
+  get running(): number {
+    return this.active.size;
+  }
+
+  /**
+   * Start `work` in the background and return its job right away.
+   * `onFinish` runs once the job has completed, failed or been cancelled.
+   */
+  startJob(
+    total: number,
+    work: JobWork<R>,
+    onFinish?: (job: Job<R>) => void,
+  ): Job<R> {
+    const job: Job<R> = {
+      id: randomUUID(),
+      state: "running",
+      startedAt: Date.now(),
+      total,
+      completed: 0,
+      results: [],
+    };
+    const controller = new AbortController();
+    this.active.set(job.id, { job, controller });
+
+    const record = (result: R) => {
+      if (controller.signal.aborted && this.options.cutShort?.(result)) return;
+      job.results.push(result);
+      job.completed++;
+    };
+    work(controller.signal, record)
+      .then(() => {
+        if (job.state === "running") job.state = "completed";
+      })
+      .catch((error) => {
+        if (job.state === "running") job.state = "failed";
+        job.error = error instanceof Error ? error.message : String(error);
+      })
+      .finally(() => {
+        job.finishedAt = Date.now();
+        this.active.delete(job.id);
+        this.remember(job);
+        onFinish?.(job);
+      });
+    return job;
+  }
+
+  /** Cancel a running job; false when no job has that ID. */
+  cancelJob(id: string): boolean {
+    const active = this.active.get(id);
+    if (active) {
+      active.job.state = "cancelled";
+      active.controller.abort();
+      return true;
+    }
+    return this.history.has(id);
+  }
+
+  cancelAll(): void {
+    for (const id of [...this.active.keys()]) this.cancelJob(id);
+  }
+
+  getJob(id: string): Job<R> | undefined {
+    return this.active.get(id)?.job ?? this.history.get(id);
+  }
+
+  /** Running jobs first, then finished ones newest first (results omitted). */
+  listJobs(): JobSummary<R>[] {
+    const running = [...this.active.values()].map((a) => a.job);
+    const finished = [...this.history.values()].reverse();
+    return [...running, ...finished].map(summarizeJob);
+  }
+
+  private remember(job: Job<R>): void {
+    this.history.set(job.id, job);
+    while (this.history.size > this.options.maxHistory) {
+      this.history.delete(this.history.keys().next().value!);
+    }
+  }
+}
+
+export function summarizeJob<R>({
+  results,
+  ...summary
+}: Job<R>): JobSummary<R> {
+  return summary;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { compileJsonPath, queryJsonPath } from "./jsonPath";
+
+const data = {
+  store: {
+    books: [
+      { title: "Dune", price: 9.5, tags: ["sf"] },
+      { title: "Emma", price: 12 },
+      { title: "Ulysses", price: 15, tags: [] },
+    ],
+    "gift card": { price: 25 },
+  },
+};
+
+describe("queryJsonPath", () => {
+  it("walks members, wildcards and recursive descent", () => {
+    expect(queryJsonPath("$.store.books[*].title", data)).toEqual([
+      "Dune",
+      "Emma",
+      "Ulysses",
+    ]);
+    expect(queryJsonPath("$..price", data)).toEqual([9.5, 12, 15, 25]);
+    expect(queryJsonPath("$.store['gift card'].price", data)).toEqual([25]);
+  });
+
+  it("supports indexes, slices and unions", () => {
+    expect(queryJsonPath("$.store.books[-1].title", data)).toEqual(["Ulysses"]);
+    expect(queryJsonPath("$.store.books[:2].title", data)).toEqual([
+      "Dune",
+      "Emma",
+    ]);
+    expect(queryJsonPath("$.store.books[0,2].price", data)).toEqual([9.5, 15]);
+    expect(queryJsonPath("$.store.books[::-1].price", data)).toEqual([
+      15, 12, 9.5,
+    ]);
+  });
+
+  it("filters on comparisons, existence and regexes", () => {
+    expect(
+      queryJsonPath("$.store.books[?(@.price < 13 && @.tags)].title", data),
+    ).toEqual(["Dune"]);
+    expect(
+      queryJsonPath(
+        "$.store.books[?@.title =~ /^e/i || @.price > 14].title",
+        data,
+      ),
+    ).toEqual(["Emma", "Ulysses"]);
+  });
+
+  it("resolves bare and @ paths against the current value", () => {
+    const book = data.store.books[1];
+    expect(queryJsonPath("title", data, book)).toEqual(["Emma"]);
+    expect(queryJsonPath("@.price", data, book)).toEqual([12]);
+    expect(queryJsonPath("$.store.books[0].title", data, book)).toEqual([
+      "Dune",
+    ]);
+  });
+});
+
+describe("compileJsonPath", () => {
+  it("rejects malformed paths", () => {
+    expect(() => compileJsonPath("$.books[")).toThrow();
+    expect(() => compileJsonPath("$.books[?(@.price <)]")).toThrow(
+      /Expected a value/,
+    );
+    expect(() => compileJsonPath("$.books[::0]")).toThrow(/step/);
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * SENTINEL JSONPATH - JSONPath queries over parsed JSON responses
+ * Supports `$` / `@` roots, dot and bracket member access, wildcards,
+ * recursive descent (`..`), indexes (negative ones count from the end),
+ * slices, unions and filters such as `[?(@.price < 10 && @.inStock)]`.
+ * A path that starts with a bare name is relative to the current value, so
+ * `items[*].name` and `$.items[*].name` are the same query at the top level.
+ */
+
+export class JsonPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JsonPathError";
+  }
+}
+
+type Selector =
+  | { kind: "name"; name: string }
+  | { kind: "wildcard" }
+  | { kind: "index"; index: number }
+  | { kind: "slice"; start?: number; end?: number; step: number }
+  | { kind: "filter"; expr: FilterExpr };
+
+interface Segment {
+  /** `..`: apply the selectors to the value and every descendant */
+  recursive: boolean;
+  selectors: Selector[];
+}
+
+interface Query {
+  root: "$" | "@";
+  segments: Segment[];
+}
+
+type FilterExpr =
+  | { kind: "or" | "and"; left: FilterExpr; right: FilterExpr }
+  | { kind: "not"; operand: FilterExpr }
+  | { kind: "compare"; op: string; left: Operand; right: Operand }
+  | { kind: "regex"; operand: Operand; regex: RegExp }
+  | { kind: "exists"; query: Query };
+
+type Operand =
+  | { kind: "literal"; value: unknown }
+  | { kind: "query"; query: Query };
+
+const COMPARISONS = ["==", "!=", "<=", ">=", "<", ">"];
+
+class Parser {
+  private pos = 0;
+
+  constructor(private src: string) {}
+
+  parse(): Query {
+    const query = this.query(true);
+    this.skipSpace();
+    if (this.pos < this.src.length) this.fail("Unexpected character");
+    return query;
+  }
+
+  private fail(message: string): never {
+    throw new JsonPathError(`${message} at ${this.pos} in '${this.src}'`);
+  }
+
+  private peek(s: string): boolean {
+    return this.src.startsWith(s, this.pos);
+  }
+
+  private eat(s: string): boolean {
+    if (!this.peek(s)) return false;
+    this.pos += s.length;
+    return true;
+  }
+
+  private skipSpace() {
+    while (/\s/.test(this.src[this.pos] ?? "")) this.pos++;
+  }
+
+  private query(topLevel = false): Query {
+    this.skipSpace();
+    let root: "$" | "@" = "@";
+    if (this.eat("$")) root = "$";
+    else if (this.eat("@")) root = "@";
+    else if (!topLevel) this.fail("Expected '$' or '@'");
+    const segments: Segment[] = [];
+    // A relative top-level path starts straight with a member name
+    if (
+      topLevel &&
+      root === "@" &&
+      /[A-Za-z_]/.test(this.src[this.pos] ?? "")
+    ) {
+      segments.push({ recursive: false, selectors: [this.dotSelector()] });
+    }
+    for (;;) {
+      if (this.eat("..")) {
+        segments.push({
+          recursive: true,
+          selectors: this.peek("[") ? this.bracket() : [this.dotSelector()],
+        });
+      } else if (this.eat(".")) {
+        segments.push({ recursive: false, selectors: [this.dotSelector()] });
+      } else if (this.peek("[")) {
+        segments.push({ recursive: false, selectors: this.bracket() });
+      } else {
+        return { root, segments };
+      }
+    }
+  }
+
+  private dotSelector(): Selector {
+    if (this.eat("*")) return { kind: "wildcard" };
+    const name = /^[^.[\]\s()=!<>&|,]+/.exec(this.src.slice(this.pos));
+    if (!name) this.fail("Expected a member name");
+    this.pos += name[0].length;
+    return { kind: "name", name: name[0] };
+  }
+
+  private bracket(): Selector[] {
+    this.eat("[");
+    const selectors: Selector[] = [];
+    do {
+      this.skipSpace();
+      selectors.push(this.bracketSelector());
+      this.skipSpace();
+    } while (this.eat(","));
+    if (!this.eat("]")) this.fail("Expected ']'");
+    return selectors;
+  }
+
+  private bracketSelector(): Selector {
+    if (this.eat("*")) return { kind: "wildcard" };
+    if (this.peek("'") || this.peek('"')) {
+      return { kind: "name", name: this.string() };
+    }
+    if (this.eat("?")) {
+      this.skipSpace();
+      // Both `?(expr)` and the newer bare `?expr` are accepted
+      const expr = this.orExpr();
+      return { kind: "filter", expr };
+    }
+    const slice = /^(-?\d+)?\s*:\s*(-?\d+)?(\s*:\s*(-?\d+)?)?/.exec(
+      this.src.slice(this.pos),
+    );
+    if (slice) {
+      this.pos += slice[0].length;
+      const step = slice[4] !== undefined ? Number(slice[4]) : 1;
+      if (step === 0) this.fail("Slice step can't be 0");
+      return {
+        kind: "slice",
+        start: slice[1] !== undefined ? Number(slice[1]) : undefined,
+        end: slice[2] !== undefined ? Number(slice[2]) : undefined,
+        step,
+      };
+    }
+    const index = /^-?\d+/.exec(this.src.slice(this.pos));
+    if (!index) this.fail("Expected a name, index, slice, '*' or filter");
+    this.pos += index[0].length;
+    return { kind: "index", index: Number(index[0]) };
+  }
+
+  private string(): string {
+    const quote = this.src[this.pos++];
+    let out = "";
+    while (this.pos < this.src.length && this.src[this.pos] !== quote) {
+      if (this.src[this.pos] === "\\") this.pos++;
+      out += this.src[this.pos++] ?? "";
+    }
+    if (!this.eat(quote)) this.fail("Unterminated string");
+    return out;
+  }
+
+  private orExpr(): FilterExpr {
+    let left = this.andExpr();
+    while ((this.skipSpace(), this.eat("||"))) {
+      left = { kind: "or", left, right: this.andExpr() };
+    }
+    return left;
+  }
+
+  private andExpr(): FilterExpr {
+    let left = this.unaryExpr();
+    while ((this.skipSpace(), this.eat("&&"))) {
+      left = { kind: "and", left, right: this.unaryExpr() };
+    }
+    return left;
+  }
+
+  private unaryExpr(): FilterExpr {
+    this.skipSpace();
+    if (this.peek("!") && !this.peek("!=")) {
+      this.pos++;
+      return { kind: "not", operand: this.unaryExpr() };
+    }
+    if (this.eat("(")) {
+      const expr = this.orExpr();
+      this.skipSpace();
+      if (!this.eat(")")) this.fail("Expected ')'");
+      return expr;
+    }
+    const left = this.operand();
+    this.skipSpace();
+    if (this.eat("=~")) {
+      this.skipSpace();
+      return { kind: "regex", operand: left, regex: this.regex() };
+    }
+    const op = COMPARISONS.find((c) => this.peek(c));
+    if (!op) {
+      if (left.kind !== "query") this.fail("Expected a comparison");
+      return { kind: "exists", query: left.query };
+    }
+    this.pos += op.length;
+    return { kind: "compare", op, left, right: this.operand() };
+  }
+
+  private operand(): Operand {
+    this.skipSpace();
+    if (this.peek("$") || this.peek("@")) {
+      return { kind: "query", query: this.query() };
+    }
+    if (this.peek("'") || this.peek('"')) {
+      return { kind: "literal", value: this.string() };
+    }
+    const literal = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(
+      this.src.slice(this.pos),
+    );
+    if (!literal) this.fail("Expected a value");
+    this.pos += literal[0].length;
+    return { kind: "literal", value: JSON.parse(literal[0]) };
+  }
+
+  private regex(): RegExp {
+    const match = /^\/((?:\\.|[^/\\])+)\/([a-z]*)/.exec(
+      this.src.slice(this.pos),
+    );
+    if (!match) this.fail("Expected a /regex/");
+    this.pos += match[0].length;
+    try {
+      // Without "g", so repeated .test() calls don't carry lastIndex over
+      return new RegExp(match[1], match[2].replace("g", ""));
+    } catch {
+      this.fail("Invalid regex");
+    }
+  }
+}
+
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === "object") return Object.values(value);
+  return [];
+}
+
+function descendantsAndSelf(value: unknown, out: unknown[] = []): unknown[] {
+  out.push(value);
+  for (const child of children(value)) descendantsAndSelf(child, out);
+  return out;
+}
+
+function select(selector: Selector, value: unknown, root: unknown): unknown[] {
+  switch (selector.kind) {
+    case "wildcard":
+      return children(value);
+    case "name":
+      return value &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.prototype.hasOwnProperty.call(value, selector.name)
+        ? [(value as Record<string, unknown>)[selector.name]]
+        : [];
+    case "index": {
+      if (!Array.isArray(value)) return [];
+      const i =
+        selector.index < 0 ? value.length + selector.index : selector.index;
+      return i >= 0 && i < value.length ? [value[i]] : [];
+    }
+    case "slice":
+      return Array.isArray(value) ? slice(value, selector) : [];
+    case "filter":
+      return children(value).filter((child) =>
+        test(selector.expr, child, root),
+      );
+  }
+}
+
+function slice(
+  array: unknown[],
+  { start, end, step }: { start?: number; end?: number; step: number },
+): unknown[] {
+  const len = array.length;
+  const norm = (i: number) =>
+    i < 0 ? Math.max(len + i, -1) : Math.min(i, len);
+  const out: unknown[] = [];
+  if (step > 0) {
+    const to = end === undefined ? len : norm(end);
+    for (
+      let i = Math.max(start === undefined ? 0 : norm(start), 0);
+      i < to;
+      i += step
+    ) {
+      out.push(array[i]);
+    }
+  } else {
+    const from = start === undefined ? len - 1 : Math.min(norm(start), len - 1);
+    const to = end === undefined ? -1 : norm(end);
+    for (let i = from; i > to; i += step) out.push(array[i]);
+  }
+  return out;
+}
+
+function run(query: Query, current: unknown, root: unknown): unknown[] {
+  let values = [query.root === "$" ? root : current];
+  for (const segment of query.segments) {
+    const inputs = segment.recursive
+      ? values.flatMap((v) => descendantsAndSelf(v))
+      : values;
+    values = inputs.flatMap((v) =>
+      segment.selectors.flatMap((s) => select(s, v, root)),
+    );
+  }
+  return values;
+}
+
+function test(expr: FilterExpr, current: unknown, root: unknown): boolean {
+  switch (expr.kind) {
+    case "or":
+      return test(expr.left, current, root) || test(expr.right, current, root);
+    case "and":
+      return test(expr.left, current, root) && test(expr.right, current, root);
+    case "not":
+      return !test(expr.operand, current, root);
+    case "exists":
+      return run(expr.query, current, root).length > 0;
+    case "regex": {
+      const value = resolve(expr.operand, current, root);
+      return typeof value === "string" && expr.regex.test(value);
+    }
+    case "compare":
+      return compare(
+        expr.op,
+        resolve(expr.left, current, root),
+        resolve(expr.right, current, root),
+      );
+  }
+}
+
+/** A query operand compares by its single value; none or several is "nothing". */
+function resolve(operand: Operand, current: unknown, root: unknown): unknown {
+  if (operand.kind === "literal") return operand.value;
+  const values = run(operand.query, current, root);
+  return values.length === 1 ? values[0] : undefined;
+}
+
+function compare(op: string, a: unknown, b: unknown): boolean {
+  if (op === "==" || op === "!=") {
+    const equal =
+      a === undefined || b === undefined
+        ? a === b
+        : JSON.stringify(a) === JSON.stringify(b);
+    return op === "==" ? equal : !equal;
+  }
+  // Ordering only means something between two numbers or two strings
+  if (
+    !(typeof a === "number" && typeof b === "number") &&
+    !(typeof a === "string" && typeof b === "string")
+  ) {
+    return false;
+  }
+  switch (op) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+const compiled = new Map<string, Query>();
+const MAX_COMPILED = 500;
+
+function parseCached(path: string): Query {
+  let query = compiled.get(path);
+  if (!query) {
+    query = new Parser(path.trim()).parse();
+    if (compiled.size >= MAX_COMPILED) compiled.clear();
+    compiled.set(path, query);
+  }
+  return query;
+}
+
+/** Parse a path, throwing `JsonPathError` when it is malformed. */
+export function compileJsonPath(path: string): void {
+  parseCached(path);
+}
+
+/**
+ * Every value `path` selects, in document order. `current` is what `@` and
+ * relative paths start from; it defaults to the root.
+ */
+export function queryJsonPath(
+  path: string,
+  root: unknown,
+  current: unknown = root,
+): unknown[] {
+  return run(parseCached(path), current, root);
+}
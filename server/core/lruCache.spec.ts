@@ -0,0 +1,83 @@
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { LruCache } from "./lruCache";
+
+describe("LruCache", () => {
+  it("evicts the least recently used entry beyond maxEntries", async () => {
+    const cache = new LruCache<number>({ maxEntries: 2 });
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+    expect(await cache.get("a")).toBe(1);
+    await cache.set("c", 3);
+
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("a")).toBe(1);
+    expect(await cache.get("c")).toBe(3);
+    expect(cache.stats()).toMatchObject({
+      entries: 2,
+      hits: 3,
+      misses: 1,
+      evictions: 1,
+      hitRate: 0.75,
+    });
+  });
+
+  it("accounts bytes and evicts to stay under maxBytes", async () => {
+    const cache = new LruCache<string>({ maxBytes: 25 });
+    await cache.set("a", "x".repeat(8)); // 10 bytes as JSON
+    await cache.set("b", "y".repeat(8));
+    expect(cache.stats().bytes).toBe(20);
+    await cache.set("c", "z".repeat(8));
+    expect(cache.stats()).toMatchObject({ entries: 2, bytes: 20 });
+    expect(await cache.get("a")).toBeUndefined();
+
+    // An entry bigger than the whole budget isn't kept
+    await cache.set("huge", "h".repeat(100));
+    expect(cache.size).toBe(2);
+  });
+
+  it("expires entries after ttlMs", async () => {
+    const cache = new LruCache<number>({ ttlMs: 1_000 });
+    await cache.set("a", 1, 0);
+    expect(await cache.get("a", 999)).toBe(1);
+    expect(await cache.get("a", 1_000)).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ entries: 0, expirations: 1 });
+  });
+
+  describe("on disk", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), "lru-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("reads evicted entries back and survives a restart", async () => {
+      const cache = new LruCache<{ n: number }>({ maxEntries: 1, dir });
+      await cache.set("a", { n: 1 });
+      await cache.set("b", { n: 2 });
+      expect(cache.size).toBe(1);
+      expect(await cache.get("a")).toEqual({ n: 1 });
+      expect(cache.stats()).toMatchObject({ diskHits: 1, diskEntries: 2 });
+
+      const restarted = new LruCache<{ n: number }>({ dir });
+      expect(await restarted.get("b")).toEqual({ n: 2 });
+      await restarted.delete("b");
+      expect(await restarted.get("b")).toBeUndefined();
+    });
+
+    it("keeps the disk copy under maxDiskBytes, oldest first", async () => {
+      const cache = new LruCache<string>({ dir, maxDiskBytes: 160 });
+      for (const key of ["a", "b", "c"]) await cache.set(key, "v".repeat(40));
+      expect(await readdir(dir)).toHaveLength(2);
+      cache.clear();
+      expect(await cache.get("a")).toBeUndefined();
+      expect(await cache.get("c")).toBe("v".repeat(40));
+    });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * SENTINEL LRU CACHE - Bounded result cache with optional disk spillover
+ * Entries live in memory in least-recently-used order and are evicted once
+ * the cache holds more than `maxEntries` or `maxBytes` (each entry's JSON
+ * size). With a `dir`, every entry is also written to disk: an entry evicted
+ * from memory, or left by a previous process, is read back on a miss. The
+ * disk copy has its own byte budget, oldest files going first. Disk I/O is
+ * best-effort; failures behave like a miss.
+ */
+
+import { createHash } from "crypto";
+import { mkdir, readFile, readdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+
+export interface LruCacheOptions<V> {
+  maxEntries: number;
+  maxBytes: number;
+  /** Entries older than this are misses; 0 keeps them until evicted */
+  ttlMs: number;
+  /** Write entries here too, so they survive eviction and restarts */
+  dir?: string;
+  maxDiskBytes: number;
+  /** Bytes an entry accounts for; defaults to its JSON length */
+  sizeOf?: (value: V) => number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+  hits: number;
+  /** Hits served from disk after eviction or a restart */
+  diskHits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+  /** Hits over lookups, 0 before the first lookup */
+  hitRate: number;
+  diskEntries?: number;
+  diskBytes?: number;
+}
+
+interface MemoryEntry<V> {
+  value: V;
+  bytes: number;
+  expires: number;
+}
+
+interface DiskEntry<V> {
+  key: string;
+  value: V;
+  expires: number;
+}
+
+const MB = 1024 * 1024;
+
+export class LruCache<V> {
+  private options: LruCacheOptions<V>;
+  // Map iteration order is insertion order: the first key is the least recent
+  private entries = new Map<string, MemoryEntry<V>>();
+  private bytes = 0;
+  // Bytes of each file on disk, oldest first; listed once per process
+  private disk?: Promise<Map<string, number>>;
+  private diskFiles?: Map<string, number>;
+  private counters = {
+    hits: 0,
+    diskHits: 0,
+    misses: 0,
+    evictions: 0,
+    expirations: 0,
+  };
+
+  constructor(options: Partial<LruCacheOptions<V>> = {}) {
+    this.options = {
+      maxEntries: 1000,
+      maxBytes: 64 * MB,
+      ttlMs: 0,
+      maxDiskBytes: 512 * MB,
+      ...options,
+    };
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string, now = Date.now()): Promise<V | undefined> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expires > now) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.counters.hits++;
+      return entry.value;
+    }
+    if (entry) {
+      this.counters.expirations++;
+      await this.delete(key);
+    }
+
+    const stored = entry ? undefined : await this.readDisk(key);
+    if (stored && stored.key === key && stored.expires > now) {
+      this.counters.hits++;
+      this.counters.diskHits++;
+      this.remember(key, stored.value, stored.expires);
+      return stored.value;
+    }
+    if (stored) {
+      this.counters.expirations++;
+      await this.removeDisk(key);
+    }
+    this.counters.misses++;
+    return undefined;
+  }
+
+  async set(key: string, value: V, now = Date.now()): Promise<void> {
+    const expires =
+      this.options.ttlMs > 0 ? now + this.options.ttlMs : Infinity;
+    const json = this.options.dir
+      ? JSON.stringify({
+          key,
+          value,
+          expires: expires === Infinity ? null : expires,
+        })
+      : undefined;
+    this.remember(key, value, expires, json);
+    if (json) await this.writeDisk(key, json);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.drop(key);
+    await this.removeDisk(key);
+  }
+
+  /** Drop every entry from memory; persisted copies stay for the next start. */
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+
+  /** Disk totals are included once the directory has been listed. */
+  stats(): CacheStats {
+    const lookups = this.counters.hits + this.counters.misses;
+    const stats: CacheStats = {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxEntries: this.options.maxEntries,
+      maxBytes: this.options.maxBytes,
+      ...this.counters,
+      hitRate: lookups ? this.counters.hits / lookups : 0,
+    };
+    if (this.diskFiles) {
+      stats.diskEntries = this.diskFiles.size;
+      stats.diskBytes = sum(this.diskFiles.values());
+    }
+    return stats;
+  }
+
+  private remember(key: string, value: V, expires: number, json?: string) {
+    const bytes = this.options.sizeOf
+      ? this.options.sizeOf(value)
+      : Buffer.byteLength(json ?? JSON.stringify(value) ?? "");
+    this.drop(key);
+    // Bigger than the whole budget: it would only evict everything else
+    if (bytes > this.options.maxBytes) return;
+    this.entries.set(key, { value, bytes, expires });
+    this.bytes += bytes;
+    while (
+      this.entries.size > this.options.maxEntries ||
+      this.bytes > this.options.maxBytes
+    ) {
+      this.drop(this.entries.keys().next().value!);
+      this.counters.evictions++;
+    }
+  }
+
+  private drop(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+
+  private fileFor(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return `${hash}.json`;
+  }
+
+  private async readDisk(key: string): Promise<DiskEntry<V> | undefined> {
+    if (!this.options.dir) return undefined;
+    try {
+      const file = path.join(this.options.dir, this.fileFor(key));
+      const stored = JSON.parse(await readFile(file, "utf8"));
+      return { ...stored, expires: stored.expires ?? Infinity };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeDisk(key: string, json: string): Promise<void> {
+    const dir = this.options.dir!;
+    const file = this.fileFor(key);
+    try {
+      const disk = await this.diskIndex();
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, file), json);
+      disk.delete(file);
+      disk.set(file, Buffer.byteLength(json));
+
+      // Oldest files first; the index is kept in write order
+      let total = sum(disk.values());
+      for (const [name, bytes] of disk) {
+        if (total <= this.options.maxDiskBytes) break;
+        disk.delete(name);
+        total -= bytes;
+        await rm(path.join(dir, name), { force: true });
+      }
+    } catch {
+      // A cache that can't be written only costs a re-scrape after eviction
+    }
+  }
+
+  private async removeDisk(key: string): Promise<void> {
+    if (!this.options.dir) return;
+    const file = this.fileFor(key);
+    (await this.diskIndex()).delete(file);
+    await rm(path.join(this.options.dir, file), { force: true }).catch(
+      () => undefined,
+    );
+  }
+
+  private diskIndex(): Promise<Map<string, number>> {
+    this.disk ??= (async () => {
+      const dir = this.options.dir!;
+      const names = await readdir(dir).catch(() => [] as string[]);
+      const files = await Promise.all(
+        names
+          .filter((name) => name.endsWith(".json"))
+          .map(async (name) => ({
+            name,
+            info: await stat(path.join(dir, name)).catch(() => undefined),
+          })),
+      );
+      this.diskFiles = new Map(
+        files
+          .filter((f) => f.info)
+          .sort((a, b) => a.info!.mtimeMs - b.info!.mtimeMs)
+          .map((f) => [f.name, f.info!.size]),
+      );
+      return this.diskFiles;
+    })();
+    return this.disk;
+  }
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const value of values) total += value;
+  return total;
+}
+
+/** `$SCRAPER_DATA_DIR/result-cache/<name>` (default `./data/result-cache/<name>`). */
+export function resultCacheDir(name: string): string {
+  return path.resolve(
+    process.env.SCRAPER_DATA_DIR || "data",
+    "result-cache",
+    name,
+  );
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  Paginator,
+  mergePages,
+  nextPageUrl,
+  validatePagination,
+} from "./pagination";
+import { parseBody } from "./selectors";
+
+const first = "https://shop.example/search?q=lamp";
+
+describe("nextPageUrl", () => {
+  it("follows a next link relative to the current page", () => {
+    const doc = parseBody(
+      '<a class="next" href="/search?q=lamp&p=3#top">Next</a>',
+      "text/html",
+    );
+    const url = nextPageUrl(
+      { strategy: "next-link", selector: "a.next" },
+      1,
+      first,
+      "https://shop.example/search?q=lamp&p=2",
+      doc,
+    );
+    expect(url).toBe("https://shop.example/search?q=lamp&p=3");
+  });
+
+  it("reads next links from JSON and ignores non-http ones", () => {
+    const doc = parseBody(
+      '{"links":{"next":"?q=lamp&cursor=x"}}',
+      "application/json",
+    );
+    const pagination = {
+      strategy: "next-link",
+      selector: "$.links.next",
+    } as const;
+    expect(nextPageUrl(pagination, 0, first, first, doc)).toBe(
+      "https://shop.example/search?q=lamp&cursor=x",
+    );
+    const html = parseBody(
+      '<a class="next" href="javascript:void 0">',
+      "text/html",
+    );
+    expect(
+      nextPageUrl(
+        { strategy: "next-link", selector: "a.next" },
+        0,
+        first,
+        first,
+        html,
+      ),
+    ).toBeUndefined();
+  });
+
+  it("counts pages for templates and offsets", () => {
+    const template = {
+      strategy: "url-template",
+      template: "https://shop.example/search?q=lamp&p={page}",
+      step: 2,
+    } as const;
+    expect(nextPageUrl(template, 0, first, first)).toBe(
+      "https://shop.example/search?q=lamp&p=3",
+    );
+    const offset = {
+      strategy: "offset",
+      param: "start",
+      pageSize: 20,
+    } as const;
+    expect(nextPageUrl(offset, 1, first, "ignored")).toBe(
+      "https://shop.example/search?q=lamp&start=40",
+    );
+  });
+});
+
+describe("mergePages", () => {
+  it("concatenates lists and keeps the first scalar", () => {
+    expect(
+      mergePages([
+        { title: "Lamps", items: ["a", "b"] },
+        { title: "Lamps p2", items: "c" },
+        { title: null, items: ["d"] },
+      ]),
+    ).toEqual({ title: "Lamps", items: ["a", "b", "c", "d"] });
+  });
+});
+
+describe("Paginator", () => {
+  it("stops at an empty page without merging it", () => {
+    const paginator = new Paginator({
+      strategy: "offset",
+      param: "o",
+      pageSize: 2,
+    });
+    expect(
+      paginator.add("u1", { heading: "All", items: ["a", "b"] }),
+    ).toBeUndefined();
+    expect(paginator.add("u2", { heading: "All", items: [] })).toBe(
+      "empty-page",
+    );
+    expect(paginator.summary("empty-page")).toEqual({
+      pages: 1,
+      urls: ["u1"],
+      stoppedBy: "empty-page",
+    });
+  });
+
+  it("stops at repeated pages, revisited URLs and the page limit", () => {
+    const paginator = new Paginator({
+      strategy: "next-link",
+      selector: "a",
+      maxPages: 3,
+    });
+    paginator.add("u1", { items: ["a"] });
+    expect(paginator.follow("u1")).toBe("repeated-page");
+    expect(paginator.follow(undefined)).toBe("no-next-page");
+    expect(paginator.add("u2", { items: ["a"] })).toBe("repeated-page");
+    expect(paginator.add("u2", { items: ["b"] })).toBeUndefined();
+    expect(paginator.add("u3", { items: ["c"] })).toBe("max-pages");
+    expect(paginator.merged()).toEqual({ items: ["a", "b", "c"] });
+  });
+});
+
+describe("validatePagination", () => {
+  it("checks each strategy's options", () => {
+    expect(
+      validatePagination({ strategy: "next-link", selector: "a.next" }),
+    ).toBeUndefined();
+    expect(validatePagination({ strategy: "pages" })).toMatch(
+      /unknown pagination strategy/,
+    );
+    expect(
+      validatePagination({ strategy: "url-template", template: "/p/{page}" }),
+    ).toBe("url-template must be an absolute URL");
+    expect(
+      validatePagination({ strategy: "offset", param: "o", pageSize: 0 }),
+    ).toMatch(/pageSize/);
+    expect(validatePagination({ strategy: "infinite-scroll" })).toMatch(
+      /browser/,
+    );
+    expect(
+      validatePagination({ strategy: "infinite-scroll" }, { browser: true }),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * SENTINEL PAGINATION - Following list targets across pages
+ * A target declares how its next page is found (a next link, a URL template
+ * with a page counter, an offset parameter, or infinite scroll in a browser)
+ * and when to stop. Each page is extracted with the target's selectors or
+ * schema; list fields are concatenated into one result.
+ */
+
+import {
+  ParsedBody,
+  SelectorEntry,
+  matchValue,
+  selectMatches,
+  validateSelector,
+} from "./selectors";
+
+export type PaginationStrategy =
+  | {
+      strategy: "next-link";
+      /** Matches the next-page link; its href (or the matched value) is followed */
+      selector: SelectorEntry;
+    }
+  | {
+      strategy: "url-template";
+      /** URL with a `{page}` placeholder, e.g. `https://shop.example/search?q=x&p={page}` */
+      template: string;
+      /** Counter of the target URL's own page (default 1) */
+      start?: number;
+      step?: number;
+    }
+  | {
+      strategy: "offset";
+      /** Query parameter set on the target URL, e.g. `offset` or `start` */
+      param: string;
+      pageSize: number;
+      /** Offset of the target URL's own page (default 0) */
+      start?: number;
+    }
+  | {
+      strategy: "infinite-scroll";
+      /** Wait after each scroll for more items to load (default 1000) */
+      scrollDelayMs?: number;
+    };
+
+export interface PaginationStop {
+  /** Pages fetched at most, the first included (default 10, at most 100) */
+  maxPages?: number;
+  /** Stop at a page that yields no data (default true) */
+  stopOnEmpty?: boolean;
+  /** Stop at a page whose data repeats an earlier page's (default true) */
+  stopOnRepeat?: boolean;
+}
+
+export type Pagination = PaginationStrategy & PaginationStop;
+
+export type PaginationStopReason =
+  | "max-pages"
+  | "no-next-page"
+  | "empty-page"
+  | "repeated-page"
+  | "disallowed"
+  | "error"
+  | "cancelled";
+
+export interface PaginationSummary {
+  pages: number;
+  urls: string[];
+  stoppedBy: PaginationStopReason;
+  /** Why a page after the first failed, when `stoppedBy` is "error" */
+  error?: string;
+}
+
+const DEFAULT_MAX_PAGES = 10;
+const MAX_PAGES = 100;
+const STRATEGIES = ["next-link", "url-template", "offset", "infinite-scroll"];
+
+/** Check a target's `pagination`, returning a message if malformed. */
+export function validatePagination(
+  pagination: unknown,
+  { browser = false } = {},
+): string | undefined {
+  if (!pagination || typeof pagination !== "object") {
+    return "pagination must be an object";
+  }
+  const p = pagination as Record<string, any>;
+  if (!STRATEGIES.includes(p.strategy)) {
+    return `unknown pagination strategy '${p.strategy}'`;
+  }
+  if (
+    p.maxPages !== undefined &&
+    !(Number.isInteger(p.maxPages) && p.maxPages >= 1)
+  ) {
+    return "maxPages must be a positive integer";
+  }
+  switch (p.strategy) {
+    case "next-link": {
+      const error = validateSelector(p.selector);
+      return error && `next-link ${error}`;
+    }
+    case "url-template":
+      if (typeof p.template !== "string" || !p.template.includes("{page}")) {
+        return "url-template needs a template containing {page}";
+      }
+      try {
+        new URL(p.template.replace(/\{page\}/g, "1"));
+      } catch {
+        return "url-template must be an absolute URL";
+      }
+      return undefined;
+    case "offset":
+      if (typeof p.param !== "string" || !p.param) {
+        return "offset pagination needs a param";
+      }
+      if (!(Number.isInteger(p.pageSize) && p.pageSize > 0)) {
+        return "offset pagination needs a positive integer pageSize";
+      }
+      return undefined;
+    default:
+      return browser
+        ? undefined
+        : "infinite-scroll pagination needs the browser engine";
+  }
+}
+
+export function maxPages(pagination: Pagination): number {
+  return Math.min(
+    Math.max(pagination.maxPages ?? DEFAULT_MAX_PAGES, 1),
+    MAX_PAGES,
+  );
+}
+
+/**
+ * URL of the page after the one at `index` (0 for the target URL itself), or
+ * undefined when there is none. Next links are read from `doc`, the parsed
+ * page at `currentUrl`; infinite scroll never has a next URL.
+ */
+export function nextPageUrl(
+  pagination: Pagination,
+  index: number,
+  firstUrl: string,
+  currentUrl: string,
+  doc?: ParsedBody,
+): string | undefined {
+  switch (pagination.strategy) {
+    case "next-link": {
+      if (!doc) return undefined;
+      const spec =
+        typeof pagination.selector === "string"
+          ? { selector: pagination.selector }
+          : pagination.selector;
+      // Links are followed by their href unless another attribute is named
+      const attribute =
+        spec.attribute ?? (doc.kind === "html" ? "href" : undefined);
+      let href: string | undefined;
+      try {
+        href = selectMatches(doc, spec)
+          .map((m) => matchValue(doc, m, { attribute })?.trim())
+          .find(Boolean);
+      } catch {
+        return undefined;
+      }
+      return href ? httpUrl(href, currentUrl) : undefined;
+    }
+    case "url-template": {
+      const page =
+        (pagination.start ?? 1) + (index + 1) * (pagination.step ?? 1);
+      return httpUrl(
+        pagination.template.replace(/\{page\}/g, String(page)),
+        firstUrl,
+      );
+    }
+    case "offset": {
+      const url = new URL(firstUrl);
+      const offset =
+        (pagination.start ?? 0) + (index + 1) * pagination.pageSize;
+      url.searchParams.set(pagination.param, String(offset));
+      return url.href;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function httpUrl(href: string, base: string): string | undefined {
+  try {
+    const url = new URL(href, base);
+    url.hash = "";
+    return /^https?:$/.test(url.protocol) ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Nothing extracted: every value null, blank or an empty list. */
+export function isEmptyPage(
+  data: Record<string, unknown>,
+  listKeys: Iterable<string> = [],
+): boolean {
+  const lists = [...listKeys];
+  // With list fields, a page is empty when its lists are: headers and
+  // breadcrumbs repeat on every page and say nothing about the results
+  const keys = lists.length ? lists : Object.keys(data);
+  return keys.every((key) => {
+    const v = data[key];
+    return (
+      v === null ||
+      v === undefined ||
+      v === "" ||
+      (Array.isArray(v) && v.length === 0)
+    );
+  });
+}
+
+/**
+ * Merge per-page data. A field that is a list on any page collects every
+ * page's values in order (a lone match counts as a one-item list); other
+ * fields keep the first page's value that isn't empty.
+ */
+export function mergePages(
+  pages: Record<string, unknown>[],
+): Record<string, unknown> {
+  const listKeys = new Set(
+    pages.flatMap((data) =>
+      Object.keys(data).filter((k) => Array.isArray(data[k])),
+    ),
+  );
+  const merged: Record<string, unknown> = {};
+  for (const data of pages) {
+    for (const [key, value] of Object.entries(data)) {
+      if (listKeys.has(key)) {
+        const list = (merged[key] as unknown[] | undefined) ?? [];
+        if (Array.isArray(value)) list.push(...value);
+        else if (value !== null && value !== undefined) list.push(value);
+        merged[key] = list;
+      } else if (merged[key] === undefined || merged[key] === null) {
+        merged[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Tracks one paginated scrape: which pages were fetched, their data, and
+ * whether the stop conditions have been met.
+ */
+export class Paginator {
+  readonly urls: string[] = [];
+  private pages: Record<string, unknown>[] = [];
+  private seen = new Set<string>();
+  private listKeys = new Set<string>();
+
+  constructor(private pagination: Pagination) {}
+
+  get limit(): number {
+    return maxPages(this.pagination);
+  }
+
+  /**
+   * Record a fetched page. Returns why pagination stops when this page ends
+   * it; an empty or repeated page is not merged. The first page is always
+   * kept, so a target without results still yields its page.
+   */
+  add(
+    url: string,
+    data: Record<string, unknown>,
+  ): PaginationStopReason | undefined {
+    for (const [key, value] of Object.entries(data)) {
+      if (Array.isArray(value)) this.listKeys.add(key);
+    }
+    const first = this.pages.length === 0;
+    const empty = isEmptyPage(data, this.listKeys);
+    const key = JSON.stringify(data);
+    if (!first && empty && this.pagination.stopOnEmpty !== false) {
+      return "empty-page";
+    }
+    if (
+      !first &&
+      this.seen.has(key) &&
+      this.pagination.stopOnRepeat !== false
+    ) {
+      return "repeated-page";
+    }
+    this.pages.push(data);
+    this.urls.push(url);
+    this.seen.add(key);
+    if (first && empty && this.pagination.stopOnEmpty !== false) {
+      return "empty-page";
+    }
+    return this.pages.length >= this.limit ? "max-pages" : undefined;
+  }
+
+  /** Check the URL of the next page before it is fetched. */
+  follow(nextUrl: string | undefined): PaginationStopReason | undefined {
+    if (!nextUrl) return "no-next-page";
+    // A link back to a fetched page would loop forever
+    if (this.urls.includes(nextUrl)) return "repeated-page";
+    return undefined;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  merged(): Record<string, unknown> {
+    return mergePages(this.pages);
+  }
+
+  summary(stoppedBy: PaginationStopReason, error?: string): PaginationSummary {
+    return {
+      pages: this.pages.length,
+      urls: [...this.urls],
+      stoppedBy,
+      ...(error ? { error } : {}),
+    };
+  }
+}
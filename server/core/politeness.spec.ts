@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PolitenessManager, parseRetryAfter } from "./politeness";
+
+const now = Date.parse("2026-01-01T00:00:00Z");
+
+describe("parseRetryAfter", () => {
+  it("reads delay-seconds and HTTP dates", () => {
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("Wed, 31 Dec 2025 23:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+});
+
+describe("PolitenessManager", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Start times, relative to `now`, of requests as they get through */
+  async function startTimes(
+    manager: PolitenessManager,
+    urls: string[],
+    holdMs = 0,
+  ) {
+    const started: Record<string, number[]> = {};
+    await Promise.all(
+      urls.map(async (url) => {
+        const release = await manager.acquire(url);
+        (started[new URL(url).host] ??= []).push(Date.now() - now);
+        setTimeout(release, holdMs);
+      }),
+    );
+    return started;
+  }
+
+  it("spaces requests to a host by its minimum delay", async () => {
+    const manager = new PolitenessManager({
+      maxConcurrent: 5,
+      minDelayMs: 100,
+    });
+    const run = startTimes(manager, [
+      "https://a.example/1",
+      "https://a.example/2",
+      "https://b.example/1",
+      "https://a.example/3",
+    ]);
+    await vi.runAllTimersAsync();
+    expect(await run).toEqual({ "a.example": [0, 100, 200], "b.example": [0] });
+  });
+
+  it("spaces a request by its own minimum without changing the host's", async () => {
+    const manager = new PolitenessManager({
+      maxConcurrent: 5,
+      minDelayMs: 100,
+    });
+    const started: number[] = [];
+    const take = async (minDelayMs?: number) => {
+      await manager.acquire("https://a.example/", undefined, minDelayMs);
+      started.push(Date.now() - now);
+    };
+    const run = (async () => {
+      await take(1_000);
+      await take(1_000);
+      await take();
+    })();
+    await vi.runAllTimersAsync();
+    await run;
+    expect(started).toEqual([0, 1_000, 1_100]);
+    expect(manager.stats()[0]).toMatchObject({ minDelayMs: 100, delayMs: 100 });
+  });
+
+  it("queues beyond the host's connection limit", async () => {
+    const manager = new PolitenessManager({ minDelayMs: 0 });
+    manager.configure("shop.example", { maxConcurrent: 1 });
+    const run = startTimes(
+      manager,
+      ["https://shop.example/1", "https://shop.example/2"],
+      500,
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(manager.stats()[0]).toMatchObject({ active: 1, queued: 1 });
+    await vi.runAllTimersAsync();
+    expect(await run).toEqual({ "shop.example": [0, 500] });
+  });
+
+  it("backs off only the throttling host and honours Retry-After", async () => {
+    const manager = new PolitenessManager({ minDelayMs: 100 });
+    manager.report("https://slow.example/", { status: 429, retryAfter: "30" });
+    const [slow, fast] = manager.stats();
+    expect(slow).toMatchObject({
+      host: "slow.example",
+      delayMs: 2_000,
+      throttled: 1,
+      blockedUntil: now + 30_000,
+    });
+    expect(fast).toBeUndefined();
+
+    const run = startTimes(manager, [
+      "https://slow.example/",
+      "https://fast.example/",
+    ]);
+    await vi.runAllTimersAsync();
+    expect(await run).toEqual({
+      "slow.example": [30_000],
+      "fast.example": [0],
+    });
+  });
+
+  it("grows the delay on repeated throttling and recovers a step at a time", () => {
+    const manager = new PolitenessManager({ minDelayMs: 100 });
+    const url = "https://slow.example/";
+    const delay = () => manager.stats()[0].delayMs;
+    manager.report(url, { status: 503 });
+    manager.report(url, { status: 503 });
+    expect(delay()).toBe(4_000);
+
+    manager.report(url, { status: 200 });
+    expect(delay()).toBe(3_000);
+    for (let i = 0; i < 20; i++) manager.report(url, { status: 200 });
+    expect(delay()).toBe(100);
+  });
+
+  it("gives the slot back when aborted while waiting", async () => {
+    const manager = new PolitenessManager({ maxConcurrent: 1, minDelayMs: 0 });
+    const release = await manager.acquire("https://shop.example/");
+    const controller = new AbortController();
+    const waiting = manager.acquire("https://shop.example/", controller.signal);
+    controller.abort(new Error("cancelled"));
+    await expect(waiting).rejects.toThrow("cancelled");
+    expect(manager.stats()[0]).toMatchObject({ active: 1, queued: 0 });
+    release();
+    expect(manager.stats()[0].active).toBe(0);
+  });
+});
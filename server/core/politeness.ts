@@ -0,0 +1,267 @@
+/**
+ * SENTINEL POLITENESS - Per-host concurrency, spacing and backoff
+ * Every request to a host takes one of its connection slots and starts no
+ * sooner than the host's current delay after the previous one. A 429 or 503
+ * backs off that host only: its delay grows exponentially and Retry-After,
+ * when sent, pauses it outright. Ordinary responses shrink the delay back
+ * towards the host's base a step at a time, so recovery is gradual.
+ */
+
+import type { HostPolitenessStat } from "@shared/api";
+
+export interface HostPolicy {
+  /** Requests in flight to the host at once */
+  maxConcurrent?: number;
+  /** Minimum gap between request starts when the host isn't throttling */
+  minDelayMs?: number;
+}
+
+export interface PolitenessOptions extends Required<HostPolicy> {
+  /** Delay grows by this factor on each throttled response */
+  backoffFactor: number;
+  /** Smallest delay a throttled host backs off to */
+  minBackoffMs: number;
+  maxDelayMs: number;
+  /** Delay shrinks by this factor on each ordinary response */
+  recoveryFactor: number;
+  /** Longest Retry-After that is honoured */
+  maxRetryAfterMs: number;
+}
+
+interface HostState {
+  host: string;
+  policy: Required<HostPolicy>;
+  active: number;
+  queue: Array<{ resolve: () => void }>;
+  delayMs: number;
+  nextStart: number;
+  lastStart: number;
+  blockedUntil: number;
+  requests: number;
+  throttled: number;
+}
+
+/** Statuses that mean "slow down" rather than "failed" */
+const THROTTLE_STATUSES = [429, 503];
+const MAX_HOSTS = 1000;
+
+/** Retry-After as milliseconds from `now`: delay-seconds or an HTTP date. */
+export function parseRetryAfter(
+  value: string | undefined,
+  now = Date.now(),
+): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const at = Date.parse(trimmed);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - now);
+}
+
+function hostOf(url: string): string {
+  return new URL(url).host.toLowerCase();
+}
+
+export class PolitenessManager {
+  private hosts = new Map<string, HostState>();
+  private policies = new Map<string, HostPolicy>();
+  private options: PolitenessOptions;
+
+  constructor(options: Partial<PolitenessOptions> = {}) {
+    this.options = {
+      maxConcurrent: 2,
+      minDelayMs: 250,
+      backoffFactor: 2,
+      minBackoffMs: 1_000,
+      maxDelayMs: 5 * 60_000,
+      recoveryFactor: 0.75,
+      maxRetryAfterMs: 10 * 60_000,
+      ...options,
+    };
+  }
+
+  /** Set a host's policy; fields left out keep the defaults. */
+  configure(host: string, policy: HostPolicy): void {
+    const key = host.toLowerCase();
+    this.policies.set(key, { ...this.policies.get(key), ...policy });
+    const state = this.hosts.get(key);
+    if (state) {
+      state.policy = this.policyFor(key);
+      state.delayMs = Math.max(state.delayMs, state.policy.minDelayMs);
+    }
+  }
+
+  /**
+   * Wait for a connection slot and the host's next start time. Returns the
+   * function that gives the slot back; call it once the response is in.
+   * Rejects with the signal's reason when aborted while waiting.
+   * `minDelayMs` spaces this request at least that far from the host's
+   * previous start, on top of the host's policy, which it leaves unchanged.
+   */
+  async acquire(
+    url: string,
+    signal?: AbortSignal,
+    minDelayMs = 0,
+  ): Promise<() => void> {
+    signal?.throwIfAborted();
+    const state = this.state(hostOf(url));
+    if (state.active >= state.policy.maxConcurrent) {
+      // A finishing request hands its slot straight to the first waiter
+      await new Promise<void>((resolve, reject) => {
+        const abort = () => {
+          state.queue = state.queue.filter((w) => w !== waiter);
+          reject(signal!.reason);
+        };
+        const waiter = {
+          resolve: () => {
+            signal?.removeEventListener("abort", abort);
+            resolve();
+          },
+        };
+        state.queue.push(waiter);
+        signal?.addEventListener("abort", abort, { once: true });
+      });
+    } else {
+      state.active++;
+    }
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      const next = state.queue.shift();
+      if (next) next.resolve();
+      else state.active--;
+    };
+
+    try {
+      // Re-checked after every sleep: a 429 may have pushed the host back
+      for (;;) {
+        const now = Date.now();
+        const start = Math.max(
+          state.nextStart,
+          state.blockedUntil,
+          state.lastStart + minDelayMs,
+        );
+        if (start <= now) {
+          state.nextStart = now + state.delayMs;
+          state.lastStart = now;
+          state.requests++;
+          return release;
+        }
+        await sleep(start - now, signal);
+      }
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  /**
+   * Record a response from the host. 429 and 503 back it off; anything else
+   * moves its delay a step back towards the base.
+   */
+  report(
+    url: string,
+    response: { status?: number; retryAfter?: string },
+    now = Date.now(),
+  ): void {
+    const state = this.state(hostOf(url));
+    const { minDelayMs } = state.policy;
+    if (
+      response.status === undefined ||
+      !THROTTLE_STATUSES.includes(response.status)
+    ) {
+      state.delayMs = Math.max(
+        minDelayMs,
+        Math.round(state.delayMs * this.options.recoveryFactor),
+      );
+      return;
+    }
+    state.throttled++;
+    state.delayMs = Math.min(
+      this.options.maxDelayMs,
+      Math.max(state.delayMs, minDelayMs, this.options.minBackoffMs) *
+        this.options.backoffFactor,
+    );
+    const retryAfter = parseRetryAfter(response.retryAfter, now);
+    const pause = Math.min(
+      retryAfter ?? state.delayMs,
+      this.options.maxRetryAfterMs,
+    );
+    state.blockedUntil = Math.max(state.blockedUntil, now + pause);
+  }
+
+  /** Per-host state, busiest hosts first. */
+  stats(now = Date.now()): HostPolitenessStat[] {
+    return [...this.hosts.values()]
+      .map((s) => ({
+        host: s.host,
+        active: s.active,
+        queued: s.queue.length,
+        maxConcurrent: s.policy.maxConcurrent,
+        delayMs: s.delayMs,
+        minDelayMs: s.policy.minDelayMs,
+        requests: s.requests,
+        throttled: s.throttled,
+        blockedUntil: s.blockedUntil > now ? s.blockedUntil : undefined,
+      }))
+      .sort((a, b) => b.requests - a.requests);
+  }
+
+  private policyFor(host: string): Required<HostPolicy> {
+    return {
+      maxConcurrent: this.options.maxConcurrent,
+      minDelayMs: this.options.minDelayMs,
+      ...this.policies.get(host),
+    };
+  }
+
+  private state(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      if (this.hosts.size >= MAX_HOSTS) this.evictIdle();
+      const policy = this.policyFor(host);
+      state = {
+        host,
+        policy,
+        active: 0,
+        queue: [],
+        delayMs: policy.minDelayMs,
+        nextStart: 0,
+        lastStart: -Infinity,
+        blockedUntil: 0,
+        requests: 0,
+        throttled: 0,
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /** Forget hosts with nothing in flight that aren't backing off. */
+  private evictIdle(now = Date.now()) {
+    for (const [host, s] of this.hosts) {
+      if (!s.active && !s.queue.length && s.blockedUntil <= now) {
+        this.hosts.delete(host);
+      }
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", abort, { once: true });
+    function done() {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }
+    function abort() {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    }
+  });
+}
+
+/** Shared politeness for the engines and stats endpoints in this process. */
+export const politeness = new PolitenessManager();
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_RETRY_POLICY,
+  ScrapeError,
+  classifyError,
+  mergeRetryPolicy,
+  retryDelay,
+} from "./retry";
+
+function axiosError(fields: {
+  code?: string;
+  status?: number;
+  message?: string;
+}) {
+  return Object.assign(new Error(fields.message ?? "Request failed"), {
+    code: fields.code,
+    response: fields.status ? { status: fields.status } : undefined,
+  });
+}
+
+describe("classifyError", () => {
+  it("sorts statuses, network codes and timeouts into kinds", () => {
+    const kind = (error: unknown) => classifyError(error).kind;
+    expect(kind(axiosError({ status: 503 }))).toBe("http-5xx");
+    expect(kind(axiosError({ status: 429 }))).toBe("http-429");
+    expect(kind(new ScrapeError("http-4xx", "HTTP 404", 404))).toBe("http-4xx");
+    expect(kind(axiosError({ code: "ECONNRESET" }))).toBe("network");
+    expect(kind(axiosError({ code: "EAI_AGAIN" }))).toBe("network");
+    expect(
+      kind(axiosError({ code: "ECONNABORTED", message: "timeout of 30000ms" })),
+    ).toBe("timeout");
+    expect(
+      kind(Object.assign(new Error("aborted"), { name: "TimeoutError" })),
+    ).toBe("timeout");
+    expect(kind(new TypeError("x is undefined"))).toBe("other");
+  });
+
+  it("marks unresolvable hosts as permanent", () => {
+    expect(classifyError(axiosError({ code: "ENOTFOUND" }))).toMatchObject({
+      kind: "network",
+      permanent: true,
+    });
+  });
+});
+
+describe("retryDelay", () => {
+  const half = () => 0.5;
+
+  it("backs off exponentially with jitter up to the cap", () => {
+    const failure = classifyError(axiosError({ status: 502 }));
+    expect(retryDelay(DEFAULT_RETRY_POLICY, failure, 1, () => 0)).toBe(500);
+    expect(retryDelay(DEFAULT_RETRY_POLICY, failure, 1, () => 1)).toBe(1_000);
+    expect(retryDelay(DEFAULT_RETRY_POLICY, failure, 3, half)).toBe(3_000);
+    expect(retryDelay(DEFAULT_RETRY_POLICY, failure, 4, half)).toBeUndefined();
+  });
+
+  it("never retries 4xx, parse errors or permanent failures by default", () => {
+    for (const error of [
+      new ScrapeError("http-4xx", "HTTP 404", 404),
+      new ScrapeError("parse", "Schema errors: price: invalid selector"),
+      axiosError({ code: "ENOTFOUND" }),
+    ]) {
+      expect(
+        retryDelay(DEFAULT_RETRY_POLICY, classifyError(error), 1, half),
+      ).toBeUndefined();
+    }
+  });
+
+  it("takes per-kind overrides", () => {
+    const policy = mergeRetryPolicy({
+      "http-4xx": { retries: 1, baseDelayMs: 100, maxDelayMs: 100 },
+      "http-5xx": { retries: 0 },
+    });
+    const notFound = new ScrapeError("http-4xx", "HTTP 404", 404);
+    expect(retryDelay(policy, classifyError(notFound), 1, () => 1)).toBe(100);
+    expect(
+      retryDelay(policy, classifyError(axiosError({ status: 500 })), 1, half),
+    ).toBeUndefined();
+    expect(policy.timeout).toEqual(DEFAULT_RETRY_POLICY.timeout);
+  });
+});
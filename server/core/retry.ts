@@ -0,0 +1,163 @@
+/**
+ * SENTINEL RETRY - Outcome classification and per-kind retry rules
+ * A failed scrape is sorted into a kind (network, timeout, 5xx, 429, other
+ * 4xx, unparseable body, selectors that matched nothing) and each kind has
+ * its own rule: how many retries, and the base and cap of an exponential
+ * backoff with jitter. Failures that won't change on their own, like a 404
+ * or a host that doesn't resolve, get no retries by default.
+ */
+
+export type ErrorKind =
+  | "network"
+  | "timeout"
+  | "http-5xx"
+  | "http-429"
+  | "http-4xx"
+  | "parse"
+  | "selector-empty"
+  | "other";
+
+export interface RetryRule {
+  /** Retries after the first attempt; 0 never retries */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type RetryPolicy = Record<ErrorKind, RetryRule>;
+
+export type RetryOverrides = Partial<Record<ErrorKind, Partial<RetryRule>>>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  network: { retries: 2, baseDelayMs: 1_000, maxDelayMs: 10_000 },
+  timeout: { retries: 2, baseDelayMs: 2_000, maxDelayMs: 20_000 },
+  "http-5xx": { retries: 3, baseDelayMs: 1_000, maxDelayMs: 30_000 },
+  // Politeness already waits out Retry-After; this spaces the retries further
+  "http-429": { retries: 3, baseDelayMs: 5_000, maxDelayMs: 60_000 },
+  "http-4xx": { retries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+  parse: { retries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+  // Often a challenge page or a half-rendered response; worth one more look
+  "selector-empty": { retries: 1, baseDelayMs: 2_000, maxDelayMs: 2_000 },
+  other: { retries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+};
+
+export const ERROR_KINDS = Object.keys(DEFAULT_RETRY_POLICY) as ErrorKind[];
+
+// Network errors that a retry seconds later won't fix
+const PERMANENT_CODES = new Set([
+  "ENOTFOUND",
+  "ERR_INVALID_URL",
+  "CERT_HAS_EXPIRED",
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+]);
+const TIMEOUT_CODES = new Set([
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "ESOCKETTIMEDOUT",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+]);
+
+/** A failure whose kind is already known, e.g. a 404 or a schema error. */
+export class ScrapeError extends Error {
+  constructor(
+    readonly kind: ErrorKind,
+    message: string,
+    readonly status?: number,
+    /** Whatever was extracted before the failure was noticed */
+    readonly data?: Record<string, any>,
+  ) {
+    super(message);
+    this.name = "ScrapeError";
+  }
+}
+
+export interface Failure {
+  kind: ErrorKind;
+  status?: number;
+  /** Never retried whatever the rule says, e.g. DNS resolution failures */
+  permanent: boolean;
+  message: string;
+}
+
+/** The kind of an HTTP status that failed, or undefined for a success. */
+export function statusKind(status: number): ErrorKind | undefined {
+  if (status === 429) return "http-429";
+  if (status >= 500) return "http-5xx";
+  if (status >= 400) return "http-4xx";
+  return undefined;
+}
+
+/**
+ * Sort a thrown error into a kind. Understands `ScrapeError`, axios-style
+ * errors (`response.status`, `code`) and Node/undici network error codes.
+ */
+export function classifyError(error: unknown): Failure {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ScrapeError) {
+    return {
+      kind: error.kind,
+      status: error.status,
+      permanent: false,
+      message,
+    };
+  }
+
+  const e = (error ?? {}) as {
+    name?: string;
+    code?: string;
+    response?: { status?: number };
+    cause?: { code?: string };
+  };
+  const status = e.response?.status;
+  const kind = status !== undefined ? statusKind(status) : undefined;
+  if (kind) return { kind, status, permanent: false, message };
+
+  const code = e.code ?? e.cause?.code;
+  if (
+    e.name === "TimeoutError" ||
+    (code && TIMEOUT_CODES.has(code)) ||
+    /timeout/i.test(message)
+  ) {
+    return { kind: "timeout", permanent: false, message };
+  }
+  if (code && (PERMANENT_CODES.has(code) || /^E[A-Z_]+$/.test(code))) {
+    return { kind: "network", permanent: PERMANENT_CODES.has(code), message };
+  }
+  return { kind: "other", permanent: false, message };
+}
+
+/** Overlay per-kind overrides on the defaults. */
+export function mergeRetryPolicy(
+  overrides: RetryOverrides = {},
+  base: RetryPolicy = DEFAULT_RETRY_POLICY,
+): RetryPolicy {
+  const policy = { ...base };
+  for (const kind of ERROR_KINDS) {
+    policy[kind] = { ...base[kind], ...overrides[kind] };
+  }
+  return policy;
+}
+
+/**
+ * How long to wait before retry number `attempt` (1-based) of `failure`, or
+ * undefined when it shouldn't be retried. The exponential delay is jittered
+ * between half and all of itself so a batch's retries don't arrive together.
+ */
+export function retryDelay(
+  policy: RetryPolicy,
+  failure: Failure,
+  attempt: number,
+  random: () => number = Math.random,
+): number | undefined {
+  const rule = policy[failure.kind];
+  if (failure.permanent || attempt > rule.retries) return undefined;
+  const delay = Math.min(
+    rule.maxDelayMs,
+    rule.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { groupFor, isAllowed, parseRobots } from "./robots";
+
+const robots = parseRobots(`
+# Example robots.txt
+User-agent: *
+Disallow: /private/
+Allow: /private/public-page
+Disallow: /*.pdf$
+Crawl-delay: 2
+
+User-agent: SentinelScraper
+User-agent: OtherBot
+Disallow: /search
+Allow: /search/about
+Crawl-delay: 5
+
+User-agent: sentinelscraper
+Disallow: /tmp
+
+Sitemap: https://example.com/sitemap.xml
+`);
+
+const url = (path: string) => `https://example.com${path}`;
+
+describe("parseRobots", () => {
+  it("groups consecutive user-agent lines and collects sitemaps", () => {
+    expect(robots.groups).toHaveLength(3);
+    expect(robots.groups[1].agents).toEqual(["sentinelscraper", "otherbot"]);
+    expect(robots.sitemaps).toEqual(["https://example.com/sitemap.xml"]);
+  });
+});
+
+describe("groupFor", () => {
+  it("merges every group for the most specific token", () => {
+    const group = groupFor(robots, "Mozilla/5.0 SentinelScraper/1.0");
+    expect(group.agents).toEqual(["sentinelscraper"]);
+    expect(group.rules.map((r) => r.path)).toEqual([
+      "/search",
+      "/search/about",
+      "/tmp",
+    ]);
+    expect(group.crawlDelay).toBe(5);
+  });
+
+  it("falls back to the * group", () => {
+    expect(groupFor(robots, "SomeOtherCrawler").crawlDelay).toBe(2);
+  });
+});
+
+describe("isAllowed", () => {
+  it("applies the longest matching rule", () => {
+    const ua = "AnyBot";
+    expect(isAllowed(robots, url("/private/x"), ua).allowed).toBe(false);
+    expect(isAllowed(robots, url("/private/public-page"), ua).allowed).toBe(
+      true,
+    );
+    expect(isAllowed(robots, url("/about"), ua).allowed).toBe(true);
+  });
+
+  it("supports * and $ wildcards", () => {
+    const ua = "AnyBot";
+    expect(isAllowed(robots, url("/docs/file.pdf"), ua).allowed).toBe(false);
+    expect(isAllowed(robots, url("/docs/file.pdf?x=1"), ua).allowed).toBe(true);
+  });
+
+  it("uses only the specific group when one matches", () => {
+    expect(isAllowed(robots, url("/private/x")).allowed).toBe(true);
+    expect(isAllowed(robots, url("/search?q=1")).allowed).toBe(false);
+    expect(isAllowed(robots, url("/search/about")).allowed).toBe(true);
+    expect(isAllowed(robots, url("/tmp/a")).crawlDelay).toBe(5);
+  });
+
+  it("lets Allow win a tie of equal length", () => {
+    const tie = parseRobots("User-agent: *\nDisallow: /page\nAllow: /page");
+    expect(isAllowed(tie, url("/page")).allowed).toBe(true);
+  });
+
+  it("allows everything for an empty file or empty Disallow", () => {
+    expect(isAllowed(parseRobots(""), url("/x")).allowed).toBe(true);
+    const open = parseRobots("User-agent: *\nDisallow:");
+    expect(isAllowed(open, url("/x")).allowed).toBe(true);
+  });
+
+  it("disallows everything when robots.txt was unreachable", () => {
+    const verdict = isAllowed(
+      { groups: [], sitemaps: [], unreachable: true },
+      url("/x"),
+    );
+    expect(verdict).toEqual({ allowed: false, unreachable: true });
+  });
+});
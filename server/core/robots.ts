@@ -0,0 +1,239 @@
+/**
+ * SENTINEL ROBOTS - robots.txt fetching, parsing and caching
+ * Follows RFC 9309: the most specific matching user-agent group applies,
+ * the longest matching rule wins with Allow winning ties, and `*` / `$`
+ * wildcards are supported. Crawl-delay is kept as an extension.
+ */
+
+export const ROBOTS_USER_AGENT = "SentinelScraper";
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+  /** Set when robots.txt could not be fetched and everything is disallowed */
+  unreachable?: boolean;
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  unreachable?: boolean;
+  /** Seconds between requests the site asks for, if any */
+  crawlDelay?: number;
+}
+
+// Parsers must handle at least 500 KiB; anything after that is ignored
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+export function parseRobots(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | undefined;
+  // Consecutive user-agent lines share one group
+  let collectingAgents = false;
+
+  for (const raw of text.slice(0, MAX_ROBOTS_BYTES).split(/\r\n|\r|\n/)) {
+    const line = raw.replace(/#.*$/, "").trim();
+    const m = line.match(/^([A-Za-z-]+)\s*:\s*(.*)$/);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2].trim();
+
+    if (key === "user-agent") {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+    if (key === "sitemap") {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+    collectingAgents = false;
+    if (!current) continue;
+    if (key === "allow" || key === "disallow") {
+      // An empty Disallow means "allow everything" and adds no rule
+      if (value) current.rules.push({ allow: key === "allow", path: value });
+    } else if (key === "crawl-delay") {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+  return { groups, sitemaps };
+}
+
+/**
+ * The rules that apply to `userAgent`: every group naming the longest
+ * product token found in it, merged, falling back to the `*` groups.
+ */
+export function groupFor(robots: RobotsTxt, userAgent: string): RobotsGroup {
+  const ua = userAgent.toLowerCase();
+  let best = "";
+  for (const g of robots.groups) {
+    for (const agent of g.agents) {
+      if (agent !== "*" && ua.includes(agent) && agent.length > best.length) {
+        best = agent;
+      }
+    }
+  }
+  const token = best || "*";
+  const matching = robots.groups.filter((g) => g.agents.includes(token));
+  const delays = matching
+    .map((g) => g.crawlDelay)
+    .filter((d): d is number => d !== undefined);
+  return {
+    agents: [token],
+    rules: matching.flatMap((g) => g.rules),
+    crawlDelay: delays.length ? Math.max(...delays) : undefined,
+  };
+}
+
+export function isAllowed(
+  robots: RobotsTxt,
+  url: string,
+  userAgent = ROBOTS_USER_AGENT,
+): RobotsVerdict {
+  if (robots.unreachable) return { allowed: false, unreachable: true };
+  const group = groupFor(robots, userAgent);
+  const { pathname, search } = new URL(url);
+  const target = normalizePath(pathname + search);
+  // robots.txt itself is always allowed
+  if (pathname === "/robots.txt")
+    return { allowed: true, crawlDelay: group.crawlDelay };
+
+  let match: RobotsRule | undefined;
+  for (const rule of group.rules) {
+    if (!ruleMatches(rule.path, target)) continue;
+    const len = rule.path.length;
+    if (
+      !match ||
+      len > match.path.length ||
+      (len === match.path.length && rule.allow && !match.allow)
+    ) {
+      match = rule;
+    }
+  }
+  return { allowed: match ? match.allow : true, crawlDelay: group.crawlDelay };
+}
+
+function ruleMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = normalizePath(anchored ? pattern.slice(0, -1) : pattern);
+  const regex = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}${anchored ? "$" : ""}`).test(path);
+}
+
+/** Percent-encode characters the same way on both sides of a comparison. */
+function normalizePath(path: string): string {
+  try {
+    return encodeURI(decodeURI(path));
+  } catch {
+    return path;
+  }
+}
+
+interface CacheEntry {
+  robots: RobotsTxt;
+  expires: number;
+}
+
+export interface RobotsCacheOptions {
+  ttl: number;
+  /** How long an unreachable robots.txt blocks the host before a retry */
+  errorTtl: number;
+  timeout: number;
+}
+
+/**
+ * Fetches and caches robots.txt per origin. Per RFC 9309 a missing (4xx)
+ * file allows everything, while a server error or unreachable host is
+ * treated as a full disallow until `errorTtl` passes.
+ */
+export class RobotsCache {
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<RobotsTxt>>();
+  private options: RobotsCacheOptions;
+
+  constructor(options: Partial<RobotsCacheOptions> = {}) {
+    this.options = {
+      ttl: 24 * 60 * 60_000,
+      errorTtl: 10 * 60_000,
+      timeout: 10_000,
+      ...options,
+    };
+  }
+
+  async check(
+    url: string,
+    userAgent = ROBOTS_USER_AGENT,
+  ): Promise<RobotsVerdict> {
+    const robots = await this.get(new URL(url).origin, userAgent);
+    return isAllowed(robots, url, userAgent);
+  }
+
+  async get(origin: string, userAgent = ROBOTS_USER_AGENT): Promise<RobotsTxt> {
+    const cached = this.entries.get(origin);
+    if (cached && cached.expires > Date.now()) return cached.robots;
+    if (!this.pending.has(origin)) {
+      const load = this.load(origin, userAgent).finally(() =>
+        this.pending.delete(origin),
+      );
+      this.pending.set(origin, load);
+    }
+    return this.pending.get(origin)!;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private async load(origin: string, userAgent: string): Promise<RobotsTxt> {
+    let robots: RobotsTxt;
+    let ttl = this.options.ttl;
+    try {
+      const res = await fetch(`${origin}/robots.txt`, {
+        redirect: "follow",
+        signal: AbortSignal.timeout(this.options.timeout),
+        headers: { "user-agent": userAgent },
+      });
+      if (res.ok) {
+        robots = parseRobots(await res.text());
+      } else if (res.status >= 400 && res.status < 500) {
+        robots = { groups: [], sitemaps: [] };
+      } else {
+        robots = DISALLOW_ALL;
+        ttl = this.options.errorTtl;
+      }
+    } catch {
+      robots = DISALLOW_ALL;
+      ttl = this.options.errorTtl;
+    }
+    this.entries.set(origin, { robots, expires: Date.now() + ttl });
+    return robots;
+  }
+}
+
+const DISALLOW_ALL: RobotsTxt = { groups: [], sitemaps: [], unreachable: true };
+
+/** Shared cache for the HTTP endpoints and engines in this process. */
+export const robotsCache = new RobotsCache();
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import { coerce, extractSchema, schemaFailure, validateSchema } from "./schema";
+
+const html = `
+  <h1> Catalog </h1>
+  <time datetime="2025-03-01T10:00:00Z">March 1</time>
+  <ul>
+    <li class="product" data-sku="A1">
+      <a href="/p/a1">Alpha</a><span class="price">$1,299.00</span>
+      <span class="badge">In stock</span>
+    </li>
+    <li class="product" data-sku="B2">
+      <a href="/p/b2">Beta</a><span class="price">n/a</span>
+    </li>
+  </ul>`;
+
+describe("extractSchema", () => {
+  it("returns a fixed shape with typed values and nested lists", () => {
+    const { data, errors } = extractSchema(
+      html,
+      {
+        title: "h1",
+        updated: { selector: "time", attribute: "datetime", type: "date" },
+        products: {
+          selector: ".product",
+          items: {
+            sku: { attribute: "data-sku" },
+            name: "a",
+            link: { selector: "a", attribute: "href", type: "url" },
+            price: { selector: ".price", type: "number", default: 0 },
+            inStock: { selector: ".badge", type: "boolean" },
+          },
+        },
+        tags: { selector: ".tag", multiple: true },
+      },
+      "https://shop.example/catalog",
+    );
+    expect(errors).toEqual([]);
+    expect(data).toEqual({
+      title: "Catalog",
+      updated: "2025-03-01T10:00:00.000Z",
+      products: [
+        {
+          sku: "A1",
+          name: "Alpha",
+          link: "https://shop.example/p/a1",
+          price: 1299,
+          inStock: true,
+        },
+        {
+          sku: "B2",
+          name: "Beta",
+          link: "https://shop.example/p/b2",
+          price: 0,
+          inStock: false,
+        },
+      ],
+      tags: [],
+    });
+  });
+
+  it("reports missing required fields with their path", () => {
+    const { data, errors } = extractSchema(html, {
+      subtitle: { selector: "h2", required: true },
+      products: {
+        selector: ".product",
+        items: {
+          price: { selector: ".price", type: "number", required: true },
+        },
+      },
+    });
+    expect(data.subtitle).toBeNull();
+    expect(errors).toEqual([
+      "subtitle: required",
+      "products[1].price: required",
+    ]);
+  });
+});
+
+describe("coerce", () => {
+  it("parses numbers with either decimal mark", () => {
+    expect(coerce("1.299,50 €", "number")).toBe(1299.5);
+    expect(coerce("-3.5%", "number")).toBe(-3.5);
+    expect(coerce("12,000", "number")).toBe(12000);
+    expect(coerce("free", "number")).toBeNull();
+  });
+
+  it("treats booleans as presence unless the value says no", () => {
+    expect(coerce("", "boolean")).toBe(true);
+    expect(coerce("false", "boolean")).toBe(false);
+    expect(coerce(undefined, "boolean")).toBe(false);
+  });
+});
+
+describe("validateSchema", () => {
+  it("rejects bad selectors, types and list definitions", () => {
+    expect(validateSchema({ a: "a[" })).toMatch(/^a: invalid css selector/);
+    expect(
+      validateSchema({ a: { selector: "//a[", language: "xpath" } }),
+    ).toMatch(/^a: invalid xpath selector/);
+    expect(validateSchema({ a: { selector: "a", type: "money" } })).toMatch(
+      /unknown type/,
+    );
+    expect(validateSchema({ l: { selector: "li", items: { x: 5 } } })).toBe(
+      "l.x: must be a selector string or an object",
+    );
+    expect(validateSchema({ a: "a", l: { selector: "li", items: {} } })).toBe(
+      undefined,
+    );
+  });
+});
+
+describe("extractSchema on JSON", () => {
+  it("evaluates JSONPath against the decoded body and list items", () => {
+    const body = JSON.stringify({
+      total: "2",
+      items: [
+        { name: "Alpha", price: 12.5, url: "/a", stock: true },
+        { name: "Beta", price: null, url: "/b", stock: false },
+      ],
+    });
+    const { data, errors } = extractSchema(
+      body,
+      {
+        total: { selector: "$.total", type: "number" },
+        products: {
+          selector: "$.items[*]",
+          items: {
+            name: "name",
+            price: { selector: "@.price", type: "number" },
+            link: { selector: "url", type: "url" },
+            inStock: { selector: "stock", type: "boolean" },
+          },
+        },
+      },
+      "https://api.example/v1/",
+      "application/json",
+    );
+    expect(errors).toEqual([]);
+    expect(data).toEqual({
+      total: 2,
+      products: [
+        {
+          name: "Alpha",
+          price: 12.5,
+          link: "https://api.example/a",
+          inStock: true,
+        },
+        {
+          name: "Beta",
+          price: null,
+          link: "https://api.example/b",
+          inStock: false,
+        },
+      ],
+    });
+  });
+});
+
+describe("schemaFailure", () => {
+  it("fails missing required fields as selector-empty, anything else as parse", () => {
+    const missing = schemaFailure({
+      data: { title: "Catalog" },
+      errors: ["price: required"],
+    });
+    expect(missing).toMatchObject({
+      kind: "selector-empty",
+      message: "Schema errors: price: required",
+      data: { title: "Catalog" },
+    });
+    expect(
+      schemaFailure({
+        data: {},
+        errors: ["price: required", "link: invalid xpath selector"],
+      }).kind,
+    ).toBe("parse");
+  });
+});
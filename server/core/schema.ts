@@ -0,0 +1,263 @@
+/**
+ * SENTINEL SCHEMA - Declarative extraction with typed fields and nested lists
+ * A schema maps output keys to fields or lists. Fields return exactly one
+ * value (or an array with `multiple`), coerced to their `type`; lists return
+ * an array of objects extracted per matched item. The shape of the output
+ * therefore depends only on the schema, never on how many nodes matched.
+ * Selectors may be CSS, XPath, JSONPath or regex; on a JSON response list
+ * items are JSON values and field selectors are evaluated against them.
+ */
+
+import {
+  ParsedBody,
+  SelectorLanguage,
+  matchValue,
+  parseBody,
+  rootScope,
+  selectMatches,
+  validateSelector,
+} from "./selectors";
+import { ScrapeError } from "./retry";
+
+export type FieldType =
+  | "string"
+  | "number"
+  | "date"
+  | "url"
+  | "boolean"
+  | "html";
+
+export interface FieldSchema {
+  /** CSS selector relative to the enclosing list item; omit for the item itself */
+  selector?: string;
+  /** Defaults to css for HTML responses and jsonpath for JSON ones */
+  language?: SelectorLanguage;
+  /** Read an attribute (`href`, `src`, `data-*`) instead of the text */
+  attribute?: string;
+  type?: FieldType;
+  /** Return every match as an array instead of the first one */
+  multiple?: boolean;
+  /** Used when nothing matched or the value couldn't be coerced */
+  default?: unknown;
+  /** A missing value is reported as an extraction error */
+  required?: boolean;
+}
+
+export interface ListSchema {
+  /** Selects the repeated items; `items` is extracted within each one */
+  selector: string;
+  language?: SelectorLanguage;
+  items: ExtractionSchema;
+  /** An empty list is reported as an extraction error */
+  required?: boolean;
+}
+
+/** A bare string is shorthand for `{ selector }`: the first match's text. */
+export type SchemaEntry = string | FieldSchema | ListSchema;
+export type ExtractionSchema = Record<string, SchemaEntry>;
+
+export interface SchemaResult {
+  data: Record<string, unknown>;
+  /** Missing required values and invalid selectors, as `path: reason` */
+  errors: string[];
+}
+
+const FIELD_TYPES: FieldType[] = [
+  "string",
+  "number",
+  "date",
+  "url",
+  "boolean",
+  "html",
+];
+const FALSE_WORDS = /^(false|no|n|0|off)$/i;
+
+function isList(entry: SchemaEntry): entry is ListSchema {
+  return typeof entry === "object" && "items" in entry;
+}
+
+/** Check a schema's structure, types and selectors before scraping with it. */
+export function validateSchema(
+  schema: unknown,
+  prefix = "",
+): string | undefined {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    return `${prefix || "schema"}: must be an object`;
+  }
+  for (const [key, entry] of Object.entries(schema)) {
+    const at = prefix + key;
+    if (typeof entry === "string") {
+      const error = validateSelector(entry);
+      if (error) return `${at}: ${error}`;
+      continue;
+    }
+    if (!entry || typeof entry !== "object") {
+      return `${at}: must be a selector string or an object`;
+    }
+    const error =
+      entry.selector !== undefined || entry.language !== undefined
+        ? validateSelector(entry)
+        : undefined;
+    if (error) return `${at}: ${error}`;
+    if ("items" in entry) {
+      if (!entry.selector) return `${at}: lists need a selector`;
+      const nested = validateSchema(entry.items, `${at}.`);
+      if (nested) return nested;
+    } else if (entry.type !== undefined && !FIELD_TYPES.includes(entry.type)) {
+      return `${at}: unknown type '${entry.type}'`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * An extraction with errors as the ScrapeError both engines fail it with:
+ * selector-empty when only required fields are missing, parse otherwise.
+ */
+export function schemaFailure({ data, errors }: SchemaResult): ScrapeError {
+  const kind = errors.every((error) => error.endsWith(": required"))
+    ? "selector-empty"
+    : "parse";
+  return new ScrapeError(
+    kind,
+    `Schema errors: ${errors.join("; ")}`,
+    undefined,
+    data,
+  );
+}
+
+/**
+ * Extract `schema` from a response body, parsed as JSON or HTML according to
+ * `contentType`; `baseUrl` resolves url fields.
+ */
+export function extractSchema(
+  body: string,
+  schema: ExtractionSchema,
+  baseUrl?: string,
+  contentType?: string,
+): SchemaResult {
+  const doc = parseBody(body, contentType);
+  const errors: string[] = [];
+  const data = extractScope(doc, rootScope(doc), schema, baseUrl, "", errors);
+  return { data, errors };
+}
+
+function extractScope(
+  doc: ParsedBody,
+  scope: unknown,
+  schema: ExtractionSchema,
+  baseUrl: string | undefined,
+  prefix: string,
+  errors: string[],
+): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(schema)) {
+    const at = prefix + key;
+    const entry: FieldSchema | ListSchema =
+      typeof raw === "string" ? { selector: raw } : raw;
+    let matches: unknown[];
+    try {
+      matches = entry.selector
+        ? selectMatches(doc, entry as { selector: string }, scope)
+        : [scope];
+    } catch (e: any) {
+      errors.push(`${at}: ${e?.message ?? "invalid selector"}`);
+      out[key] = isList(entry) ? [] : null;
+      continue;
+    }
+
+    if (isList(entry)) {
+      out[key] = matches.map((item, i) =>
+        extractScope(doc, item, entry.items, baseUrl, `${at}[${i}].`, errors),
+      );
+      if (entry.required && !matches.length) errors.push(`${at}: required`);
+      continue;
+    }
+    out[key] = extractField(doc, matches, entry, baseUrl, at, errors);
+  }
+  return out;
+}
+
+function extractField(
+  doc: ParsedBody,
+  matches: unknown[],
+  field: FieldSchema,
+  baseUrl: string | undefined,
+  at: string,
+  errors: string[],
+): unknown {
+  const type = field.type ?? "string";
+  const nodes = field.multiple ? matches : matches.slice(0, 1);
+  const values = nodes
+    .map((match) =>
+      coerce(
+        matchValue(doc, match, {
+          attribute: field.attribute,
+          html: type === "html",
+        }),
+        type,
+        baseUrl,
+      ),
+    )
+    .filter((v) => v !== null);
+
+  if (field.multiple) {
+    if (values.length) return values;
+    if (field.required) errors.push(`${at}: required`);
+    return field.default ?? [];
+  }
+  if (values.length) return values[0];
+  if (field.required) errors.push(`${at}: required`);
+  // A boolean with nothing matched is false, e.g. a missing "in stock" badge
+  return field.default ?? (type === "boolean" ? false : null);
+}
+
+/** Coerce a raw string to `type`; null when it can't be. */
+export function coerce(
+  raw: string | undefined,
+  type: FieldType,
+  baseUrl?: string,
+): unknown {
+  // Booleans read presence: a matched node (or attribute) is true unless it
+  // says otherwise, so a missing `disabled` attribute is false
+  if (type === "boolean") {
+    return raw !== undefined && !FALSE_WORDS.test(raw.trim());
+  }
+  if (raw === undefined) return null;
+  const value = type === "html" ? raw.trim() : raw.replace(/\s+/g, " ").trim();
+  switch (type) {
+    case "number":
+      return parseNumber(value);
+    case "date": {
+      const t = Date.parse(value);
+      return Number.isNaN(t) ? null : new Date(t).toISOString();
+    }
+    case "url":
+      try {
+        return value ? new URL(value, baseUrl).href : null;
+      } catch {
+        return null;
+      }
+    default:
+      return value === "" ? null : value;
+  }
+}
+
+/**
+ * Read the first number in text such as "$1,299.00" or "1.299,00 €". The
+ * last `.` or `,` followed by one or two digits is taken as the decimal mark.
+ */
+function parseNumber(text: string): number | null {
+  const match = text.match(/-?\d[\d.,\s]*/);
+  if (!match) return null;
+  let digits = match[0].replace(/\s/g, "").replace(/[.,]$/, "");
+  const decimal = digits.match(/[.,](\d{1,2})$/);
+  if (decimal) {
+    const intPart = digits.slice(0, -decimal[0].length).replace(/[.,]/g, "");
+    digits = `${intPart}.${decimal[1]}`;
+  } else {
+    digits = digits.replace(/[.,]/g, "");
+  }
+  const n = Number(digits);
+  return Number.isFinite(n) ? n : null;
+}
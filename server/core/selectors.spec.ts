@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { extractSelectors, parseBody, validateSelector } from "./selectors";
+
+const html = `
+  <h1>Widget</h1>
+  <dl><dt>Price</dt><dd>$19.99</dd><dt>SKU</dt><dd>W-1</dd></dl>
+  <script>window.__STATE__ = {"stock": 42};</script>`;
+
+describe("parseBody", () => {
+  it("decodes JSON by content type or by sniffing", () => {
+    expect(parseBody('{"a":1}', "application/json").kind).toBe("json");
+    expect(parseBody('{"a":1}', "application/vnd.api+json").kind).toBe("json");
+    expect(parseBody("[1, 2]", "text/plain").kind).toBe("json");
+    expect(parseBody("[1, 2]", "text/html").kind).toBe("html");
+    expect(parseBody("{oops", "application/json").kind).toBe("html");
+  });
+});
+
+describe("extractSelectors", () => {
+  it("mixes css, xpath and regex entries on HTML", () => {
+    const { data, errors } = extractSelectors(parseBody(html, "text/html"), {
+      name: "h1",
+      price: {
+        selector: "//dt[.='Price']/following-sibling::dd[1]",
+        language: "xpath",
+      },
+      details: "dd",
+      stock: { selector: '"stock":\\s*(\\d+)', language: "regex" },
+      missing: ".nope",
+    });
+    expect(errors).toEqual([]);
+    expect(data).toEqual({
+      name: "Widget",
+      price: "$19.99",
+      details: ["$19.99", "W-1"],
+      stock: "42",
+    });
+  });
+
+  it("evaluates JSONPath directly on JSON responses", () => {
+    const doc = parseBody(
+      JSON.stringify({
+        items: [
+          { id: 1, name: "a" },
+          { id: 2, name: "b" },
+        ],
+      }),
+      "application/json",
+    );
+    const { data, errors } = extractSelectors(doc, {
+      names: "$.items[*].name",
+      first: { selector: "$.items[0]", attribute: "id" },
+      title: { selector: "h1", language: "css" },
+    });
+    expect(data).toEqual({ names: ["a", "b"], first: "1", title: null });
+    expect(errors).toEqual([
+      {
+        field: "title",
+        selector: { selector: "h1", language: "css" },
+        error: "css selectors need an HTML response",
+      },
+    ]);
+  });
+});
+
+describe("validateSelector", () => {
+  it("checks the language and the syntax", () => {
+    expect(validateSelector("div > a")).toBeUndefined();
+    expect(validateSelector("$.items[*]")).toBeUndefined();
+    expect(validateSelector({ selector: "a", language: "sql" })).toMatch(
+      /unknown selector language/,
+    );
+    expect(validateSelector({ selector: "(", language: "regex" })).toMatch(
+      /invalid regex selector/,
+    );
+    expect(validateSelector({ selector: " " })).toBe("needs a selector");
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * SENTINEL SELECTORS - Selector entries in CSS, XPath, JSONPath or regex
+ * A response body is parsed once: JSON bodies are never handed to the HTML
+ * parser, so JSONPath runs directly on the decoded value. Entries that don't
+ * name a language use the natural one for the body: CSS for HTML, JSONPath
+ * for JSON. Regexes run over the raw body (or the matched scope's markup).
+ */
+
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import { AnyNode, isComment, isText } from "domhandler";
+import { compileJsonPath, queryJsonPath } from "./jsonPath";
+import { XPathAttribute, compileXPath, evaluateXPath } from "./xpath";
+
+export type SelectorLanguage = "css" | "xpath" | "jsonpath" | "regex";
+
+export const SELECTOR_LANGUAGES: SelectorLanguage[] = [
+  "css",
+  "xpath",
+  "jsonpath",
+  "regex",
+];
+
+export interface SelectorSpec {
+  selector: string;
+  /** Defaults to css for HTML responses and jsonpath for JSON ones */
+  language?: SelectorLanguage;
+  /** Read this attribute of matched elements instead of their text */
+  attribute?: string;
+}
+
+/** A bare string is a selector in the body's default language. */
+export type SelectorEntry = string | SelectorSpec;
+
+export type ParsedBody =
+  | { kind: "html"; $: CheerioAPI; raw: string }
+  | { kind: "json"; data: unknown; raw: string };
+
+export class SelectorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SelectorError";
+  }
+}
+
+/** application/json, text/json and structured `+json` types. */
+export function isJsonContentType(contentType?: string): boolean {
+  const type = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  return /^(application|text)\/json$/.test(type) || type.endsWith("+json");
+}
+
+/**
+ * Decode a response body by its Content-Type. Bodies without an HTML or XML
+ * type that look like JSON are sniffed, since many APIs send text/plain.
+ */
+export function parseBody(body: string, contentType?: string): ParsedBody {
+  const markup = /html|xml/i.test(contentType ?? "");
+  const looksJson = /^\s*[[{]/.test(body);
+  if (isJsonContentType(contentType) || (!markup && looksJson)) {
+    try {
+      return { kind: "json", data: JSON.parse(body), raw: body };
+    } catch {
+      // Mislabelled or truncated JSON: fall through to the HTML parser
+    }
+  }
+  return { kind: "html", $: cheerio.load(body), raw: body };
+}
+
+/** The value selectors are evaluated against when no scope is given. */
+export function rootScope(doc: ParsedBody): unknown {
+  return doc.kind === "json" ? doc.data : doc.$.root().get(0);
+}
+
+/** A string, or an object with a string `selector`; the language is checked separately. */
+function isSelectorEntry(entry: unknown): entry is SelectorEntry {
+  return (
+    typeof entry === "string" ||
+    (typeof entry === "object" &&
+      entry !== null &&
+      typeof (entry as { selector?: unknown }).selector === "string")
+  );
+}
+
+function normalize(entry: SelectorEntry): SelectorSpec {
+  return typeof entry === "string" ? { selector: entry } : entry;
+}
+
+function languageFor(doc: ParsedBody, spec: SelectorSpec): SelectorLanguage {
+  return spec.language ?? (doc.kind === "json" ? "jsonpath" : "css");
+}
+
+/**
+ * Every match of `entry` within `scope`: DOM nodes for CSS and XPath, JSON
+ * values for JSONPath, strings for regexes and scalar XPath results. Throws
+ * `SelectorError` when the language doesn't apply to the body.
+ */
+export function selectMatches(
+  doc: ParsedBody,
+  entry: SelectorEntry,
+  scope: unknown = rootScope(doc),
+): unknown[] {
+  const spec = normalize(entry);
+  const language = languageFor(doc, spec);
+  switch (language) {
+    case "css":
+      if (doc.kind !== "html") {
+        throw new SelectorError("css selectors need an HTML response");
+      }
+      return doc
+        .$(scope as AnyNode)
+        .find(spec.selector)
+        .toArray();
+    case "xpath": {
+      if (doc.kind !== "html") {
+        throw new SelectorError("xpath selectors need an HTML response");
+      }
+      const value = evaluateXPath(spec.selector, scope);
+      return Array.isArray(value) ? value : [String(value)];
+    }
+    case "jsonpath":
+      if (doc.kind !== "json") {
+        throw new SelectorError("jsonpath selectors need a JSON response");
+      }
+      return queryJsonPath(spec.selector, doc.data, scope);
+    case "regex":
+      return matchRegex(spec.selector, scopeText(doc, scope));
+    default:
+      throw new SelectorError(`Unknown selector language '${language}'`);
+  }
+}
+
+function scopeText(doc: ParsedBody, scope: unknown): string {
+  if (scope === rootScope(doc)) return doc.raw;
+  if (doc.kind === "json") return JSON.stringify(scope) ?? "";
+  return doc.$.html(scope as AnyNode);
+}
+
+/** `/pattern/flags` or a bare pattern. */
+function toRegExp(selector: string): RegExp {
+  const literal = /^\/(.+)\/([a-z]*)$/s.exec(selector);
+  const [source, flags] = literal ? [literal[1], literal[2]] : [selector, ""];
+  return new RegExp(source, flags.includes("g") ? flags : flags + "g");
+}
+
+/** The first capture group of each match, or the whole match without one. */
+function matchRegex(selector: string, text: string): string[] {
+  return [...text.matchAll(toRegExp(selector))].map((m) =>
+    m.length > 1 ? (m[1] ?? "") : m[0],
+  );
+}
+
+/**
+ * The string a match stands for: an element's text (or `attribute`, or inner
+ * HTML with `html`), an attribute or text node's value, a JSON scalar, or a
+ * JSON object or array serialized. Undefined when there is nothing to read.
+ */
+export function matchValue(
+  doc: ParsedBody,
+  match: unknown,
+  { attribute, html }: { attribute?: string; html?: boolean } = {},
+): string | undefined {
+  if (typeof match === "string") return match;
+  if (doc.kind === "json") {
+    if (match === null || match === undefined) return undefined;
+    if (attribute && typeof match === "object") {
+      const value = (match as Record<string, unknown>)[attribute];
+      return value === null || value === undefined ? undefined : String(value);
+    }
+    return typeof match === "object" ? JSON.stringify(match) : String(match);
+  }
+  const node = match as AnyNode | XPathAttribute;
+  if (node.type === "attribute") return node.value;
+  if (isText(node) || isComment(node)) return node.data;
+  const $node = doc.$(node);
+  if (attribute) return $node.attr(attribute);
+  if (html) return $node.html() ?? undefined;
+  return $node.text();
+}
+
+/** Check an entry's language and syntax, returning a message if malformed. */
+export function validateSelector(entry: unknown): string | undefined {
+  if (!isSelectorEntry(entry)) return "needs a selector";
+  const spec = normalize(entry);
+  if (!spec.selector.trim()) return "needs a selector";
+  if (
+    spec.language !== undefined &&
+    !SELECTOR_LANGUAGES.includes(spec.language)
+  ) {
+    return `unknown selector language '${spec.language}'`;
+  }
+  // Without a language the body decides, so either default may accept it
+  const languages: SelectorLanguage[] = spec.language
+    ? [spec.language]
+    : ["css", "jsonpath"];
+  const errors = languages.map((language) =>
+    syntaxError(language, spec.selector),
+  );
+  return errors.includes(undefined) ? undefined : errors[0];
+}
+
+const emptyDocument = cheerio.load("");
+
+function syntaxError(
+  language: SelectorLanguage,
+  selector: string,
+): string | undefined {
+  try {
+    if (language === "css") emptyDocument(selector);
+    else if (language === "xpath") compileXPath(selector);
+    else if (language === "jsonpath") compileJsonPath(selector);
+    else toRegExp(selector);
+    return undefined;
+  } catch (e: any) {
+    return `invalid ${language} selector: ${e?.message ?? e}`;
+  }
+}
+
+export interface SelectorFailure {
+  field: string;
+  selector: SelectorEntry;
+  error: string;
+}
+
+/**
+ * Apply the engines' flat `selectors` map: one match gives its trimmed text,
+ * several give an array, none leaves the field out. A selector that fails
+ * yields null and is reported in `errors`.
+ */
+export function extractSelectors(
+  doc: ParsedBody,
+  selectors: Record<string, SelectorEntry>,
+): { data: Record<string, any>; errors: SelectorFailure[] } {
+  const data: Record<string, any> = {};
+  const errors: SelectorFailure[] = [];
+  for (const [field, entry] of Object.entries(selectors)) {
+    try {
+      const spec = normalize(entry);
+      const values = selectMatches(doc, spec)
+        .map((m) => matchValue(doc, m, { attribute: spec.attribute }))
+        .filter((v): v is string => v !== undefined)
+        .map((v) => v.trim());
+      if (values.length === 1) data[field] = values[0];
+      else if (values.length > 1) data[field] = values;
+    } catch (e: any) {
+      data[field] = null;
+      errors.push({ field, selector: entry, error: e?.message ?? String(e) });
+    }
+  }
+  return { data, errors };
+}
@@ -0,0 +1,205 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  SessionConfig,
+  SessionManager,
+  SessionStore,
+  cookieHeader,
+  looksLoggedOut,
+  mergeCookies,
+  parseSetCookie,
+} from "./sessions";
+
+const now = Date.parse("2026-01-01T00:00:00Z");
+
+describe("cookies", () => {
+  it("parses Set-Cookie with domain, path and Max-Age", () => {
+    expect(
+      parseSetCookie(
+        "sid=a=b; Domain=.shop.example; Path=/account; Max-Age=60; Secure; HttpOnly; SameSite=lax",
+        "https://www.shop.example/login",
+        now,
+      ),
+    ).toEqual({
+      name: "sid",
+      value: "a=b",
+      domain: ".shop.example",
+      path: "/account",
+      expires: now / 1000 + 60,
+      secure: true,
+      httpOnly: true,
+      sameSite: "Lax",
+    });
+    expect(
+      parseSetCookie("x=1; Domain=evil.example", "https://shop.example/"),
+    ).toBeUndefined();
+  });
+
+  it("sends only cookies matching host, path, scheme and expiry", () => {
+    const jar = [
+      "a=1; Path=/",
+      "b=2; Path=/account",
+      "c=3; Secure",
+      "d=4; Max-Age=0",
+    ].map((h) => parseSetCookie(h, "https://shop.example/", now)!);
+    expect(cookieHeader(jar, "https://shop.example/account/orders", now)).toBe(
+      "b=2; a=1; c=3",
+    );
+    expect(cookieHeader(jar, "http://shop.example/accounts", now)).toBe("a=1");
+    expect(cookieHeader(jar, "https://other.example/", now)).toBeUndefined();
+  });
+
+  it("replaces cookies by name, domain and path and drops expired ones", () => {
+    const set = (h: string) => parseSetCookie(h, "https://shop.example/", now)!;
+    const jar = mergeCookies(
+      [set("a=1"), set("b=2")],
+      [set("a=3"), set("b=; Max-Age=0")],
+      now,
+    );
+    expect(jar.map((c) => `${c.name}=${c.value}`)).toEqual(["a=3"]);
+  });
+});
+
+const config: SessionConfig = {
+  name: "shop",
+  login: {
+    type: "form",
+    url: "https://shop.example/login",
+    formSelector: "form#login",
+    fields: { user: "ada", password: "${env:SHOP_PASSWORD}" },
+  },
+  expiry: { loggedOutSelector: "a.sign-in" },
+};
+
+describe("looksLoggedOut", () => {
+  const response = {
+    requestedUrl: "https://shop.example/orders",
+    url: "https://shop.example/orders",
+    status: 200,
+  };
+
+  it("checks status, login redirects and the logged-out selector", () => {
+    expect(looksLoggedOut(config, response)).toBe(false);
+    expect(looksLoggedOut(config, { ...response, status: 401 })).toBe(true);
+    expect(
+      looksLoggedOut(config, {
+        ...response,
+        url: "https://shop.example/login/",
+      }),
+    ).toBe(true);
+    expect(
+      looksLoggedOut(config, {
+        ...response,
+        body: '<a class="sign-in">Sign in</a>',
+      }),
+    ).toBe(true);
+  });
+});
+
+describe("SessionManager", () => {
+  let dir: string;
+  const requests: Array<{
+    url: string;
+    method?: string;
+    body?: string;
+    cookie?: string;
+  }> = [];
+
+  // Login page sets a CSRF cookie; the POST redirects to /account with the session cookie
+  const fakeFetch = (async (url: string, init: RequestInit = {}) => {
+    const headers = init.headers as Record<string, string>;
+    requests.push({
+      url,
+      method: init.method,
+      body: init.body as string,
+      cookie: headers.cookie,
+    });
+    if (url.endsWith("/login") && init.method === "GET") {
+      return new Response(
+        '<form id="login" action="/session"><input type="hidden" name="csrf" value="t0k"><input name="user"><input type="submit" name="go"></form>',
+        { headers: { "set-cookie": "csrf=t0k; Path=/" } },
+      );
+    }
+    if (url.endsWith("/session")) {
+      return new Response(null, {
+        status: 303,
+        headers: {
+          location: "/account",
+          "set-cookie": "sid=s3cret; Path=/; HttpOnly",
+        },
+      });
+    }
+    return new Response("<p>Welcome</p>", {
+      headers: { "content-type": "text/html" },
+    });
+  }) as typeof fetch;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "sessions-"));
+    requests.length = 0;
+    process.env.SHOP_PASSWORD = "hunter2";
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+    delete process.env.SHOP_PASSWORD;
+  });
+
+  it("logs in through the form and persists the cookies", async () => {
+    const manager = new SessionManager(new SessionStore(dir), fakeFetch);
+    manager.define([config]);
+    const state = await manager.ensure("shop");
+
+    expect(requests[1]).toEqual({
+      url: "https://shop.example/session",
+      method: "POST",
+      body: "csrf=t0k&user=ada&password=hunter2",
+      cookie: "csrf=t0k",
+    });
+    expect(requests[2]).toMatchObject({
+      url: "https://shop.example/account",
+      method: "GET",
+    });
+    expect(cookieHeader(state.cookies, "https://shop.example/orders")).toBe(
+      "csrf=t0k; sid=s3cret",
+    );
+
+    // A second manager picks the session up from disk without logging in
+    const restarted = new SessionManager(new SessionStore(dir), fakeFetch);
+    restarted.define([config]);
+    requests.length = 0;
+    expect((await restarted.ensure("shop")).cookies).toEqual(state.cookies);
+    expect(requests).toEqual([]);
+  });
+
+  it("shares one re-login between callers holding the stale state", async () => {
+    const manager = new SessionManager(new SessionStore(dir), fakeFetch);
+    manager.define([config]);
+    const stale = await manager.ensure("shop");
+    requests.length = 0;
+    await new Promise((resolve) => setTimeout(resolve, 2));
+    const [a, b] = await Promise.all([
+      manager.refresh("shop", stale),
+      manager.refresh("shop", stale),
+    ]);
+    expect(a).toBe(b);
+    expect(a.loggedInAt).toBeGreaterThan(stale.loggedInAt);
+    expect(requests.filter((r) => r.method === "POST")).toHaveLength(1);
+  });
+
+  it("needs a browser for browser logins", async () => {
+    const manager = new SessionManager(new SessionStore(dir), fakeFetch);
+    manager.define([
+      {
+        name: "spa",
+        login: { type: "browser", url: "https://spa.example/", actions: [] },
+      },
+    ]);
+    await expect(manager.ensure("spa")).rejects.toThrow(/browser/);
+    expect(() => manager.define([{ ...config, name: "bad name" }])).toThrow(
+      /Invalid session/,
+    );
+  });
+});
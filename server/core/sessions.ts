@@ -0,0 +1,605 @@
+/**
+ * SENTINEL SESSIONS - Named logins shared by targets
+ * A session logs in once, by posting a form or by running browser actions,
+ * and persists its cookies and localStorage to disk. Targets name a session
+ * instead of carrying cookies. A response that looks logged out (a
+ * configured status, a redirect to the login page or a "logged-out" element)
+ * triggers one re-login, after which the request is retried.
+ * Form fields and typed text may reference `${env:NAME}` so passwords stay
+ * out of target definitions.
+ */
+
+import * as cheerio from "cheerio";
+import { readFileSync } from "fs";
+import { chmod, mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { BrowserAction, validateActions } from "./actions";
+import {
+  SelectorEntry,
+  parseBody,
+  selectMatches,
+  validateSelector,
+} from "./selectors";
+
+/** Cookie in puppeteer's shape: a leading dot marks a domain cookie. */
+export interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  /** Epoch seconds; -1 for a session cookie */
+  expires: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: "Strict" | "Lax" | "None";
+}
+
+export type LoginFlow =
+  | {
+      type: "form";
+      /** Page the form is on, or where the fields are posted without `formSelector` */
+      url: string;
+      fields: Record<string, string>;
+      /** Load `url` and post this form, hidden inputs (CSRF tokens) included */
+      formSelector?: string;
+    }
+  | {
+      type: "browser";
+      url: string;
+      actions: BrowserAction[];
+    };
+
+export interface ExpiryCheck {
+  /** Responses with these statuses mean logged out (default [401]) */
+  statuses?: number[];
+  /** An element only shown to logged-out visitors, e.g. the login link */
+  loggedOutSelector?: SelectorEntry;
+  /** Being redirected here means logged out (default: the login page) */
+  loginUrl?: string;
+}
+
+export interface SessionConfig {
+  name: string;
+  login: LoginFlow;
+  expiry?: ExpiryCheck;
+  /** Log in again after this long even if nothing looks expired */
+  maxAgeMs?: number;
+}
+
+export interface SessionState {
+  name: string;
+  cookies: StoredCookie[];
+  /** Per origin, as captured after a browser login */
+  localStorage: Record<string, Record<string, string>>;
+  loggedInAt: number;
+}
+
+/** Runs a browser login flow for engines that have a browser. */
+export type BrowserLogin = (
+  flow: Extract<LoginFlow, { type: "browser" }>,
+  session: SessionConfig,
+) => Promise<Pick<SessionState, "cookies" | "localStorage">>;
+
+export interface SessionResponse {
+  requestedUrl: string;
+  /** Final URL, after redirects */
+  url: string;
+  status: number;
+  body?: string;
+  contentType?: string;
+}
+
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+const MAX_REDIRECTS = 10;
+const LOGIN_TIMEOUT_MS = 30_000;
+
+/** Check a session definition, returning a message if malformed. */
+export function validateSession(config: unknown): string | undefined {
+  const c = config as Record<string, any>;
+  if (!c || typeof c !== "object") return "session must be an object";
+  if (typeof c.name !== "string" || !/^[\w.-]+$/.test(c.name)) {
+    return "session name may only contain letters, digits, '.', '_' and '-'";
+  }
+  const login = c.login;
+  if (!login || !isHttpUrl(login.url)) {
+    return "login needs an absolute http(s) url";
+  }
+  if (login.type === "form") {
+    if (!login.fields || typeof login.fields !== "object") {
+      return "form login needs fields";
+    }
+  } else if (login.type === "browser") {
+    const error = validateActions(login.actions);
+    if (error) return `browser login ${error}`;
+  } else {
+    return `unknown login type '${login.type}'`;
+  }
+  const selector = c.expiry?.loggedOutSelector;
+  if (selector !== undefined) {
+    const error = validateSelector(selector);
+    if (error) return `loggedOutSelector ${error}`;
+  }
+  return undefined;
+}
+
+function isHttpUrl(value: unknown): boolean {
+  try {
+    return /^https?:$/.test(new URL(String(value)).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/** Replace `${env:NAME}` references; a missing variable is an error. */
+export function resolveSecrets(value: string): string {
+  return value.replace(/\$\{env:([A-Za-z_][\w]*)\}/g, (_, name: string) => {
+    const secret = process.env[name];
+    if (secret === undefined) {
+      throw new SessionError(`Environment variable ${name} is not set`);
+    }
+    return secret;
+  });
+}
+
+/** Parse one Set-Cookie header received from `url`; undefined if rejected. */
+export function parseSetCookie(
+  header: string,
+  url: string,
+  now = Date.now(),
+): StoredCookie | undefined {
+  const [pair, ...attributes] = header.split(";");
+  const eq = pair.indexOf("=");
+  if (eq <= 0) return undefined;
+  const { hostname, pathname } = new URL(url);
+  const cookie: StoredCookie = {
+    name: pair.slice(0, eq).trim(),
+    value: pair.slice(eq + 1).trim(),
+    domain: hostname,
+    // Default path: the request path up to its last slash
+    path: pathname.slice(0, pathname.lastIndexOf("/")) || "/",
+    expires: -1,
+  };
+  let maxAge: number | undefined;
+  for (const attribute of attributes) {
+    const [rawKey, ...rest] = attribute.split("=");
+    const key = rawKey.trim().toLowerCase();
+    const value = rest.join("=").trim();
+    if (key === "domain" && value) {
+      const domain = value.replace(/^\./, "").toLowerCase();
+      // A server may only set cookies for its own domain or a parent of it
+      if (hostname !== domain && !hostname.endsWith(`.${domain}`)) {
+        return undefined;
+      }
+      cookie.domain = `.${domain}`;
+    } else if (key === "path" && value.startsWith("/")) {
+      cookie.path = value;
+    } else if (key === "expires") {
+      const at = Date.parse(value);
+      if (!Number.isNaN(at)) cookie.expires = Math.floor(at / 1000);
+    } else if (key === "max-age" && /^-?\d+$/.test(value)) {
+      maxAge = Number(value);
+    } else if (key === "secure") {
+      cookie.secure = true;
+    } else if (key === "httponly") {
+      cookie.httpOnly = true;
+    } else if (key === "samesite") {
+      const sameSite = value.toLowerCase();
+      if (sameSite === "strict") cookie.sameSite = "Strict";
+      else if (sameSite === "lax") cookie.sameSite = "Lax";
+      else if (sameSite === "none") cookie.sameSite = "None";
+    }
+  }
+  // Max-Age wins over Expires
+  if (maxAge !== undefined) cookie.expires = Math.floor(now / 1000) + maxAge;
+  return cookie;
+}
+
+function isExpired(cookie: StoredCookie, now: number): boolean {
+  return cookie.expires >= 0 && cookie.expires * 1000 <= now;
+}
+
+/** Whether the cookie would be sent with a request to `url`. */
+export function cookieMatches(
+  cookie: StoredCookie,
+  url: string,
+  now = Date.now(),
+): boolean {
+  const { protocol, hostname, pathname } = new URL(url);
+  if (isExpired(cookie, now)) return false;
+  if (cookie.secure && protocol !== "https:") return false;
+  const hostMatches = cookie.domain.startsWith(".")
+    ? hostname === cookie.domain.slice(1) || hostname.endsWith(cookie.domain)
+    : hostname === cookie.domain;
+  if (!hostMatches) return false;
+  return (
+    pathname === cookie.path ||
+    pathname.startsWith(
+      cookie.path.endsWith("/") ? cookie.path : `${cookie.path}/`,
+    )
+  );
+}
+
+/** `Cookie` header value for `url`, or undefined when nothing applies. */
+export function cookieHeader(
+  cookies: StoredCookie[],
+  url: string,
+  now = Date.now(),
+): string | undefined {
+  const sent = cookies.filter((c) => cookieMatches(c, url, now));
+  // Longer paths first, as browsers send them
+  sent.sort((a, b) => b.path.length - a.path.length);
+  return sent.length
+    ? sent.map((c) => `${c.name}=${c.value}`).join("; ")
+    : undefined;
+}
+
+/** Apply received cookies: same name, domain and path replace; expired ones delete. */
+export function mergeCookies(
+  jar: StoredCookie[],
+  received: StoredCookie[],
+  now = Date.now(),
+): StoredCookie[] {
+  const key = (c: StoredCookie) => `${c.name}\n${c.domain}\n${c.path}`;
+  const merged = new Map(jar.map((c) => [key(c), c]));
+  for (const cookie of received) {
+    if (isExpired(cookie, now)) merged.delete(key(cookie));
+    else merged.set(key(cookie), cookie);
+  }
+  return [...merged.values()];
+}
+
+/** Whether a response means the session is no longer logged in. */
+export function looksLoggedOut(
+  config: SessionConfig,
+  response: SessionResponse,
+): boolean {
+  const { statuses = [401], loggedOutSelector, loginUrl } = config.expiry ?? {};
+  if (statuses.includes(response.status)) return true;
+  // Landing on the login page without having asked for it
+  const login = samePage(loginUrl ?? config.login.url);
+  if (
+    login === samePage(response.url) &&
+    login !== samePage(response.requestedUrl)
+  ) {
+    return true;
+  }
+  if (loggedOutSelector && response.body !== undefined) {
+    try {
+      const doc = parseBody(response.body, response.contentType);
+      return selectMatches(doc, loggedOutSelector).length > 0;
+    } catch {
+      return false;
+    }
+  }
+  return false;
+}
+
+function samePage(url: string): string {
+  try {
+    const u = new URL(url);
+    return `${u.origin}${u.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return url;
+  }
+}
+
+export class SessionStore {
+  /** Without a `dir`, SCRAPER_DATA_DIR is read on each use */
+  constructor(private dir?: string) {}
+
+  async get(name: string): Promise<SessionState | undefined> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(name), "utf8"));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async put(state: SessionState): Promise<void> {
+    try {
+      await mkdir(this.sessionDir(), { recursive: true });
+      const file = this.pathFor(state.name);
+      // Cookies are credentials: readable by the server's user only
+      await writeFile(file, JSON.stringify(state), { mode: 0o600 });
+      await chmod(file, 0o600);
+    } catch (e: any) {
+      console.warn(`Could not persist session '${state.name}': ${e.message}`);
+    }
+  }
+
+  async delete(name: string): Promise<void> {
+    await rm(this.pathFor(name), { force: true }).catch(() => undefined);
+  }
+
+  private pathFor(name: string): string {
+    return path.join(this.sessionDir(), `${name}.json`);
+  }
+
+  private sessionDir(): string {
+    return (
+      this.dir ??
+      path.resolve(process.env.SCRAPER_DATA_DIR || "data", "sessions")
+    );
+  }
+}
+
+interface FormResponse {
+  status: number;
+  url: string;
+  body: string;
+  contentType?: string;
+  cookies: StoredCookie[];
+}
+
+export class SessionManager {
+  private configs = new Map<string, SessionConfig>();
+  private states = new Map<string, SessionState>();
+  private pending = new Map<string, Promise<SessionState>>();
+
+  constructor(
+    private store = new SessionStore(),
+    private fetchImpl: typeof fetch = (input, init) => fetch(input, init),
+  ) {}
+
+  /** Add or replace session definitions; throws `SessionError` if malformed. */
+  define(configs: SessionConfig[]): void {
+    for (const config of configs) {
+      const error = validateSession(config);
+      if (error) {
+        throw new SessionError(`Invalid session '${config?.name}': ${error}`);
+      }
+      this.configs.set(config.name, config);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.configs.has(name);
+  }
+
+  get(name: string): SessionConfig | undefined {
+    return this.configs.get(name);
+  }
+
+  /**
+   * A logged-in state for `name`: the one in memory or on disk while it is
+   * usable, otherwise a fresh login. Browser flows need `browserLogin`.
+   */
+  async ensure(
+    name: string,
+    browserLogin?: BrowserLogin,
+    now = Date.now(),
+  ): Promise<SessionState> {
+    const config = this.require(name);
+    const state = this.states.get(name) ?? (await this.store.get(name));
+    if (state && !this.isStale(config, state, now)) {
+      this.states.set(name, state);
+      return state;
+    }
+    return this.login(config, browserLogin);
+  }
+
+  /**
+   * Log in again after `stale` was found logged out. Concurrent callers
+   * holding the same stale state share one login.
+   */
+  async refresh(
+    name: string,
+    stale: SessionState,
+    browserLogin?: BrowserLogin,
+  ): Promise<SessionState> {
+    const config = this.require(name);
+    // Someone else already logged in again since `stale` was issued
+    const current = this.states.get(name);
+    if (current && current.loggedInAt > stale.loggedInAt) return current;
+    return this.login(config, browserLogin);
+  }
+
+  /** Cookies set by responses while scraping keep rolling sessions alive. */
+  async remember(
+    name: string,
+    url: string,
+    setCookie: string[] | string | undefined,
+  ): Promise<void> {
+    const state = this.states.get(name);
+    const headers = [setCookie ?? []].flat();
+    if (!state || !headers.length) return;
+    const received = headers
+      .map((h) => parseSetCookie(h, url))
+      .filter((c): c is StoredCookie => !!c);
+    const updated = {
+      ...state,
+      cookies: mergeCookies(state.cookies, received),
+    };
+    this.states.set(name, updated);
+    await this.store.put(updated);
+  }
+
+  isLoggedOut(name: string, response: SessionResponse): boolean {
+    return looksLoggedOut(this.require(name), response);
+  }
+
+  async forget(name: string): Promise<void> {
+    this.states.delete(name);
+    await this.store.delete(name);
+  }
+
+  private require(name: string): SessionConfig {
+    const config = this.configs.get(name);
+    if (!config) throw new SessionError(`Unknown session '${name}'`);
+    return config;
+  }
+
+  private isStale(config: SessionConfig, state: SessionState, now: number) {
+    if (config.maxAgeMs && now - state.loggedInAt > config.maxAgeMs) {
+      return true;
+    }
+    const live = state.cookies.filter((c) => !isExpired(c, now));
+    return !live.length && !Object.keys(state.localStorage).length;
+  }
+
+  private login(
+    config: SessionConfig,
+    browserLogin?: BrowserLogin,
+  ): Promise<SessionState> {
+    const running = this.pending.get(config.name);
+    if (running) return running;
+    const login = (async () => {
+      const flow = config.login;
+      let captured: Pick<SessionState, "cookies" | "localStorage">;
+      if (flow.type === "form") {
+        captured = await this.formLogin(config, flow);
+      } else if (browserLogin) {
+        captured = await browserLogin(
+          { ...flow, actions: flow.actions.map(resolveActionSecrets) },
+          config,
+        );
+      } else {
+        throw new SessionError(
+          `Session '${config.name}' logs in with a browser, which this engine doesn't have`,
+        );
+      }
+      const state: SessionState = {
+        name: config.name,
+        ...captured,
+        loggedInAt: Date.now(),
+      };
+      this.states.set(config.name, state);
+      await this.store.put(state);
+      return state;
+    })().finally(() => this.pending.delete(config.name));
+    this.pending.set(config.name, login);
+    return login;
+  }
+
+  private async formLogin(
+    config: SessionConfig,
+    flow: Extract<LoginFlow, { type: "form" }>,
+  ): Promise<Pick<SessionState, "cookies" | "localStorage">> {
+    let cookies: StoredCookie[] = [];
+    let action = flow.url;
+    const fields: Record<string, string> = {};
+
+    if (flow.formSelector) {
+      const page = await this.request(flow.url, { method: "GET" }, cookies);
+      cookies = page.cookies;
+      const $ = cheerio.load(page.body);
+      const form = $(flow.formSelector).first();
+      if (!form.length) {
+        throw new SessionError(
+          `Session '${config.name}': no form matches '${flow.formSelector}' on ${page.url}`,
+        );
+      }
+      form.find("input[name]").each((_, el) => {
+        const input = $(el);
+        const type = (input.attr("type") ?? "text").toLowerCase();
+        if (type === "submit" || type === "button" || type === "image") return;
+        if (
+          (type === "checkbox" || type === "radio") &&
+          !input.is("[checked]")
+        ) {
+          return;
+        }
+        fields[input.attr("name")!] = input.attr("value") ?? "";
+      });
+      action = new URL(form.attr("action") || page.url, page.url).href;
+    }
+    for (const [key, value] of Object.entries(flow.fields)) {
+      fields[key] = resolveSecrets(value);
+    }
+
+    const response = await this.request(
+      action,
+      {
+        method: "POST",
+        body: new URLSearchParams(fields).toString(),
+        headers: { "content-type": "application/x-www-form-urlencoded" },
+      },
+      cookies,
+    );
+    if (
+      response.status >= 400 ||
+      looksLoggedOut(config, { ...response, requestedUrl: action })
+    ) {
+      throw new SessionError(
+        `Session '${config.name}': login failed (HTTP ${response.status} at ${response.url})`,
+      );
+    }
+    return { cookies: response.cookies, localStorage: {} };
+  }
+
+  /** Follow redirects by hand so cookies set along the way are kept. */
+  private async request(
+    url: string,
+    init: { method: string; body?: string; headers?: Record<string, string> },
+    jar: StoredCookie[],
+  ): Promise<FormResponse> {
+    let current = url;
+    let cookies = jar;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const cookie = cookieHeader(cookies, current);
+      const res = await this.fetchImpl(current, {
+        method: init.method,
+        body: init.body,
+        headers: { ...init.headers, ...(cookie ? { cookie } : {}) },
+        redirect: "manual",
+        signal: AbortSignal.timeout(LOGIN_TIMEOUT_MS),
+      });
+      const received = res.headers
+        .getSetCookie()
+        .map((h) => parseSetCookie(h, current))
+        .filter((c): c is StoredCookie => !!c);
+      cookies = mergeCookies(cookies, received);
+      const location = res.headers.get("location");
+      if (res.status >= 300 && res.status < 400 && location) {
+        current = new URL(location, current).href;
+        // Only 307 and 308 repeat the POST; other redirects become a GET
+        if (res.status !== 307 && res.status !== 308) {
+          init = { method: "GET" };
+        }
+        continue;
+      }
+      return {
+        status: res.status,
+        url: current,
+        body: await res.text(),
+        contentType: res.headers.get("content-type") ?? undefined,
+        cookies,
+      };
+    }
+    throw new SessionError(`Too many redirects logging in at ${url}`);
+  }
+}
+
+function resolveActionSecrets(step: BrowserAction): BrowserAction {
+  return step.action === "type"
+    ? { ...step, text: resolveSecrets(step.text) }
+    : step;
+}
+
+/** Sessions from the JSON file named by SCRAPER_SESSIONS, if any. */
+function sessionsFromEnv(): SessionConfig[] {
+  const file = process.env.SCRAPER_SESSIONS;
+  if (!file) return [];
+  try {
+    const configs = JSON.parse(readFileSync(file, "utf8"));
+    // A bad definition shouldn't stop the server from starting
+    return (Array.isArray(configs) ? configs : []).filter((config) => {
+      const error = validateSession(config);
+      if (error) console.warn(`Ignoring session '${config?.name}': ${error}`);
+      return !error;
+    });
+  } catch (e: any) {
+    console.warn(`Could not read SCRAPER_SESSIONS: ${e.message}`);
+    return [];
+  }
+}
+
+/** Shared sessions for the engines in this process. */
+export const sessions = new SessionManager();
+sessions.define(sessionsFromEnv());
@@ -0,0 +1,148 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { gzipSync } from "zlib";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { loadSitemap, parseSitemap, validateSitemapSource } from "./sitemap";
+
+const urlset = (entries: [string, string?][]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${entries
+    .map(
+      ([loc, lastmod]) =>
+        `<url><loc>${loc}</loc>${lastmod ? `<lastmod>${lastmod}</lastmod>` : ""}</url>`,
+    )
+    .join("")}</urlset>`;
+
+describe("parseSitemap", () => {
+  it("reads url entries with their optional fields", () => {
+    const parsed = parseSitemap(
+      `<urlset><url><loc> https://example.com/a </loc><lastmod>2024-01-02</lastmod>
+      <changefreq>daily</changefreq><priority>0.8</priority></url>
+      <url><loc></loc></url></urlset>`,
+    );
+    expect(parsed.sitemaps).toEqual([]);
+    expect(parsed.urls).toEqual([
+      {
+        loc: "https://example.com/a",
+        lastmod: "2024-01-02",
+        changefreq: "daily",
+        priority: 0.8,
+      },
+    ]);
+  });
+
+  it("reads sitemap index children", () => {
+    const parsed = parseSitemap(
+      `<sitemapindex><sitemap><loc>https://example.com/s1.xml</loc></sitemap></sitemapindex>`,
+    );
+    expect(parsed.sitemaps).toEqual([{ loc: "https://example.com/s1.xml" }]);
+    expect(parsed.urls).toEqual([]);
+  });
+});
+
+describe("validateSitemapSource", () => {
+  it("requires a url or site and checks patterns and dates", () => {
+    expect(validateSitemapSource({})).toMatch(/url/);
+    expect(validateSitemapSource({ url: "nope" })).toMatch(/Invalid URL/);
+    expect(
+      validateSitemapSource({ site: "https://example.com", include: ["("] }),
+    ).toMatch(/Invalid pattern/);
+    expect(
+      validateSitemapSource({ site: "https://example.com", lastmodSince: "x" }),
+    ).toMatch(/Invalid date/);
+  });
+});
+
+describe("loadSitemap", () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const b = base;
+      const bodies: Record<string, string | Buffer> = {
+        "/robots.txt": `User-agent: *\nSitemap: ${b}/index.xml`,
+        "/index.xml": `<sitemapindex>
+          <sitemap><loc>${b}/posts.xml.gz</loc><lastmod>2024-06-01</lastmod></sitemap>
+          <sitemap><loc>${b}/old.xml</loc><lastmod>2020-01-01</lastmod></sitemap>
+          <sitemap><loc>${b}/missing.xml</loc></sitemap>
+        </sitemapindex>`,
+        "/posts.xml.gz": gzipSync(
+          urlset([
+            [`${b}/posts/new`, "2024-05-01"],
+            [`${b}/posts/stale`, "2023-01-01"],
+            [`${b}/posts/undated`],
+            [`${b}/tags/x`, "2024-05-01"],
+          ]),
+        ),
+        "/old.xml": urlset([[`${b}/posts/ancient`, "2019-01-01"]]),
+      };
+      if (req.url === "/endless.xml") {
+        // Never ends: only the reader stopping ends the response
+        res.writeHead(200);
+        const pump = () => {
+          if (!res.destroyed) res.write("<!-- padding -->".repeat(64), pump);
+        };
+        pump();
+        return;
+      }
+      if (req.url === "/declared.xml") {
+        res.writeHead(200, { "content-length": "4096" });
+        res.end("x".repeat(4096));
+        return;
+      }
+      const body = bodies[req.url ?? ""];
+      res.writeHead(body === undefined ? 404 : 200);
+      res.end(body);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(
+    () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  );
+
+  it("discovers sitemaps from robots.txt, follows gzip indexes and filters", async () => {
+    const result = await loadSitemap({
+      site: base,
+      lastmodSince: "2024-01-01",
+      exclude: ["/tags/"],
+    });
+    expect(result.urls.map((u) => u.loc)).toEqual([
+      `${base}/posts/new`,
+      `${base}/posts/undated`,
+    ]);
+    // old.xml predates the cutoff and is never fetched
+    expect(result.sitemaps).toEqual([
+      `${base}/index.xml`,
+      `${base}/posts.xml.gz`,
+    ]);
+    expect(result.errors).toEqual([
+      { sitemap: `${base}/missing.xml`, error: "HTTP 404" },
+    ]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it("stops at maxUrls", async () => {
+    const result = await loadSitemap({ url: `${base}/index.xml`, maxUrls: 2 });
+    expect(result.urls).toHaveLength(2);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("stops reading a sitemap once it passes maxBytes", async () => {
+    for (const file of ["endless.xml", "declared.xml"]) {
+      const result = await loadSitemap(
+        { url: `${base}/${file}` },
+        { maxBytes: 1024 },
+      );
+      expect(result.errors).toEqual([
+        { sitemap: `${base}/${file}`, error: "Sitemap too large" },
+      ]);
+    }
+  });
+});
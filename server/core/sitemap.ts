@@ -0,0 +1,229 @@
+/**
+ * SENTINEL SITEMAPS - sitemap.xml and sitemap index expansion
+ * Sitemaps are found from robots.txt `Sitemap:` lines (falling back to
+ * /sitemap.xml), nested indexes are followed, and gzip files are inflated.
+ */
+
+import { gunzipSync } from "zlib";
+import * as cheerio from "cheerio";
+import type { SitemapEntry, SitemapResponse, SitemapSource } from "@shared/api";
+import { robotsCache, ROBOTS_USER_AGENT } from "./robots";
+
+export interface SitemapLimits {
+  maxUrls: number;
+  maxSitemaps: number;
+  maxDepth: number;
+  timeout: number;
+  /** Bytes read from one sitemap, and inflated from a gzipped one */
+  maxBytes: number;
+}
+
+const DEFAULT_LIMITS: SitemapLimits = {
+  maxUrls: 5000,
+  maxSitemaps: 50,
+  maxDepth: 3,
+  timeout: 20_000,
+  // The sitemap protocol caps a file at 50 MB uncompressed
+  maxBytes: 50 * 1024 * 1024,
+};
+
+/** Sitemap URLs for a site: those listed in robots.txt, else /sitemap.xml. */
+export async function discoverSitemaps(site: string): Promise<string[]> {
+  const origin = new URL(site).origin;
+  const robots = await robotsCache.get(origin);
+  return robots.sitemaps.length ? robots.sitemaps : [`${origin}/sitemap.xml`];
+}
+
+/** Check a source's patterns and dates before any fetching happens. */
+export function validateSitemapSource(source: any): string | undefined {
+  if (!source?.url && !source?.site) return "Provide sitemap 'url' or 'site'";
+  for (const value of [source.url, source.site].filter(Boolean)) {
+    try {
+      new URL(value);
+    } catch {
+      return `Invalid URL '${value}'`;
+    }
+  }
+  for (const pattern of [
+    ...(source.include ?? []),
+    ...(source.exclude ?? []),
+  ]) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      return `Invalid pattern '${pattern}'`;
+    }
+  }
+  for (const date of [source.lastmodSince, source.lastmodUntil]) {
+    if (date !== undefined && Number.isNaN(Date.parse(date))) {
+      return `Invalid date '${date}'`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Expand a sitemap source into page URLs. Index entries are followed up to
+ * `maxDepth` levels; an index child whose own lastmod predates
+ * `lastmodSince` is skipped without being fetched. URLs without a lastmod
+ * pass the date filters, since they may have changed.
+ */
+export async function loadSitemap(
+  source: SitemapSource,
+  limits: Partial<SitemapLimits> = {},
+): Promise<SitemapResponse> {
+  const opts = { ...DEFAULT_LIMITS, ...limits };
+  const maxUrls = Math.min(source.maxUrls ?? opts.maxUrls, opts.maxUrls);
+  const since = source.lastmodSince
+    ? Date.parse(source.lastmodSince)
+    : undefined;
+  const until = source.lastmodUntil
+    ? Date.parse(source.lastmodUntil)
+    : undefined;
+  const include = (source.include ?? []).map((p) => new RegExp(p));
+  const exclude = (source.exclude ?? []).map((p) => new RegExp(p));
+
+  const inDateRange = (lastmod?: string) => {
+    const t = lastmod ? Date.parse(lastmod) : NaN;
+    if (Number.isNaN(t)) return true;
+    return (
+      (since === undefined || t >= since) && (until === undefined || t <= until)
+    );
+  };
+
+  const result: SitemapResponse = {
+    sitemaps: [],
+    urls: [],
+    errors: [],
+    truncated: false,
+  };
+  const seenSitemaps = new Set<string>();
+  const seenUrls = new Set<string>();
+  const queue = (
+    source.url ? [source.url] : await discoverSitemaps(source.site!)
+  ).map((url) => ({ url, depth: 0 }));
+
+  while (queue.length) {
+    const { url, depth } = queue.shift()!;
+    if (seenSitemaps.has(url)) continue;
+    if (seenSitemaps.size >= opts.maxSitemaps) {
+      result.truncated = true;
+      break;
+    }
+    seenSitemaps.add(url);
+
+    let parsed: ParsedSitemap;
+    try {
+      parsed = parseSitemap(await fetchSitemap(url, opts));
+    } catch (e: any) {
+      result.errors.push({ sitemap: url, error: e?.message ?? String(e) });
+      continue;
+    }
+    result.sitemaps.push(url);
+
+    for (const child of parsed.sitemaps) {
+      if (depth + 1 > opts.maxDepth) {
+        result.truncated = true;
+        break;
+      }
+      // An index child untouched since the cutoff can't hold newer URLs
+      if (
+        since !== undefined &&
+        child.lastmod &&
+        Date.parse(child.lastmod) < since
+      ) {
+        continue;
+      }
+      queue.push({ url: child.loc, depth: depth + 1 });
+    }
+    for (const entry of parsed.urls) {
+      if (seenUrls.has(entry.loc) || !inDateRange(entry.lastmod)) continue;
+      if (include.length && !include.some((r) => r.test(entry.loc))) continue;
+      if (exclude.some((r) => r.test(entry.loc))) continue;
+      if (result.urls.length >= maxUrls) {
+        result.truncated = true;
+        return result;
+      }
+      seenUrls.add(entry.loc);
+      result.urls.push(entry);
+    }
+  }
+  return result;
+}
+
+interface ParsedSitemap {
+  sitemaps: { loc: string; lastmod?: string }[];
+  urls: SitemapEntry[];
+}
+
+export function parseSitemap(xml: string): ParsedSitemap {
+  const $ = cheerio.load(xml, { xml: true });
+  const text = (el: any, tag: string) =>
+    $(el).children(tag).first().text().trim() || undefined;
+
+  const sitemaps = $("sitemapindex > sitemap")
+    .toArray()
+    .flatMap((el) => {
+      const loc = text(el, "loc");
+      return loc ? [{ loc, lastmod: text(el, "lastmod") }] : [];
+    });
+
+  const urls = $("urlset > url")
+    .toArray()
+    .flatMap((el): SitemapEntry[] => {
+      const loc = text(el, "loc");
+      if (!loc) return [];
+      const priority = Number(text(el, "priority"));
+      return [
+        {
+          loc,
+          lastmod: text(el, "lastmod"),
+          changefreq: text(el, "changefreq"),
+          priority: Number.isFinite(priority) ? priority : undefined,
+        },
+      ];
+    });
+
+  return { sitemaps, urls };
+}
+
+async function fetchSitemap(
+  url: string,
+  { timeout, maxBytes }: SitemapLimits,
+): Promise<string> {
+  const res = await fetch(url, {
+    redirect: "follow",
+    signal: AbortSignal.timeout(timeout),
+    headers: { "user-agent": ROBOTS_USER_AGENT },
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const bytes = await readCapped(res, maxBytes);
+  // .xml.gz files are usually served as plain gzip bodies, not Content-Encoding
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return gunzipSync(bytes, { maxOutputLength: maxBytes }).toString("utf8");
+  }
+  return bytes.toString("utf8");
+}
+
+// Stops reading as soon as the body passes the cap, declared or not
+async function readCapped(res: Response, maxBytes: number): Promise<Buffer> {
+  if (Number(res.headers.get("content-length")) > maxBytes) {
+    await res.body?.cancel();
+    throw new Error("Sitemap too large");
+  }
+  if (!res.body) return Buffer.alloc(0);
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error("Sitemap too large");
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { computeMetrics, recordRequest, resetTelemetry } from "./telemetry";
+
+const window = { windowMs: 60_000, bucketMs: 10_000 };
+// Mid-bucket, so the last bucket covers the five seconds before `now`
+const now = 1_005_000;
+
+describe("telemetry metrics", () => {
+  beforeEach(() => resetTelemetry());
+
+  it("returns empty buckets and zero rates with no traffic", () => {
+    const m = computeMetrics(now, window);
+    expect(m.series).toHaveLength(6);
+    expect(m.series.every((p) => p.total === 0)).toBe(true);
+    expect(m.summary).toMatchObject({ total: 0, successRate: 0 });
+    expect(m.proxies).toEqual([]);
+  });
+
+  it("buckets samples and computes success rate and p95", () => {
+    for (let i = 1; i <= 20; i++) {
+      recordRequest({
+        t: now - 5_000,
+        url: "https://a.example",
+        status: i === 20 ? 503 : 200,
+        latencyMs: i * 100,
+        source: "scrape",
+      });
+    }
+    recordRequest({
+      t: now - 70_000,
+      url: "https://old.example",
+      status: 200,
+      latencyMs: 1,
+      source: "scrape",
+    });
+
+    const m = computeMetrics(now, window);
+    const last = m.series[m.series.length - 1];
+    expect(last).toMatchObject({ total: 20, success: 19, failed: 1 });
+    expect(last.p95).toBeCloseTo(1.9);
+    expect(m.summary.total).toBe(20);
+    expect(m.summary.successRate).toBeCloseTo(0.95);
+    expect(m.summary.avgResponseTime).toBeCloseTo(1.05);
+  });
+
+  it("groups proxy stats and counts only real proxies as active", () => {
+    const base = { t: now, url: "https://a.example", source: "engine" };
+    recordRequest({ ...base, status: 200, latencyMs: 200, proxy: "p1:8080" });
+    recordRequest({ ...base, ok: false, latencyMs: 400, proxy: "p1:8080" });
+    recordRequest({ ...base, status: 200, latencyMs: 100 });
+
+    const m = computeMetrics(now, window);
+    expect(m.summary.activeProxies).toBe(1);
+    expect(m.proxies.map((p) => p.proxy)).toEqual(["p1:8080", "direct"]);
+    expect(m.proxies[0]).toMatchObject({ success: 1, failure: 1, health: 0.5 });
+    expect(m.proxies[0].avgResponse).toBeCloseTo(0.3);
+    expect(m.proxies[1]).toMatchObject({ success: 1, failure: 0, health: 1 });
+  });
+
+  it("raises an alert for buckets with a high error rate", () => {
+    for (let i = 0; i < 10; i++) {
+      recordRequest({
+        t: now,
+        url: "https://a.example",
+        status: i < 5 ? 500 : 200,
+        latencyMs: 100,
+        source: "scrape",
+      });
+    }
+    const [alert] = computeMetrics(now, window).alerts;
+    expect(alert).toMatchObject({
+      type: "high_error_rate",
+      severity: "critical",
+    });
+  });
+});
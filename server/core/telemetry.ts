@@ -0,0 +1,182 @@
+/**
+ * SENTINEL TELEMETRY - Per-request outcome recording
+ * Every fetch made by /api/scrape and the scraper engines is recorded here,
+ * and /api/metrics is computed from these samples.
+ */
+
+import type {
+  AlertItem,
+  MetricsResponse,
+  ProxyStat,
+  TimePoint,
+} from "@shared/api";
+
+export interface RequestSample {
+  t: number;
+  url: string;
+  /** HTTP status, absent when the request failed before a response */
+  status?: number;
+  ok: boolean;
+  latencyMs: number;
+  /** Proxy the request went through; absent for direct requests */
+  proxy?: string;
+  /** Which component made the request, e.g. "scrape" or "engine" */
+  source: string;
+  error?: string;
+}
+
+export interface MetricsWindow {
+  windowMs: number;
+  bucketMs: number;
+}
+
+const RETENTION_MS = 60 * 60_000;
+const MAX_SAMPLES = 50_000;
+const DIRECT = "direct";
+const DEFAULT_WINDOW: MetricsWindow = {
+  windowMs: 10 * 60_000,
+  bucketMs: 10_000,
+};
+
+const samples: RequestSample[] = [];
+
+/**
+ * Record the outcome of one request. A request counts as successful when it
+ * got a non-error HTTP response, unless `ok` says otherwise.
+ */
+export function recordRequest(
+  sample: Omit<RequestSample, "t" | "ok"> & { t?: number; ok?: boolean },
+): void {
+  const t = sample.t ?? Date.now();
+  const ok = sample.ok ?? (sample.status !== undefined && sample.status < 400);
+  samples.push({ ...sample, t, ok });
+  prune(t);
+}
+
+export function getSamples(since = 0): RequestSample[] {
+  return samples.filter((s) => s.t >= since);
+}
+
+export function resetTelemetry(): void {
+  samples.length = 0;
+}
+
+function prune(now: number) {
+  let drop = Math.max(0, samples.length - MAX_SAMPLES);
+  while (drop < samples.length && samples[drop].t < now - RETENTION_MS) drop++;
+  if (drop) samples.splice(0, drop);
+}
+
+/**
+ * Build the `/api/metrics` payload from recorded samples: fixed-width time
+ * buckets over the window, overall success rate and latency percentiles,
+ * per-proxy stats and threshold alerts. Latencies are reported in seconds.
+ */
+export function computeMetrics(
+  now = Date.now(),
+  { windowMs, bucketMs }: MetricsWindow = DEFAULT_WINDOW,
+): MetricsResponse {
+  const since = now - windowMs;
+  const recent = getSamples(since).filter((s) => s.t <= now);
+
+  const bucketCount = Math.ceil(windowMs / bucketMs);
+  const firstBucket =
+    Math.floor(now / bucketMs) * bucketMs - (bucketCount - 1) * bucketMs;
+  const buckets: RequestSample[][] = Array.from(
+    { length: bucketCount },
+    () => [],
+  );
+  for (const s of recent) {
+    const i = Math.floor((s.t - firstBucket) / bucketMs);
+    if (i >= 0 && i < bucketCount) buckets[i].push(s);
+  }
+  const series: TimePoint[] = buckets.map((bucket, i) => {
+    const latencies = bucket.map((s) => s.latencyMs / 1000);
+    const success = bucket.filter((s) => s.ok).length;
+    return {
+      t: firstBucket + i * bucketMs,
+      total: bucket.length,
+      success,
+      failed: bucket.length - success,
+      avg: mean(latencies),
+      p95: percentile(latencies, 0.95),
+    };
+  });
+
+  const latencies = recent.map((s) => s.latencyMs / 1000);
+  const success = recent.filter((s) => s.ok).length;
+  const proxies = proxyStats(recent);
+
+  return {
+    summary: {
+      total: recent.length,
+      successRate: recent.length ? success / recent.length : 0,
+      avgResponseTime: mean(latencies),
+      p95ResponseTime: percentile(latencies, 0.95),
+      activeProxies: proxies.filter((p) => p.proxy !== DIRECT).length,
+    },
+    series,
+    proxies,
+    alerts: alertsFor(series),
+  };
+}
+
+function proxyStats(recent: RequestSample[]): ProxyStat[] {
+  const groups = new Map<string, RequestSample[]>();
+  for (const s of recent) {
+    const key = s.proxy ?? DIRECT;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(s);
+  }
+  return Array.from(groups, ([proxy, list]) => {
+    const success = list.filter((s) => s.ok).length;
+    return {
+      proxy,
+      success,
+      failure: list.length - success,
+      avgResponse: mean(list.map((s) => s.latencyMs / 1000)),
+      health: success / list.length,
+    };
+  }).sort((a, b) => b.success + b.failure - (a.success + a.failure));
+}
+
+// Buckets with fewer requests than this are too small to alert on
+const MIN_ALERT_SAMPLES = 5;
+
+function alertsFor(series: TimePoint[]): AlertItem[] {
+  const alerts: AlertItem[] = [];
+  for (const p of series) {
+    if (p.total < MIN_ALERT_SAMPLES) continue;
+    const errRate = p.failed / p.total;
+    if (errRate > 0.2) {
+      alerts.push({
+        id: `err-${p.t}`,
+        type: "high_error_rate",
+        message: `Error rate ${(errRate * 100).toFixed(1)}% exceeds threshold`,
+        severity: errRate > 0.35 ? "critical" : "warning",
+        timestamp: p.t,
+      });
+    }
+    if (p.p95 > 4.0) {
+      alerts.push({
+        id: `lat-${p.t}`,
+        type: "slow_response",
+        message: `p95 response time ${p.p95.toFixed(2)}s is high`,
+        severity: p.p95 > 6 ? "critical" : "warning",
+        timestamp: p.t,
+      });
+    }
+  }
+  return alerts.slice(-20);
+}
+
+function mean(nums: number[]) {
+  return nums.reduce((a, b) => a + b, 0) / Math.max(1, nums.length);
+}
+
+/** Nearest-rank percentile; 0 for an empty list. */
+function percentile(nums: number[], q: number) {
+  if (!nums.length) return 0;
+  const sorted = [...nums].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(q * sorted.length) - 1)];
+}
@@ -0,0 +1,182 @@
+import { EventEmitter } from "events";
+import { describe, expect, it } from "vitest";
+import {
+  ExtractionOutput,
+  ExtractionTask,
+  extractionWorkerFactory,
+  runExtraction,
+} from "./extraction";
+import { PooledWorker, WorkerPool, WorkerPoolError } from "./workerPool";
+
+/** Runs tasks in-process on the next tick; "crash" and "hang" misbehave. */
+class FakeWorker extends EventEmitter implements PooledWorker {
+  terminated = false;
+
+  postMessage({ id, task }: { id: number; task: string }) {
+    setImmediate(() => {
+      if (this.terminated) return;
+      if (task === "crash") this.emit("error", new Error("out of memory"));
+      else if (task === "throw") {
+        this.emit("message", { id, ok: false, error: "bad task" });
+      } else if (task !== "hang") {
+        this.emit("message", {
+          id,
+          ok: true,
+          result: task.toUpperCase(),
+          memory: { heapUsed: 3 * 1024 * 1024, heapTotal: 8 * 1024 * 1024 },
+        });
+      }
+    });
+  }
+
+  async terminate() {
+    this.terminated = true;
+    return 1;
+  }
+}
+
+function pool(options: ConstructorParameters<typeof WorkerPool>[1] = {}) {
+  const spawned: FakeWorker[] = [];
+  const workers = new WorkerPool<string, string>(() => {
+    const worker = new FakeWorker();
+    spawned.push(worker);
+    return worker;
+  }, options);
+  return { workers, spawned };
+}
+
+describe("WorkerPool", () => {
+  it("runs tasks on up to `size` workers and reports their memory", async () => {
+    const { workers, spawned } = pool({ size: 2 });
+    const results = await Promise.all(
+      ["a", "b", "c"].map((t) => workers.run(t)),
+    );
+    expect(results).toEqual(["A", "B", "C"]);
+    expect(spawned).toHaveLength(2);
+    expect(workers.stats()).toMatchObject({
+      size: 2,
+      completed: 3,
+      busy: 0,
+      workers: [
+        { worker: 0, tasks: 2, heapUsedMb: 3, heapTotalMb: 8 },
+        { worker: 1, tasks: 1 },
+      ],
+    });
+  });
+
+  it("rejects tasks beyond the queue bound", async () => {
+    const { workers } = pool({ size: 1, maxQueue: 1 });
+    const running = workers.run("a");
+    const queued = workers.run("b");
+    await expect(workers.run("c")).rejects.toBeInstanceOf(WorkerPoolError);
+    expect(await Promise.all([running, queued])).toEqual(["A", "B"]);
+    expect(workers.stats().rejected).toBe(1);
+  });
+
+  it("replaces a crashed or stuck worker and fails only its task", async () => {
+    const { workers, spawned } = pool({ size: 1, taskTimeoutMs: 50 });
+    const crash = workers.run("crash");
+    const after = workers.run("a");
+    await expect(crash).rejects.toThrow("Worker failed: out of memory");
+    expect(await after).toBe("A");
+
+    await expect(workers.run("hang")).rejects.toThrow(/timed out/);
+    await expect(workers.run("throw")).rejects.toThrow("bad task");
+    expect(spawned).toHaveLength(3);
+    expect(spawned.slice(0, 2).every((w) => w.terminated)).toBe(true);
+    expect(workers.stats()).toMatchObject({
+      restarts: 2,
+      failed: 3,
+      workers: [{ restarts: 2, failures: 3 }],
+    });
+  });
+
+  it("backs off restarting a worker that dies on startup, then gives up", async () => {
+    const started: number[] = [];
+    const workers = new WorkerPool<string, string>(
+      () => {
+        started.push(Date.now());
+        const worker = new FakeWorker();
+        setImmediate(() => worker.emit("exit", 1));
+        return worker;
+      },
+      { size: 1, maxRestarts: 3, restartDelayMs: 20 },
+    );
+    const settled = await Promise.allSettled(
+      ["a", "b", "c", "d", "e", "f"].map((t) => workers.run(t)),
+    );
+    const errors = settled.map((r) => (r as PromiseRejectedResult).reason);
+    // Each restarted worker takes the next task until the budget runs out
+    expect(errors.slice(0, 4).map((e) => e.message)).toEqual(
+      Array(4).fill("Worker failed: Worker exited with code 1"),
+    );
+    expect(errors[4].message).toMatch(/keep failing to start/);
+    expect(errors[5]).toBeInstanceOf(WorkerPoolError);
+    await expect(workers.run("g")).rejects.toThrow(/keep failing to start/);
+
+    // The first restart is immediate, later ones wait 20ms, then 40ms
+    expect(started).toHaveLength(4);
+    expect(started[3] - started[1]).toBeGreaterThanOrEqual(55);
+    expect(workers.stats()).toMatchObject({ restarts: 4, failed: 4 });
+  });
+
+  it("fails pending tasks when closed", async () => {
+    const { workers, spawned } = pool({ size: 1 });
+    const running = workers.run("hang");
+    const queued = workers.run("a");
+    await workers.close();
+    await expect(running).rejects.toThrow(/closed/);
+    await expect(queued).rejects.toThrow(/closed/);
+    expect(spawned[0].terminated).toBe(true);
+  });
+});
+
+describe("extraction workers", () => {
+  it("runs tasks on real extractWorker threads", async () => {
+    const spawn = extractionWorkerFactory();
+    expect(spawn).toBeDefined();
+    const workers = new WorkerPool<ExtractionTask, ExtractionOutput>(spawn!, {
+      size: 1,
+      taskTimeoutMs: 20_000,
+    });
+    try {
+      const output = await workers.run({
+        url: "https://shop.example/",
+        body: "<h1>Shoes</h1>",
+        contentType: "text/html",
+        selectors: { title: "h1" },
+      });
+      expect(output).toMatchObject({
+        parsed: "html",
+        data: { title: "Shoes" },
+      });
+      expect(workers.stats().workers[0].heapUsedMb).toBeGreaterThan(0);
+    } finally {
+      await workers.close();
+    }
+  }, 30_000);
+});
+
+describe("runExtraction", () => {
+  it("extracts, collects structured data and finds the next page", () => {
+    const output = runExtraction({
+      url: "https://shop.example/list?page=1",
+      body: '<h1>Shoes</h1><a rel="next" href="?page=2">Next</a><meta property="og:title" content="Shoes">',
+      contentType: "text/html",
+      selectors: { title: "h1", missing: ".nope" },
+      structured: true,
+      pagination: {
+        pagination: { strategy: "next-link", selector: "a[rel=next]" },
+        index: 0,
+        firstUrl: "https://shop.example/list?page=1",
+      },
+    });
+    expect(output).toMatchObject({
+      parsed: "html",
+      data: { title: "Shoes" },
+      schemaErrors: [],
+      nextPage: "https://shop.example/list?page=2",
+    });
+    expect(output.structured?.openGraph).toMatchObject({ title: "Shoes" });
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * SENTINEL WORKER POOL - Bounded pool of self-healing worker threads
+ * A fixed number of workers each run one task at a time; tasks beyond that
+ * wait in a queue of bounded length, and `run` rejects outright once the
+ * queue is full so callers see backpressure instead of unbounded memory. A
+ * worker that crashes, exits or overruns the task timeout is replaced and
+ * only its own task fails. A worker that keeps dying before it replies is
+ * restarted with growing delays, and after `maxRestarts` in a row the pool
+ * gives up and fails every task. Workers report their heap with every reply.
+ */
+
+/** The parts of a worker_threads Worker the pool uses. */
+export interface PooledWorker {
+  postMessage(message: unknown): void;
+  on(event: "message", handler: (message: any) => void): unknown;
+  on(event: "error", handler: (error: Error) => void): unknown;
+  on(event: "exit", handler: (code: number) => void): unknown;
+  terminate(): Promise<number>;
+}
+
+/** What a worker posts back for each task: its result, or the error message. */
+export interface WorkerReply<R> {
+  id: number;
+  ok: boolean;
+  result?: R;
+  error?: string;
+  memory?: WorkerMemory;
+}
+
+export interface WorkerMemory {
+  heapUsed: number;
+  heapTotal: number;
+}
+
+export interface WorkerPoolOptions {
+  size: number;
+  /** Tasks that may wait for a free worker; more are rejected */
+  maxQueue: number;
+  /** A task running longer gets its worker terminated and replaced */
+  taskTimeoutMs: number;
+  /** Consecutive restarts of a worker that never replies before the pool gives up */
+  maxRestarts: number;
+  /** Delay before the second restart in a row, doubling for each after it */
+  restartDelayMs: number;
+}
+
+export interface WorkerStat {
+  worker: number;
+  busy: boolean;
+  tasks: number;
+  failures: number;
+  /** Times this slot's worker crashed or was killed and replaced */
+  restarts: number;
+  /** As of the worker's last reply */
+  heapUsedMb?: number;
+  heapTotalMb?: number;
+}
+
+export interface WorkerPoolStats {
+  size: number;
+  busy: number;
+  queued: number;
+  maxQueue: number;
+  completed: number;
+  failed: number;
+  rejected: number;
+  restarts: number;
+  workers: WorkerStat[];
+}
+
+export class WorkerPoolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkerPoolError";
+  }
+}
+
+interface Task<T, R> {
+  id: number;
+  payload: T;
+  resolve: (result: R) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerSlot<T, R> {
+  index: number;
+  /** Absent while a restart is waiting out its delay */
+  worker?: PooledWorker;
+  current?: Task<T, R>;
+  timer?: ReturnType<typeof setTimeout>;
+  restartTimer?: ReturnType<typeof setTimeout>;
+  /** Restarts since this slot's worker last replied */
+  crashes: number;
+  tasks: number;
+  failures: number;
+  restarts: number;
+  memory?: WorkerMemory;
+}
+
+const MB = 1024 * 1024;
+
+export class WorkerPool<T, R> {
+  private options: WorkerPoolOptions;
+  private slots: WorkerSlot<T, R>[] = [];
+  private queue: Task<T, R>[] = [];
+  private nextId = 1;
+  private closed = false;
+  /** Why the pool gave up on its workers, once it has */
+  private broken?: string;
+  private counters = { completed: 0, failed: 0, rejected: 0, restarts: 0 };
+
+  constructor(
+    private spawn: () => PooledWorker,
+    options: Partial<WorkerPoolOptions> = {},
+  ) {
+    this.options = {
+      size: 2,
+      maxQueue: 100,
+      taskTimeoutMs: 30_000,
+      maxRestarts: 5,
+      restartDelayMs: 100,
+      ...options,
+    };
+  }
+
+  /**
+   * Run a task on the next free worker. Rejects with `WorkerPoolError` when
+   * the queue is full, the pool is closed or has given up on its workers, or
+   * the worker dies mid-task, and with the worker's error message when the
+   * task itself throws.
+   */
+  run(payload: T): Promise<R> {
+    if (this.closed) {
+      return Promise.reject(new WorkerPoolError("Worker pool is closed"));
+    }
+    if (this.broken) {
+      return Promise.reject(this.brokenError());
+    }
+    const idle = this.idleSlot();
+    if (!idle && this.queue.length >= this.options.maxQueue) {
+      this.counters.rejected++;
+      return Promise.reject(
+        new WorkerPoolError(
+          `Worker pool queue is full (${this.options.maxQueue} waiting)`,
+        ),
+      );
+    }
+    return new Promise<R>((resolve, reject) => {
+      const task = { id: this.nextId++, payload, resolve, reject };
+      if (idle) this.dispatch(idle, task);
+      else this.queue.push(task);
+    });
+  }
+
+  stats(): WorkerPoolStats {
+    return {
+      size: Math.max(1, this.options.size),
+      busy: this.slots.filter((s) => s.current).length,
+      queued: this.queue.length,
+      maxQueue: this.options.maxQueue,
+      ...this.counters,
+      workers: this.slots.map((s) => ({
+        worker: s.index,
+        busy: !!s.current,
+        tasks: s.tasks,
+        failures: s.failures,
+        restarts: s.restarts,
+        heapUsedMb: s.memory && round(s.memory.heapUsed / MB),
+        heapTotalMb: s.memory && round(s.memory.heapTotal / MB),
+      })),
+    };
+  }
+
+  /** Fail queued and running tasks and terminate every worker. */
+  async close(): Promise<void> {
+    this.closed = true;
+    const error = new WorkerPoolError("Worker pool is closed");
+    for (const task of this.queue.splice(0)) task.reject(error);
+    const slots = this.slots.splice(0);
+    await Promise.all(
+      slots.map(async (slot) => {
+        clearTimeout(slot.timer);
+        clearTimeout(slot.restartTimer);
+        slot.current?.reject(error);
+        slot.current = undefined;
+        await slot.worker?.terminate().catch(() => undefined);
+      }),
+    );
+  }
+
+  // A free worker, starting a new one while the pool is below its size
+  private idleSlot(): WorkerSlot<T, R> | undefined {
+    const idle = this.slots.find((s) => s.worker && !s.current);
+    if (idle || this.slots.length >= Math.max(1, this.options.size)) {
+      return idle;
+    }
+    const slot: WorkerSlot<T, R> = {
+      index: this.slots.length,
+      tasks: 0,
+      crashes: 0,
+      failures: 0,
+      restarts: 0,
+    };
+    this.attach(slot);
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private attach(slot: WorkerSlot<T, R>) {
+    const worker = this.spawn();
+    slot.worker = worker;
+    // Events from a worker that has since been replaced are ignored
+    worker.on("message", (reply: WorkerReply<R>) => {
+      if (slot.worker === worker) this.settle(slot, reply);
+    });
+    worker.on("error", (error) => {
+      if (slot.worker === worker) this.replace(slot, error.message);
+    });
+    worker.on("exit", (code) => {
+      if (slot.worker === worker) {
+        this.replace(slot, `Worker exited with code ${code}`);
+      }
+    });
+  }
+
+  private dispatch(slot: WorkerSlot<T, R>, task: Task<T, R>) {
+    slot.current = task;
+    slot.tasks++;
+    slot.timer = setTimeout(
+      () =>
+        this.replace(
+          slot,
+          `Task timed out after ${this.options.taskTimeoutMs}ms`,
+        ),
+      this.options.taskTimeoutMs,
+    );
+    try {
+      slot.worker.postMessage({ id: task.id, task: task.payload });
+    } catch (error) {
+      this.replace(
+        slot,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  private settle(slot: WorkerSlot<T, R>, reply: WorkerReply<R>) {
+    const task = slot.current;
+    if (!task || reply.id !== task.id) return;
+    clearTimeout(slot.timer);
+    slot.current = undefined;
+    slot.crashes = 0;
+    if (reply.memory) slot.memory = reply.memory;
+    if (reply.ok) {
+      this.counters.completed++;
+      task.resolve(reply.result);
+    } else {
+      this.counters.failed++;
+      slot.failures++;
+      task.reject(new Error(reply.error));
+    }
+    this.next(slot);
+  }
+
+  // The worker is gone or stuck: fail its task, start a fresh one in its place
+  private replace(slot: WorkerSlot<T, R>, reason: string) {
+    if (this.closed || this.broken) return;
+    clearTimeout(slot.timer);
+    const old = slot.worker;
+    const task = slot.current;
+    slot.worker = undefined;
+    slot.current = undefined;
+    slot.memory = undefined;
+    slot.restarts++;
+    slot.crashes++;
+    this.counters.restarts++;
+    if (task) {
+      this.counters.failed++;
+      slot.failures++;
+      task.reject(new WorkerPoolError(`Worker failed: ${reason}`));
+    }
+    old?.terminate().catch(() => undefined);
+
+    // Dying again and again before replying means it can't start at all
+    if (slot.crashes > this.options.maxRestarts) {
+      this.giveUp(reason);
+      return;
+    }
+    const delay =
+      slot.crashes > 1
+        ? this.options.restartDelayMs * 2 ** (slot.crashes - 2)
+        : 0;
+    const restart = () => {
+      slot.restartTimer = undefined;
+      this.attach(slot);
+      this.next(slot);
+    };
+    if (delay) slot.restartTimer = setTimeout(restart, delay);
+    else restart();
+  }
+
+  // Fail everything waiting or running and stop every worker
+  private giveUp(reason: string) {
+    this.broken = reason;
+    const error = this.brokenError();
+    for (const task of this.queue.splice(0)) task.reject(error);
+    for (const slot of this.slots) {
+      clearTimeout(slot.timer);
+      clearTimeout(slot.restartTimer);
+      slot.current?.reject(error);
+      slot.current = undefined;
+      slot.worker?.terminate().catch(() => undefined);
+      slot.worker = undefined;
+    }
+  }
+
+  private brokenError(): WorkerPoolError {
+    return new WorkerPoolError(
+      `Workers keep failing to start (${this.options.maxRestarts} restarts in a row): ${this.broken}`,
+    );
+  }
+
+  private next(slot: WorkerSlot<T, R>) {
+    const task = this.queue.shift();
+    if (task) this.dispatch(slot, task);
+  }
+}
+
+function round(n: number): number {
+  return Math.round(n * 10) / 10;
+}
@@ -0,0 +1,68 @@
+import * as cheerio from "cheerio";
+import { describe, expect, it } from "vitest";
+import { compileXPath, evaluateXPath, stringValue } from "./xpath";
+
+const $ = cheerio.load(`
+  <h1 id="title">Specs</h1>
+  <table>
+    <tr><th>Weight</th><td>1.2 kg</td></tr>
+    <tr><th>Colour</th><td>Red</td></tr>
+  </table>
+  <ul><li>one</li><li class="on">two</li><li>three</li></ul>
+  <a href="/next">Next page</a>`);
+const root = $.root().get(0);
+
+function texts(expression: string) {
+  const value = evaluateXPath(expression, root);
+  return Array.isArray(value) ? value.map(stringValue) : value;
+}
+
+describe("evaluateXPath", () => {
+  it("selects by text-node predicates and sibling axes", () => {
+    expect(texts("//th[text()='Colour']/following-sibling::td")).toEqual([
+      "Red",
+    ]);
+    expect(texts("//td[../th[contains(., 'Weight')]]")).toEqual(["1.2 kg"]);
+    expect(texts("//li[@class='on']/preceding-sibling::li[1]")).toEqual([
+      "one",
+    ]);
+  });
+
+  it("applies positional predicates per step and to filtered sets", () => {
+    expect(texts("//li[last()]")).toEqual(["three"]);
+    expect(texts("//li[position() > 1]")).toEqual(["two", "three"]);
+    expect(texts("(//td | //h1)[1]")).toEqual(["Specs"]);
+  });
+
+  it("returns attributes and scalars", () => {
+    expect(texts("//a/@href")).toEqual(["/next"]);
+    expect(texts("count(//li[not(@class)])")).toBe(2);
+    expect(texts("normalize-space(//a)")).toBe("Next page");
+    expect(texts("//*[@ID='title']/text()")).toEqual(["Specs"]);
+  });
+
+  it("multiplies, divides and takes remainders", () => {
+    expect(texts("//li[position() mod 2 = 0]")).toEqual(["two"]);
+    expect(texts("//li[2 * 1]")).toEqual(["two"]);
+    expect(texts("//li[position() = last() div 3 * 3]")).toEqual(["three"]);
+    expect(texts("1 + 2 * 3")).toBe(7);
+    expect(texts("-7 mod 3")).toBe(-1);
+    expect(texts("1 div 0")).toBe(Infinity);
+    // "*" is still a name test where a step is expected
+    expect(texts("count(//tr/*) * 2")).toBe(8);
+  });
+
+  it("evaluates relative paths from the context node", () => {
+    const ul = $("ul").get(0);
+    const value = evaluateXPath("./li[2]", ul) as any[];
+    expect(value.map(stringValue)).toEqual(["two"]);
+  });
+});
+
+describe("compileXPath", () => {
+  it("rejects malformed expressions", () => {
+    expect(() => compileXPath("//li[")).toThrow(/Expected/);
+    expect(() => compileXPath("//li[foo(1)]")).toThrow(/Unknown function/);
+    expect(() => compileXPath("sideways::li")).toThrow(/Unknown axis/);
+  });
+});
@@ -0,0 +1,889 @@
+/**
+ * SENTINEL XPATH - XPath 1.0 evaluation over the cheerio (domhandler) tree
+ * Covers location paths on every axis except namespace, predicates, unions,
+ * comparisons, arithmetic (+, -, *, div, mod), and the core string, number
+ * and boolean functions. Names match case-insensitively because the HTML parser lowercases
+ * tag and attribute names. Expressions are compiled once and cached.
+ */
+
+/** A domhandler node, or an attribute wrapped so it can sit in a node-set. */
+export type XPathNode = any;
+
+/** An element attribute as a node, since domhandler keeps attributes in a plain map. */
+export interface XPathAttribute {
+  type: "attribute";
+  name: string;
+  value: string;
+  parent: XPathNode;
+}
+
+/** What an expression evaluates to: a node-set in document order, or a scalar. */
+export type XPathValue = XPathNode[] | string | number | boolean;
+
+export class XPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XPathError";
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Tokenizer
+// ----------------------------------------------------------------------------
+
+type Token =
+  | { kind: "op"; value: string }
+  | { kind: "name"; value: string }
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: number };
+
+const OPERATORS = [
+  "::",
+  "//",
+  "..",
+  "!=",
+  "<=",
+  ">=",
+  "/",
+  "(",
+  ")",
+  "[",
+  "]",
+  ".",
+  "@",
+  ",",
+  "|",
+  "+",
+  "-",
+  "=",
+  "<",
+  ">",
+  "*",
+];
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expr.length) {
+    const ch = expr[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const end = expr.indexOf(ch, i + 1);
+      if (end < 0) throw new XPathError("Unterminated string literal");
+      tokens.push({ kind: "string", value: expr.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+    const number = /^(\d+(\.\d*)?|\.\d+)/.exec(expr.slice(i));
+    if (number) {
+      tokens.push({ kind: "number", value: Number(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+    const name = /^[A-Za-z_][\w.-]*(:[A-Za-z_][\w.-]*)?/.exec(expr.slice(i));
+    if (name) {
+      tokens.push({ kind: "name", value: name[0] });
+      i += name[0].length;
+      continue;
+    }
+    const op = OPERATORS.find((o) => expr.startsWith(o, i));
+    if (!op) throw new XPathError(`Unexpected '${ch}' at ${i}`);
+    tokens.push({ kind: "op", value: op });
+    i += op.length;
+  }
+  return tokens;
+}
+
+// ----------------------------------------------------------------------------
+// Parser
+// ----------------------------------------------------------------------------
+
+type Axis =
+  | "ancestor"
+  | "ancestor-or-self"
+  | "attribute"
+  | "child"
+  | "descendant"
+  | "descendant-or-self"
+  | "following"
+  | "following-sibling"
+  | "parent"
+  | "preceding"
+  | "preceding-sibling"
+  | "self";
+
+const AXES = new Set<string>([
+  "ancestor",
+  "ancestor-or-self",
+  "attribute",
+  "child",
+  "descendant",
+  "descendant-or-self",
+  "following",
+  "following-sibling",
+  "parent",
+  "preceding",
+  "preceding-sibling",
+  "self",
+]);
+const NODE_TYPES = new Set(["node", "text", "comment"]);
+
+type NodeTest =
+  | { kind: "name"; name: string }
+  | { kind: "any" }
+  | { kind: "type"; type: string };
+
+interface Step {
+  axis: Axis;
+  test: NodeTest;
+  predicates: Expr[];
+}
+
+type Expr =
+  | { kind: "path"; absolute: boolean; steps: Step[]; filter?: Expr }
+  | { kind: "filter"; primary: Expr; predicates: Expr[] }
+  | { kind: "binary"; op: string; left: Expr; right: Expr }
+  | { kind: "negate"; operand: Expr }
+  | { kind: "literal"; value: string | number }
+  | { kind: "call"; name: string; args: Expr[] };
+
+const DESCENDANT_OR_SELF: Step = {
+  axis: "descendant-or-self",
+  test: { kind: "type", type: "node" },
+  predicates: [],
+};
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Expr {
+    const expr = this.orExpr();
+    if (this.pos < this.tokens.length) {
+      throw new XPathError(`Unexpected '${this.describe(this.peek())}'`);
+    }
+    return expr;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private isOp(value: string, offset = 0): boolean {
+    const t = this.peek(offset);
+    return t?.kind === "op" && t.value === value;
+  }
+
+  private isKeyword(value: string): boolean {
+    const t = this.peek();
+    return t?.kind === "name" && t.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.isOp(value)) {
+      throw new XPathError(
+        `Expected '${value}' but found '${this.describe(this.peek())}'`,
+      );
+    }
+    this.pos++;
+  }
+
+  private describe(t?: Token): string {
+    return t ? String(t.value) : "end of expression";
+  }
+
+  private binary(
+    next: () => Expr,
+    matches: () => string | undefined,
+  ): () => Expr {
+    return () => {
+      let left = next();
+      for (let op = matches(); op; op = matches()) {
+        this.pos++;
+        left = { kind: "binary", op, left, right: next() };
+      }
+      return left;
+    };
+  }
+
+  // Operator names are only keywords where an operator is expected, which is
+  // exactly where these loops look for them
+  private orExpr = this.binary(
+    () => this.andExpr(),
+    () => (this.isKeyword("or") ? "or" : undefined),
+  );
+  private andExpr = this.binary(
+    () => this.equalityExpr(),
+    () => (this.isKeyword("and") ? "and" : undefined),
+  );
+  private equalityExpr = this.binary(
+    () => this.relationalExpr(),
+    () => ["=", "!="].find((op) => this.isOp(op)),
+  );
+  private relationalExpr = this.binary(
+    () => this.additiveExpr(),
+    () => ["<=", ">=", "<", ">"].find((op) => this.isOp(op)),
+  );
+  private additiveExpr = this.binary(
+    () => this.multiplicativeExpr(),
+    () => ["+", "-"].find((op) => this.isOp(op)),
+  );
+  // Where an operator is expected, "*" multiplies rather than matching any name
+  private multiplicativeExpr = this.binary(
+    () => this.unaryExpr(),
+    () =>
+      this.isOp("*") ? "*" : ["div", "mod"].find((op) => this.isKeyword(op)),
+  );
+
+  private unaryExpr(): Expr {
+    if (this.isOp("-")) {
+      this.pos++;
+      return { kind: "negate", operand: this.unaryExpr() };
+    }
+    return this.unionExpr();
+  }
+
+  private unionExpr = this.binary(
+    () => this.pathExpr(),
+    () => (this.isOp("|") ? "|" : undefined),
+  );
+
+  private pathExpr(): Expr {
+    const t = this.peek();
+    const startsPrimary =
+      t?.kind === "string" ||
+      t?.kind === "number" ||
+      this.isOp("(") ||
+      (t?.kind === "name" && this.isOp("(", 1) && !NODE_TYPES.has(t.value));
+    if (!startsPrimary) return this.locationPath();
+
+    let filter: Expr = this.primaryExpr();
+    const predicates = this.predicates();
+    if (predicates.length) {
+      filter = { kind: "filter", primary: filter, predicates };
+    }
+    if (!this.isOp("/") && !this.isOp("//")) return filter;
+    const steps: Step[] = [];
+    this.continuePath(steps);
+    return { kind: "path", absolute: false, steps, filter };
+  }
+
+  private locationPath(): Expr {
+    const steps: Step[] = [];
+    if (this.isOp("/")) {
+      this.pos++;
+      // A lone "/" selects the document root
+      if (!this.startsStep()) return { kind: "path", absolute: true, steps };
+      steps.push(this.step());
+      this.continuePath(steps);
+      return { kind: "path", absolute: true, steps };
+    }
+    if (this.isOp("//")) {
+      this.pos++;
+      steps.push(DESCENDANT_OR_SELF, this.step());
+      this.continuePath(steps);
+      return { kind: "path", absolute: true, steps };
+    }
+    steps.push(this.step());
+    this.continuePath(steps);
+    return { kind: "path", absolute: false, steps };
+  }
+
+  private continuePath(steps: Step[]) {
+    for (;;) {
+      if (this.isOp("/")) {
+        this.pos++;
+        steps.push(this.step());
+      } else if (this.isOp("//")) {
+        this.pos++;
+        steps.push(DESCENDANT_OR_SELF, this.step());
+      } else {
+        return;
+      }
+    }
+  }
+
+  private startsStep(): boolean {
+    const t = this.peek();
+    return (
+      t?.kind === "name" ||
+      this.isOp("*") ||
+      this.isOp("@") ||
+      this.isOp(".") ||
+      this.isOp("..")
+    );
+  }
+
+  private step(): Step {
+    if (this.isOp(".")) {
+      this.pos++;
+      return {
+        axis: "self",
+        test: { kind: "type", type: "node" },
+        predicates: [],
+      };
+    }
+    if (this.isOp("..")) {
+      this.pos++;
+      return {
+        axis: "parent",
+        test: { kind: "type", type: "node" },
+        predicates: [],
+      };
+    }
+    let axis: Axis = "child";
+    if (this.isOp("@")) {
+      this.pos++;
+      axis = "attribute";
+    } else if (this.peek()?.kind === "name" && this.isOp("::", 1)) {
+      const name = String(this.peek()!.value);
+      if (!AXES.has(name)) throw new XPathError(`Unknown axis '${name}'`);
+      axis = name as Axis;
+      this.pos += 2;
+    }
+    const test = this.nodeTest();
+    return { axis, test, predicates: this.predicates() };
+  }
+
+  private nodeTest(): NodeTest {
+    if (this.isOp("*")) {
+      this.pos++;
+      return { kind: "any" };
+    }
+    const t = this.peek();
+    if (t?.kind !== "name") {
+      throw new XPathError(
+        `Expected a node test but found '${this.describe(t)}'`,
+      );
+    }
+    this.pos++;
+    if (NODE_TYPES.has(t.value) && this.isOp("(")) {
+      this.pos++;
+      this.expect(")");
+      return { kind: "type", type: t.value };
+    }
+    // Prefixes (svg:rect) are matched literally: HTML has no namespaces
+    return { kind: "name", name: t.value.toLowerCase() };
+  }
+
+  private predicates(): Expr[] {
+    const predicates: Expr[] = [];
+    while (this.isOp("[")) {
+      this.pos++;
+      predicates.push(this.orExpr());
+      this.expect("]");
+    }
+    return predicates;
+  }
+
+  private primaryExpr(): Expr {
+    const t = this.peek()!;
+    if (t.kind === "string" || t.kind === "number") {
+      this.pos++;
+      return { kind: "literal", value: t.value };
+    }
+    if (this.isOp("(")) {
+      this.pos++;
+      const expr = this.orExpr();
+      this.expect(")");
+      return expr;
+    }
+    const name = String(t.value);
+    if (!(name in FUNCTIONS))
+      throw new XPathError(`Unknown function '${name}'`);
+    this.pos += 2;
+    const args: Expr[] = [];
+    if (!this.isOp(")")) {
+      args.push(this.orExpr());
+      while (this.isOp(",")) {
+        this.pos++;
+        args.push(this.orExpr());
+      }
+    }
+    this.expect(")");
+    if (args.length < (MIN_ARGS[name] ?? 0)) {
+      throw new XPathError(
+        `${name}() needs at least ${MIN_ARGS[name]} arguments`,
+      );
+    }
+    return { kind: "call", name, args };
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Evaluation
+// ----------------------------------------------------------------------------
+
+interface Context {
+  node: XPathNode;
+  position: number;
+  size: number;
+  /** Document order of every node, built on first use per evaluation */
+  order: () => Map<XPathNode, number>;
+}
+
+const attributeNodes = new WeakMap<object, XPathNode[]>();
+
+/** Attribute wrappers are reused so node-set identity and ordering hold. */
+function attributesOf(node: XPathNode): XPathNode[] {
+  if (!node.attribs) return [];
+  let attrs = attributeNodes.get(node);
+  if (!attrs) {
+    attrs = Object.entries(node.attribs).map(
+      ([name, value]): XPathAttribute => ({
+        type: "attribute",
+        name,
+        value: String(value),
+        parent: node,
+      }),
+    );
+    attributeNodes.set(node, attrs);
+  }
+  return attrs;
+}
+
+function isElement(node: XPathNode): boolean {
+  return node.type === "tag" || node.type === "script" || node.type === "style";
+}
+
+function childrenOf(node: XPathNode): XPathNode[] {
+  // Doctype and processing instructions aren't XPath nodes
+  return (node.children ?? []).filter((c: XPathNode) => c.type !== "directive");
+}
+
+function descendantsOf(node: XPathNode, out: XPathNode[] = []): XPathNode[] {
+  for (const child of childrenOf(node)) {
+    out.push(child);
+    descendantsOf(child, out);
+  }
+  return out;
+}
+
+function rootOf(node: XPathNode): XPathNode {
+  let n = node;
+  while (n.parent) n = n.parent;
+  return n;
+}
+
+function siblings(node: XPathNode): XPathNode[] {
+  return node.parent && node.type !== "attribute"
+    ? childrenOf(node.parent)
+    : [];
+}
+
+/** Nodes on `axis` from `node`, nearest first (reverse axes run backwards). */
+function axisNodes(axis: Axis, node: XPathNode): XPathNode[] {
+  switch (axis) {
+    case "self":
+      return [node];
+    case "child":
+      return node.type === "attribute" ? [] : childrenOf(node);
+    case "attribute":
+      return attributesOf(node);
+    case "descendant":
+      return node.type === "attribute" ? [] : descendantsOf(node);
+    case "descendant-or-self":
+      return [node, ...(node.type === "attribute" ? [] : descendantsOf(node))];
+    case "parent":
+      return node.parent ? [node.parent] : [];
+    case "ancestor":
+    case "ancestor-or-self": {
+      const out = axis === "ancestor-or-self" ? [node] : [];
+      for (let n = node.parent; n; n = n.parent) out.push(n);
+      return out;
+    }
+    case "following-sibling": {
+      const sibs = siblings(node);
+      return sibs.slice(sibs.indexOf(node) + 1);
+    }
+    case "preceding-sibling": {
+      const sibs = siblings(node);
+      return sibs.slice(0, Math.max(sibs.indexOf(node), 0)).reverse();
+    }
+    case "following": {
+      const out: XPathNode[] = [];
+      // Start from the owner element for attributes, which precede its content
+      let n = node.type === "attribute" ? node.parent : node;
+      if (node.type === "attribute") out.push(...descendantsOf(n));
+      for (; n; n = n.parent) {
+        for (const sib of axisNodes("following-sibling", n)) {
+          out.push(sib, ...descendantsOf(sib));
+        }
+      }
+      return out;
+    }
+    case "preceding": {
+      const ancestors = new Set(axisNodes("ancestor", node));
+      const order = documentOrder(rootOf(node));
+      const at = order.get(node.type === "attribute" ? node.parent : node) ?? 0;
+      return [...order.keys()]
+        .filter(
+          (n) =>
+            n.type !== "attribute" &&
+            (order.get(n) ?? 0) < at &&
+            !ancestors.has(n),
+        )
+        .reverse();
+    }
+  }
+}
+
+function matchesTest(test: NodeTest, node: XPathNode, axis: Axis): boolean {
+  // The principal node type is attribute on the attribute axis, else element
+  const principal = (n: XPathNode) =>
+    axis === "attribute" ? n.type === "attribute" : isElement(n);
+  switch (test.kind) {
+    case "any":
+      return principal(node);
+    case "name":
+      return principal(node) && String(node.name).toLowerCase() === test.name;
+    case "type":
+      if (test.type === "node") return true;
+      if (test.type === "text") return node.type === "text";
+      return node.type === "comment";
+  }
+}
+
+function documentOrder(root: XPathNode): Map<XPathNode, number> {
+  const order = new Map<XPathNode, number>();
+  const walk = (n: XPathNode) => {
+    order.set(n, order.size);
+    for (const attr of attributesOf(n)) order.set(attr, order.size);
+    for (const child of childrenOf(n)) walk(child);
+  };
+  walk(root);
+  return order;
+}
+
+function sortUnique(nodes: XPathNode[], ctx: Context): XPathNode[] {
+  const unique = [...new Set(nodes)];
+  if (unique.length < 2) return unique;
+  const order = ctx.order();
+  return unique.sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0));
+}
+
+/** XPath string-value of a node. */
+export function stringValue(node: XPathNode): string {
+  switch (node.type) {
+    case "attribute":
+      return String(node.value);
+    case "text":
+    case "comment":
+      return String(node.data ?? "");
+    default:
+      // CDATA sections hold their text as a child text node
+      return descendantsOf(node)
+        .filter((n) => n.type === "text")
+        .map((n) => n.data)
+        .join("");
+  }
+}
+
+function toStringValue(value: XPathValue): string {
+  if (Array.isArray(value)) return value.length ? stringValue(value[0]) : "";
+  return String(value);
+}
+
+function toNumber(value: XPathValue): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  const s = toStringValue(value).trim();
+  return /^-?(\d+(\.\d*)?|\.\d+)$/.test(s) ? Number(s) : NaN;
+}
+
+function toBoolean(value: XPathValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "number") return value !== 0 && !Number.isNaN(value);
+  if (typeof value === "string") return value.length > 0;
+  return value;
+}
+
+function compare(op: string, left: XPathValue, right: XPathValue): boolean {
+  // Node-sets compare existentially: true if any member satisfies it
+  if (Array.isArray(left) || Array.isArray(right)) {
+    if (Array.isArray(left) && Array.isArray(right)) {
+      const rights = right.map(stringValue);
+      return left.some((l) =>
+        rights.some((r) => compareScalars(op, stringValue(l), r)),
+      );
+    }
+    const [set, other, flipped] = Array.isArray(left)
+      ? [left, right, false]
+      : [right as XPathNode[], left, true];
+    if (typeof other === "boolean") {
+      return compareScalars(op, toBoolean(set), other, flipped);
+    }
+    return set.some((n) => {
+      const v =
+        typeof other === "number" ? toNumber(stringValue(n)) : stringValue(n);
+      return compareScalars(op, v, other as string | number, flipped);
+    });
+  }
+  return compareScalars(op, left, right);
+}
+
+function compareScalars(
+  op: string,
+  a: string | number | boolean,
+  b: string | number | boolean,
+  flipped = false,
+): boolean {
+  if (flipped) [a, b] = [b, a];
+  if (op === "=" || op === "!=") {
+    let equal: boolean;
+    if (typeof a === "boolean" || typeof b === "boolean") {
+      equal = toBoolean(a) === toBoolean(b);
+    } else if (typeof a === "number" || typeof b === "number") {
+      equal = toNumber(a) === toNumber(b);
+    } else {
+      equal = a === b;
+    }
+    return op === "=" ? equal : !equal;
+  }
+  const x = toNumber(a);
+  const y = toNumber(b);
+  switch (op) {
+    case "<":
+      return x < y;
+    case "<=":
+      return x <= y;
+    case ">":
+      return x > y;
+    default:
+      return x >= y;
+  }
+}
+
+type XPathFunction = (ctx: Context, args: XPathValue[]) => XPathValue;
+
+const MIN_ARGS: Record<string, number> = {
+  count: 1,
+  concat: 2,
+  contains: 2,
+  "starts-with": 2,
+  "ends-with": 2,
+  "substring-before": 2,
+  "substring-after": 2,
+  substring: 2,
+  translate: 3,
+  "lower-case": 1,
+  "upper-case": 1,
+  not: 1,
+  boolean: 1,
+  sum: 1,
+  floor: 1,
+  ceiling: 1,
+  round: 1,
+};
+
+const str = (ctx: Context, args: XPathValue[], i = 0) =>
+  args.length > i ? toStringValue(args[i]) : stringValue(ctx.node);
+
+const FUNCTIONS: Record<string, XPathFunction> = {
+  last: (ctx) => ctx.size,
+  position: (ctx) => ctx.position,
+  count: (_ctx, [set]) => (Array.isArray(set) ? set.length : 0),
+  name: (ctx, [set]) => {
+    const node = set === undefined ? ctx.node : (set as XPathNode[])[0];
+    return node?.name ? String(node.name) : "";
+  },
+  "local-name": (ctx, args) => {
+    const name = String(FUNCTIONS.name(ctx, args));
+    return name.slice(name.indexOf(":") + 1);
+  },
+  string: (ctx, args) => str(ctx, args),
+  concat: (_ctx, args) => args.map(toStringValue).join(""),
+  contains: (_ctx, [a, b]) => toStringValue(a).includes(toStringValue(b)),
+  "starts-with": (_ctx, [a, b]) =>
+    toStringValue(a).startsWith(toStringValue(b)),
+  "ends-with": (_ctx, [a, b]) => toStringValue(a).endsWith(toStringValue(b)),
+  "substring-before": (_ctx, [a, b]) => {
+    const s = toStringValue(a);
+    const i = s.indexOf(toStringValue(b));
+    return i < 0 ? "" : s.slice(0, i);
+  },
+  "substring-after": (_ctx, [a, b]) => {
+    const s = toStringValue(a);
+    const sep = toStringValue(b);
+    const i = s.indexOf(sep);
+    return i < 0 ? "" : s.slice(i + sep.length);
+  },
+  substring: (_ctx, [a, start, length]) => {
+    // 1-based and rounded, per the spec
+    const s = toStringValue(a);
+    const from = Math.round(toNumber(start));
+    const to =
+      length === undefined ? Infinity : from + Math.round(toNumber(length));
+    return [...s].filter((_, i) => i + 1 >= from && i + 1 < to).join("");
+  },
+  "string-length": (ctx, args) => [...str(ctx, args)].length,
+  "normalize-space": (ctx, args) => str(ctx, args).replace(/\s+/g, " ").trim(),
+  translate: (_ctx, [a, from, to]) => {
+    const f = toStringValue(from);
+    const t = toStringValue(to);
+    return [...toStringValue(a)]
+      .map((ch) => {
+        const i = f.indexOf(ch);
+        return i < 0 ? ch : (t[i] ?? "");
+      })
+      .join("");
+  },
+  "lower-case": (_ctx, [a]) => toStringValue(a).toLowerCase(),
+  "upper-case": (_ctx, [a]) => toStringValue(a).toUpperCase(),
+  not: (_ctx, [a]) => !toBoolean(a),
+  boolean: (_ctx, [a]) => toBoolean(a),
+  true: () => true,
+  false: () => false,
+  number: (ctx, args) =>
+    toNumber(args.length ? args[0] : stringValue(ctx.node)),
+  sum: (_ctx, [set]) =>
+    (Array.isArray(set) ? set : []).reduce(
+      (total, n) => total + toNumber(stringValue(n)),
+      0,
+    ),
+  floor: (_ctx, [a]) => Math.floor(toNumber(a)),
+  ceiling: (_ctx, [a]) => Math.ceil(toNumber(a)),
+  round: (_ctx, [a]) => Math.round(toNumber(a)),
+};
+
+function evaluate(expr: Expr, ctx: Context): XPathValue {
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+    case "negate":
+      return -toNumber(evaluate(expr.operand, ctx));
+    case "call":
+      return FUNCTIONS[expr.name](
+        ctx,
+        expr.args.map((a) => evaluate(a, ctx)),
+      );
+    case "filter": {
+      const value = evaluate(expr.primary, ctx);
+      if (!Array.isArray(value)) {
+        throw new XPathError("Predicates can only filter node-sets");
+      }
+      return applyPredicates(value, expr.predicates, ctx);
+    }
+    case "path": {
+      let nodes: XPathNode[];
+      if (expr.filter) {
+        const value = evaluate(expr.filter, ctx);
+        if (!Array.isArray(value)) {
+          throw new XPathError("Paths can only continue from node-sets");
+        }
+        nodes = value;
+      } else {
+        nodes = [expr.absolute ? rootOf(ctx.node) : ctx.node];
+      }
+      for (const step of expr.steps) {
+        nodes = sortUnique(
+          nodes.flatMap((node) => evalStep(step, node, ctx)),
+          ctx,
+        );
+      }
+      return nodes;
+    }
+    case "binary": {
+      if (expr.op === "or") {
+        return (
+          toBoolean(evaluate(expr.left, ctx)) ||
+          toBoolean(evaluate(expr.right, ctx))
+        );
+      }
+      if (expr.op === "and") {
+        return (
+          toBoolean(evaluate(expr.left, ctx)) &&
+          toBoolean(evaluate(expr.right, ctx))
+        );
+      }
+      const left = evaluate(expr.left, ctx);
+      const right = evaluate(expr.right, ctx);
+      if (expr.op === "|") {
+        if (!Array.isArray(left) || !Array.isArray(right)) {
+          throw new XPathError("'|' needs node-sets on both sides");
+        }
+        return sortUnique([...left, ...right], ctx);
+      }
+      if (expr.op === "+") return toNumber(left) + toNumber(right);
+      if (expr.op === "-") return toNumber(left) - toNumber(right);
+      if (expr.op === "*") return toNumber(left) * toNumber(right);
+      if (expr.op === "div") return toNumber(left) / toNumber(right);
+      // JS remainder truncates like XPath's mod: the sign follows the dividend
+      if (expr.op === "mod") return toNumber(left) % toNumber(right);
+      return compare(expr.op, left, right);
+    }
+  }
+}
+
+function evalStep(step: Step, node: XPathNode, ctx: Context): XPathNode[] {
+  const candidates = axisNodes(step.axis, node).filter((n) =>
+    matchesTest(step.test, n, step.axis),
+  );
+  // Positions count along the axis, so [1] on a reverse axis is the nearest
+  return applyPredicates(candidates, step.predicates, ctx);
+}
+
+function applyPredicates(
+  nodes: XPathNode[],
+  predicates: Expr[],
+  ctx: Context,
+): XPathNode[] {
+  let current = nodes;
+  for (const predicate of predicates) {
+    const size = current.length;
+    current = current.filter((node, i) => {
+      const value = evaluate(predicate, {
+        node,
+        position: i + 1,
+        size,
+        order: ctx.order,
+      });
+      return typeof value === "number" ? value === i + 1 : toBoolean(value);
+    });
+  }
+  return current;
+}
+
+// ----------------------------------------------------------------------------
+// Public API
+// ----------------------------------------------------------------------------
+
+const compiled = new Map<string, Expr>();
+const MAX_COMPILED = 500;
+
+/** Parse an expression, throwing `XPathError` when it is malformed. */
+export function compileXPath(expression: string): void {
+  parseCached(expression);
+}
+
+function parseCached(expression: string): Expr {
+  let expr = compiled.get(expression);
+  if (!expr) {
+    expr = new Parser(tokenize(expression)).parse();
+    if (compiled.size >= MAX_COMPILED) compiled.clear();
+    compiled.set(expression, expr);
+  }
+  return expr;
+}
+
+/**
+ * Evaluate `expression` with `context` (a document or any node in it) as the
+ * context node. Node-sets come back in document order.
+ */
+export function evaluateXPath(
+  expression: string,
+  context: XPathNode,
+): XPathValue {
+  const expr = parseCached(expression);
+  let order: Map<XPathNode, number> | undefined;
+  return evaluate(expr, {
+    node: context,
+    position: 1,
+    size: 1,
+    order: () => (order ??= documentOrder(rootOf(context))),
+  });
+}
@@ -3,7 +3,16 @@ import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
 import { handleMetrics } from "./routes/metrics";
-import { handleScrape } from "./routes/scrape";
+import { handleScrape, handleScrapeStream } from "./routes/scrape";
+import { handleDeleteRun, handleGetRun, handleListRuns } from "./routes/runs";
+import {
+  handleCancelCrawl,
+  handleGetCrawl,
+  handleListCrawls,
+  handleStartCrawl,
+} from "./routes/crawl";
+import { handleSitemap } from "./routes/sitemap";
+import { handleListChanges } from "./routes/changes";
 
 export function createServer() {
   const app = express();
@@ -22,6 +31,16 @@ export function createServer() {
   app.get("/api/demo", handleDemo);
   app.get("/api/metrics", handleMetrics);
   app.post("/api/scrape", handleScrape);
+  app.post("/api/scrape/stream", handleScrapeStream);
+  app.get("/api/runs", handleListRuns);
+  app.get("/api/runs/:id", handleGetRun);
+  app.delete("/api/runs/:id", handleDeleteRun);
+  app.post("/api/crawl", handleStartCrawl);
+  app.get("/api/crawl", handleListCrawls);
+  app.get("/api/crawl/:id", handleGetCrawl);
+  app.delete("/api/crawl/:id", handleCancelCrawl);
+  app.post("/api/sitemap", handleSitemap);
+  app.get("/api/changes", handleListChanges);
 
   return app;
 }
@@ -0,0 +1,11 @@
+import type { RequestHandler } from "express";
+import type { ChangesResponse } from "@shared/api";
+import { recentChanges } from "../core/changes";
+
+/** Change events seen by this process, newest first; `?since=` epoch ms. */
+export const handleListChanges: RequestHandler = (req, res) => {
+  const since = Math.max(Number(req.query.since) || 0, 0);
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+  const payload: ChangesResponse = { changes: recentChanges(since, limit) };
+  res.status(200).json(payload);
+};
@@ -0,0 +1,37 @@
+import type { RequestHandler } from "express";
+import type { CrawlListResponse } from "@shared/api";
+import { cancelCrawl, getCrawl, listCrawls, startCrawl } from "../scrape/crawl";
+
+/** Start a crawl in the background; poll `GET /api/crawl/:id` for progress. */
+export const handleStartCrawl: RequestHandler = (req, res) => {
+  const started = startCrawl(req.body);
+  if ("error" in started) {
+    res.status(400).json({ error: started.error });
+    return;
+  }
+  res.status(202).json(getCrawl(started.id));
+};
+
+export const handleListCrawls: RequestHandler = (_req, res) => {
+  const payload: CrawlListResponse = { crawls: listCrawls() };
+  res.status(200).json(payload);
+};
+
+/** `?since=n` returns only pages after the first n, for incremental polling. */
+export const handleGetCrawl: RequestHandler = (req, res) => {
+  const since = Math.max(Number(req.query.since) || 0, 0);
+  const crawl = getCrawl(req.params.id, since);
+  if (!crawl) {
+    res.status(404).json({ error: "Crawl not found" });
+    return;
+  }
+  res.status(200).json(crawl);
+};
+
+export const handleCancelCrawl: RequestHandler = (req, res) => {
+  if (!cancelCrawl(req.params.id)) {
+    res.status(404).json({ error: "Crawl not found" });
+    return;
+  }
+  res.status(200).json(getCrawl(req.params.id));
+};
@@ -0,0 +1,83 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { JobRegistry } from "../core/jobs";
+import { jobHandlers } from "./jobs";
+
+describe("job routes", () => {
+  let jobs: JobRegistry<string>;
+  let server: ReturnType<express.Express["listen"]>;
+  let base: string;
+
+  beforeEach(async () => {
+    jobs = new JobRegistry<string>();
+    const handlers = jobHandlers(jobs);
+    const app = express();
+    app.use(express.json());
+    app.post("/api/scraper/stop", handlers.stop);
+    app.get("/api/scraper/jobs", handlers.list);
+    app.get("/api/scraper/jobs/:id", handlers.get);
+    app.delete("/api/scraper/jobs/:id", handlers.cancel);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once("listening", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    jobs.cancelAll();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  /** A job that records "a" and then waits until it is cancelled. */
+  function startJob() {
+    return jobs.startJob(2, async (signal, record) => {
+      record("a");
+      await new Promise((resolve) => signal.addEventListener("abort", resolve));
+    });
+  }
+
+  it("lists jobs without results and shows one with them", async () => {
+    const job = startJob();
+    const list = await (await fetch(`${base}/api/scraper/jobs`)).json();
+    expect(list.jobs).toEqual([
+      expect.objectContaining({ id: job.id, state: "running", completed: 1 }),
+    ]);
+    expect(list.jobs[0].results).toBeUndefined();
+
+    const one = await (
+      await fetch(`${base}/api/scraper/jobs/${job.id}`)
+    ).json();
+    expect(one).toMatchObject({ id: job.id, results: ["a"] });
+    expect((await fetch(`${base}/api/scraper/jobs/nope`)).status).toBe(404);
+  });
+
+  it("cancels one job by ID", async () => {
+    const job = startJob();
+    const res = await fetch(`${base}/api/scraper/jobs/${job.id}`, {
+      method: "DELETE",
+    });
+    expect(await res.json()).toMatchObject({ id: job.id, state: "cancelled" });
+    const missing = await fetch(`${base}/api/scraper/jobs/nope`, {
+      method: "DELETE",
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it("stops every running job when no jobId is given", async () => {
+    const [a, b] = [startJob(), startJob()];
+    const res = await fetch(`${base}/api/scraper/stop`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+    expect((await res.json()).jobIds.sort()).toEqual([a.id, b.id].sort());
+    expect([a.state, b.state]).toEqual(["cancelled", "cancelled"]);
+
+    const unknown = await fetch(`${base}/api/scraper/stop`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jobId: "nope" }),
+    });
+    expect(unknown.status).toBe(404);
+  });
+});
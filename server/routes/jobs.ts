@@ -0,0 +1,53 @@
+import type { RequestHandler } from "express";
+import { JobRegistry, summarizeJob } from "../core/jobs";
+
+/** The job operations the routes need; AdvancedScraperEngine provides them. */
+export type JobControl = Pick<
+  JobRegistry<unknown>,
+  "listJobs" | "getJob" | "cancelJob"
+>;
+
+/** Handlers for `/api/scraper/stop` and `/api/scraper/jobs[/:id]`. */
+export function jobHandlers(jobs: JobControl) {
+  /** Cancels the job given by `jobId`, or every running job when omitted. */
+  const stop: RequestHandler = (req, res) => {
+    const { jobId } = req.body ?? {};
+    if (jobId && !jobs.cancelJob(jobId)) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+    const ids: string[] = jobId
+      ? [jobId]
+      : jobs
+          .listJobs()
+          .filter((job) => job.state === "running")
+          .map((job) => job.id);
+    if (!jobId) ids.forEach((id) => jobs.cancelJob(id));
+    res.json({ success: true, message: "Scraping stopped", jobIds: ids });
+  };
+
+  /** Running jobs first. */
+  const list: RequestHandler = (_req, res) => {
+    res.json({ jobs: jobs.listJobs() });
+  };
+
+  /** One job, including the results gathered so far. */
+  const get: RequestHandler = (req, res) => {
+    const job = jobs.getJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+    res.json(job);
+  };
+
+  const cancel: RequestHandler = (req, res) => {
+    if (!jobs.cancelJob(req.params.id)) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+    res.json(summarizeJob(jobs.getJob(req.params.id)!));
+  };
+
+  return { stop, list, get, cancel };
+}
@@ -5,6 +5,14 @@ import type {
   ProxyStat,
   AlertItem,
 } from "@shared/api";
+import { computeMetrics } from "../core/telemetry";
+import { proxyPool } from "../core/proxyPool";
+import { recentChanges } from "../core/changes";
+
+/*
+ * The simulator below only backs demo mode (`?demo=1` or METRICS_DEMO=1).
+ * Real metrics come from request telemetry.
+ */
 
 let initialized = false;
 let series: TimePoint[] = [];
@@ -136,7 +144,7 @@ function summarize(): MetricsResponse {
     p95ResponseTime: avg(series.map((p) => p.p95)),
     activeProxies: proxies.length,
   };
-  return { summary, series, proxies, alerts };
+  return { summary, series, proxies, alerts, demo: true };
 }
 
 function avg(nums: number[]) {
@@ -156,9 +164,40 @@ function clampInt(n: number, min: number, max: number) {
   return Math.round(clamp(n, min, max));
 }
 
-export const handleMetrics: RequestHandler = (_req, res) => {
-  init();
-  step();
-  const data = summarize();
+function isDemo(query: Record<string, unknown>) {
+  const flag = String(query.demo ?? process.env.METRICS_DEMO ?? "");
+  return flag === "1" || flag === "true";
+}
+
+export const handleMetrics: RequestHandler = (req, res) => {
+  if (isDemo(req.query)) {
+    init();
+    step();
+    res.status(200).json(summarize());
+    return;
+  }
+  const data: MetricsResponse = computeMetrics();
+  // The pool's lifetime stats and quarantine state replace the per-window
+  // telemetry view of proxies; direct traffic is still shown from telemetry
+  if (proxyPool.size) {
+    data.proxies = [
+      ...proxyPool.stats(),
+      ...data.proxies.filter((p) => p.proxy === "direct"),
+    ];
+    data.summary.activeProxies = proxyPool.available();
+  }
+  // Content changes within the window surface as informational alerts
+  const changeAlerts: AlertItem[] = recentChanges(Date.now() - 10 * 60_000, 10)
+    .reverse()
+    .map((e) => ({
+      id: `chg-${e.id}`,
+      type: "content_changed",
+      message: `${e.changes.length} field${e.changes.length === 1 ? "" : "s"} changed on ${e.url}`,
+      severity: "info",
+      timestamp: e.timestamp,
+    }));
+  data.alerts = [...data.alerts, ...changeAlerts].sort(
+    (a, b) => a.timestamp - b.timestamp,
+  );
   res.status(200).json(data);
 };
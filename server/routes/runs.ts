@@ -0,0 +1,28 @@
+import type { RequestHandler } from "express";
+import type { ScrapeRunsResponse } from "@shared/api";
+import { deleteRun, getRun, listRuns } from "../scrape/runs";
+
+export const handleListRuns: RequestHandler = async (req, res) => {
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+  const offset = Math.max(Number(req.query.offset) || 0, 0);
+  const payload: ScrapeRunsResponse = await listRuns(limit, offset);
+  res.status(200).json(payload);
+};
+
+export const handleGetRun: RequestHandler = async (req, res) => {
+  const run = await getRun(req.params.id);
+  if (!run) {
+    res.status(404).json({ error: "Run not found" });
+    return;
+  }
+  res.status(200).json(run);
+};
+
+export const handleDeleteRun: RequestHandler = async (req, res) => {
+  const deleted = await deleteRun(req.params.id);
+  if (!deleted) {
+    res.status(404).json({ error: "Run not found" });
+    return;
+  }
+  res.status(204).end();
+};
@@ -0,0 +1,134 @@
+import express from "express";
+import { mkdtemp, rm } from "fs/promises";
+import { createServer, IncomingMessage, Server } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { listRuns } from "../scrape/runs";
+import { handleScrapeStream } from "./scrape";
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () =>
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`),
+    ),
+  );
+}
+
+/** `event:` / `data:` blocks of an SSE body, data parsed as JSON. */
+function parseEvents(body: string) {
+  return body
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const [event, data] = block.split("\n");
+      return {
+        event: event.replace(/^event: /, ""),
+        data: JSON.parse(data.replace(/^data: /, "")),
+      };
+    });
+}
+
+describe("POST /api/scrape/stream", () => {
+  let dir: string;
+  let origin: Server;
+  let api: Server;
+  let originUrl: string;
+  let apiUrl: string;
+  // Resolves once the client side of /slow has hung up
+  let slowClosed: Promise<void>;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "stream-"));
+    process.env.SCRAPER_DATA_DIR = dir;
+
+    let onSlowClose!: () => void;
+    slowClosed = new Promise((resolve) => (onSlowClose = resolve));
+    origin = createServer((req: IncomingMessage, res) => {
+      if (req.url === "/slow") {
+        req.on("close", onSlowClose);
+        return;
+      }
+      res.setHeader("Content-Type", "text/html");
+      res.end(`<title>Page ${req.url}</title>`);
+    });
+    originUrl = await listen(origin);
+
+    const app = express();
+    app.use(express.json());
+    app.post("/api/scrape/stream", handleScrapeStream);
+    api = createServer(app);
+    apiUrl = await listen(api);
+  });
+
+  afterAll(async () => {
+    origin.closeAllConnections();
+    await new Promise((resolve) => origin.close(resolve));
+    api.closeAllConnections();
+    await new Promise((resolve) => api.close(resolve));
+    delete process.env.SCRAPER_DATA_DIR;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function post(urls: string[], signal?: AbortSignal) {
+    return fetch(`${apiUrl}/api/scrape/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        urls: urls.map((u) => originUrl + u),
+        options: { respectRobotsTxt: false, httpCache: false, concurrency: 2 },
+      }),
+      signal,
+    });
+  }
+
+  it("sends one item event per URL, then a done summary", async () => {
+    const res = await post(["/a", "/b"]);
+    expect(res.headers.get("content-type")).toMatch(/text\/event-stream/);
+    const events = parseEvents(await res.text());
+
+    expect(events.map((e) => e.event)).toEqual(["item", "item", "done"]);
+    expect(
+      events
+        .slice(0, 2)
+        .map((e) => e.data.title)
+        .sort(),
+    ).toEqual(["Page /a", "Page /b"]);
+    expect(events[2].data).toMatchObject({
+      total: 2,
+      success: 2,
+      failed: 0,
+      runId: expect.any(String),
+    });
+  });
+
+  it("answers a bad request with 400 JSON instead of a stream", async () => {
+    const res = await fetch(`${apiUrl}/api/scrape/stream`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "Provide 'url' or 'urls'" });
+  });
+
+  it("stops scraping when the client aborts mid-stream", async () => {
+    const before = (await listRuns()).total;
+    const controller = new AbortController();
+    const res = await post(["/a", "/slow"], controller.signal);
+
+    const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let received = "";
+    while (!received.includes("\n\n")) {
+      received += (await reader.read()).value;
+    }
+    expect(parseEvents(received)[0]).toMatchObject({ event: "item" });
+    controller.abort();
+
+    // The in-flight fetch of /slow is cancelled, and no run is saved
+    await slowClosed;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect((await listRuns()).total).toBe(before);
+  });
+});
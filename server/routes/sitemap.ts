@@ -0,0 +1,21 @@
+import type { RequestHandler } from "express";
+import type { SitemapResponse } from "@shared/api";
+import { loadSitemap, validateSitemapSource } from "../core/sitemap";
+
+/**
+ * Expand a `SitemapSource` into its page URLs without scraping them, to
+ * preview what a sitemap-seeded crawl would visit.
+ */
+export const handleSitemap: RequestHandler = async (req, res) => {
+  const error = validateSitemapSource(req.body);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+  try {
+    const payload: SitemapResponse = await loadSitemap(req.body);
+    res.status(200).json(payload);
+  } catch (e: any) {
+    res.status(502).json({ error: e?.message ?? String(e) });
+  }
+};
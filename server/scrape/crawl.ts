@@ -0,0 +1,194 @@
+import { randomUUID } from "crypto";
+import type {
+  CrawlPage,
+  CrawlRequest,
+  CrawlStatus,
+  SitemapSource,
+} from "@shared/api";
+import { CrawlFrontier, validateScope } from "../core/frontier";
+import { loadSitemap, validateSitemapSource } from "../core/sitemap";
+import { parseScrapeRequest, scrapeOne } from "./runner";
+import type { ScrapeJob } from "./runner";
+
+const MAX_DEPTH = 5;
+const MAX_PAGES = 500;
+// Crawls need every link on a page, not just the preview's first 100
+const CRAWL_MAX_LINKS = 1000;
+// Finished crawls kept in memory for polling before the oldest are dropped
+const MAX_FINISHED = 50;
+
+interface CrawlJob {
+  status: Omit<CrawlStatus, "pages" | "queued" | "discovered">;
+  pages: CrawlPage[];
+  frontier: CrawlFrontier;
+  controller: AbortController;
+  sitemap?: SitemapSource;
+}
+
+const crawls = new Map<string, CrawlJob>();
+
+/**
+ * Validate a `CrawlRequest` and start crawling in the background. Returns the
+ * new crawl's id, or an error message when the request can't be run. With a
+ * `sitemap` source its URLs are loaded first and crawled as extra seeds.
+ */
+export function startCrawl(body: any): { id: string } | { error: string } {
+  const seeds: string[] = Array.isArray(body?.seeds) ? body.seeds : [];
+  const sitemap: SitemapSource | undefined = body?.sitemap;
+  if (sitemap !== undefined) {
+    const sitemapError = validateSitemapSource(sitemap);
+    if (sitemapError) return { error: sitemapError };
+  }
+  // Only the options matter here; the frontier owns the URLs
+  const job = parseScrapeRequest({
+    ...body,
+    urls: seeds.length ? seeds : [sitemap?.url ?? sitemap?.site],
+  });
+  if ("error" in job) {
+    return { error: seeds.length || sitemap ? job.error : "Provide 'seeds'" };
+  }
+  const scopeError = validateScope(body?.scope);
+  if (scopeError) return { error: scopeError };
+
+  const request = body as CrawlRequest;
+  const maxDepth = clamp(request.maxDepth ?? 2, 0, MAX_DEPTH);
+  const maxPages = clamp(request.maxPages ?? 50, 1, MAX_PAGES);
+  const frontier = new CrawlFrontier(seeds, {
+    maxDepth,
+    maxPages,
+    scope: request.scope ?? {},
+  });
+  if (!frontier.pending && !sitemap) {
+    return { error: "No valid http(s) seed URLs" };
+  }
+
+  const id = randomUUID();
+  const crawl: CrawlJob = {
+    status: {
+      id,
+      state: "running",
+      startedAt: Date.now(),
+      maxDepth,
+      maxPages,
+      pagesCrawled: 0,
+    },
+    pages: [],
+    frontier,
+    controller: new AbortController(),
+    sitemap,
+  };
+  crawls.set(id, crawl);
+  pruneFinished();
+
+  runCrawl(crawl, { ...job, maxLinks: CRAWL_MAX_LINKS })
+    .then(() => {
+      if (crawl.status.state === "running") crawl.status.state = "completed";
+    })
+    .catch((e) => {
+      crawl.status.state = "failed";
+      crawl.status.error = e?.message ?? String(e);
+    })
+    .finally(() => {
+      crawl.status.finishedAt = Date.now();
+    });
+
+  return { id };
+}
+
+/** Current status of a crawl with the pages found from `since` onwards. */
+export function getCrawl(id: string, since = 0): CrawlStatus | undefined {
+  const crawl = crawls.get(id);
+  return crawl && { ...summarize(crawl), pages: crawl.pages.slice(since) };
+}
+
+export function listCrawls(): Omit<CrawlStatus, "pages">[] {
+  return [...crawls.values()]
+    .map(summarize)
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/** Stop a running crawl. Returns false if there is no such crawl. */
+export function cancelCrawl(id: string): boolean {
+  const crawl = crawls.get(id);
+  if (!crawl) return false;
+  if (crawl.status.state === "running") {
+    crawl.status.state = "cancelled";
+    crawl.controller.abort();
+  }
+  return true;
+}
+
+async function runCrawl(crawl: CrawlJob, job: ScrapeJob): Promise<void> {
+  const { frontier, controller } = crawl;
+  const signal = controller.signal;
+  const nextSlot = new Map<string, number>();
+  const inFlight = new Set<Promise<void>>();
+
+  if (crawl.sitemap) {
+    // Seeds beyond the page budget would never be visited
+    const sitemap = await loadSitemap(crawl.sitemap, {
+      maxUrls: crawl.status.maxPages,
+    });
+    if (signal.aborted) return;
+    crawl.status.sitemapUrls = frontier.addSeeds(
+      sitemap.urls.map((u) => u.loc),
+    );
+    if (!sitemap.urls.length && sitemap.errors.length && !frontier.pending) {
+      throw new Error(`Sitemap failed: ${sitemap.errors[0].error}`);
+    }
+  }
+
+  const visit = async (url: string, depth: number, referrer?: string) => {
+    const item = await scrapeOne(url, job, nextSlot, signal);
+    if (signal.aborted) return;
+    crawl.pages.push({ ...item, depth, referrer });
+    crawl.status.pagesCrawled++;
+    if (item.success && (item.status ?? 0) < 400 && item.links) {
+      frontier.addLinks(
+        item.links.map((l) => l.href),
+        depth,
+        url,
+      );
+    }
+  };
+
+  // Keep up to `concurrency` pages in flight; the frontier grows as they land
+  for (;;) {
+    if (signal.aborted) break;
+    const entry = inFlight.size < job.concurrency ? frontier.next() : undefined;
+    if (entry) {
+      const p = visit(entry.url, entry.depth, entry.referrer).finally(() =>
+        inFlight.delete(p),
+      );
+      inFlight.add(p);
+      continue;
+    }
+    if (!inFlight.size) break;
+    await Promise.race(inFlight);
+  }
+  await Promise.all(inFlight);
+}
+
+function summarize(crawl: CrawlJob): Omit<CrawlStatus, "pages"> {
+  return {
+    ...crawl.status,
+    queued: crawl.status.state === "running" ? crawl.frontier.pending : 0,
+    discovered: crawl.frontier.discovered,
+  };
+}
+
+function pruneFinished() {
+  const finished = [...crawls.values()]
+    .filter((c) => c.status.state !== "running")
+    .sort((a, b) => a.status.startedAt - b.status.startedAt);
+  for (const c of finished.slice(
+    0,
+    Math.max(0, finished.length - MAX_FINISHED),
+  )) {
+    crawls.delete(c.status.id);
+  }
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.min(Math.max(Math.floor(Number(n)) || min, min), max);
+}
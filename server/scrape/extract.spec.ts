@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { extractPage, validateFieldSpecs } from "./extract";
+
+const html = `<!doctype html>
+<html lang=en-GB>
+<head>
+  <title>Don&#8217;t panic &amp; carry a towel</title>
+  <meta content="A guide" name=description>
+  <meta property="og:title" content="OG title">
+  <link rel="canonical" href="/guide">
+  <script>var x = "<a href='/nope'>no</a>";</script>
+</head>
+<body>
+  <h1>Guide</h1>
+  <p>First&nbsp;para</p><p>Second para</p>
+  <h2>Details <small>(more)</small></h2>
+  <a href=/about>About <b>us</b></a>
+  <a href="https://other.example/x#frag"><img alt="Logo"></a>
+  <a href="mailto:someone@example.com">Mail</a>
+</body>
+</html>`;
+
+describe("extractPage", () => {
+  const page = extractPage(html, "https://example.com/docs/index.html");
+
+  it("decodes numeric and named entities in the title", () => {
+    expect(page.title).toBe("Don’t panic & carry a towel");
+  });
+
+  it("reads meta tags regardless of attribute order or quoting", () => {
+    expect(page.metadata?.description).toBe("A guide");
+    expect(page.metadata?.["og:title"]).toBe("OG title");
+  });
+
+  it("resolves canonical URL and language", () => {
+    expect(page.canonicalUrl).toBe("https://example.com/guide");
+    expect(page.lang).toBe("en-GB");
+  });
+
+  it("collects headings with their level", () => {
+    expect(page.headings).toEqual([
+      { level: 1, text: "Guide" },
+      { level: 2, text: "Details (more)" },
+    ]);
+  });
+
+  it("extracts http links with full text, ignoring script content", () => {
+    expect(page.links).toEqual([
+      { href: "https://example.com/about", text: "About us" },
+      { href: "https://other.example/x", text: "Logo" },
+    ]);
+  });
+
+  it("keeps block boundaries in the text preview", () => {
+    expect(page.textPreview).toContain("First para Second para");
+    expect(page.textPreview).not.toContain("var x");
+  });
+});
+
+describe("extractPage fields", () => {
+  const page = extractPage(html, "https://example.com/docs/", {
+    fields: {
+      heading: "h1",
+      paragraphs: "p",
+      missing: ".nope",
+      about: { selector: "a[href='/about']", attribute: "href" },
+      aboutHtml: { selector: "a[href='/about']", mode: "html" },
+      broken: "p[",
+    },
+  });
+
+  it("returns a string for one match and an array for many", () => {
+    expect(page.fields?.heading).toBe("Guide");
+    expect(page.fields?.paragraphs).toEqual(["First para", "Second para"]);
+  });
+
+  it("returns null for no match or an invalid selector", () => {
+    expect(page.fields?.missing).toBeNull();
+    expect(page.fields?.broken).toBeNull();
+  });
+
+  it("resolves URL attributes and supports html mode", () => {
+    expect(page.fields?.about).toBe("https://example.com/about");
+    expect(page.fields?.aboutHtml).toBe("About <b>us</b>");
+  });
+
+  it("rejects malformed field maps", () => {
+    expect(
+      validateFieldSpecs({ a: "h1", b: { selector: "p" } }),
+    ).toBeUndefined();
+    expect(validateFieldSpecs(["h1"])).toMatch(/must be an object/);
+    expect(validateFieldSpecs({ a: { attribute: "href" } })).toMatch(/'a'/);
+    expect(validateFieldSpecs({ a: { selector: "p", mode: "json" } })).toMatch(
+      /unknown mode/,
+    );
+  });
+});
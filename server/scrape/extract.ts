@@ -0,0 +1,247 @@
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import type { FieldSpec, FieldValue, ScrapeItem } from "@shared/api";
+import { extractStructuredData } from "./structured";
+
+const SKIPPED_TAGS = new Set("script style noscript template svg".split(" "));
+// Elements whose boundaries separate words in the rendered text
+const BLOCK_TAGS = new Set(
+  (
+    "address article aside blockquote br dd div dl dt figcaption footer form " +
+    "h1 h2 h3 h4 h5 h6 header hr li main nav ol option p pre section table " +
+    "td th tr ul"
+  ).split(" "),
+);
+const MAX_LINKS = 100;
+const MAX_HEADINGS = 50;
+
+export type ExtractedPage = Pick<
+  ScrapeItem,
+  | "title"
+  | "textPreview"
+  | "links"
+  | "metadata"
+  | "canonicalUrl"
+  | "lang"
+  | "headings"
+  | "fields"
+  | "structured"
+>;
+
+export interface ExtractOptions {
+  previewLength?: number;
+  maxLinks?: number;
+  fields?: Record<string, FieldSpec>;
+}
+
+// Attributes that hold URLs and are resolved against the page like links are
+const URL_ATTRIBUTES = new Set(["href", "src", "action", "poster", "data-src"]);
+
+export function loadDocument(html: string): CheerioAPI {
+  return cheerio.load(html);
+}
+
+/**
+ * Parse an HTML document into a DOM and pull out the fields `ScrapeItem`
+ * reports. Entities are decoded by the parser, so every string returned here
+ * is plain text.
+ */
+export function extractPage(
+  html: string,
+  baseUrl: string,
+  { previewLength = 3000, maxLinks = MAX_LINKS, fields }: ExtractOptions = {},
+): ExtractedPage {
+  const $ = loadDocument(html);
+  const metadata = extractMeta($);
+  const base = resolveBase($, baseUrl);
+  const structured = extractStructuredData($, base);
+  return {
+    title: extractTitle($) || metadata["og:title"],
+    textPreview: extractText($).slice(0, previewLength),
+    links: extractLinks($, base, maxLinks),
+    metadata,
+    canonicalUrl: extractCanonical($, base),
+    lang: $("html").attr("lang")?.trim() || metadata["content-language"],
+    headings: extractHeadings($),
+    ...(fields && { fields: extractFields($, fields, base) }),
+    ...(structured && { structured }),
+  };
+}
+
+/**
+ * Apply named selectors to the document, the same way the scraper engines
+ * apply `target.selectors`. A selector that fails to parse yields null.
+ */
+export function extractFields(
+  $: CheerioAPI,
+  specs: Record<string, FieldSpec>,
+  base: string,
+): Record<string, FieldValue> {
+  const fields: Record<string, FieldValue> = {};
+  for (const [name, spec] of Object.entries(specs)) {
+    const { selector, attribute, mode } =
+      typeof spec === "string" ? { selector: spec } : spec;
+    try {
+      const values = $(selector)
+        .toArray()
+        .map((el) => {
+          if (attribute) {
+            const value = $(el).attr(attribute);
+            if (value === undefined) return undefined;
+            return URL_ATTRIBUTES.has(attribute.toLowerCase())
+              ? (resolveUrl(value, base) ?? value)
+              : value.trim();
+          }
+          return mode === "html" ? ($(el).html() ?? "").trim() : textOf(el);
+        })
+        .filter((v): v is string => v !== undefined);
+      fields[name] =
+        values.length === 0 ? null : values.length === 1 ? values[0] : values;
+    } catch {
+      fields[name] = null;
+    }
+  }
+  return fields;
+}
+
+/** A field in object form, before its properties have been checked. */
+function isFieldObject(
+  spec: unknown,
+): spec is { selector?: unknown; mode?: unknown } {
+  return typeof spec === "object" && spec !== null;
+}
+
+/** Check a request's `fields` map, returning an error message if malformed. */
+export function validateFieldSpecs(fields: unknown): string | undefined {
+  if (typeof fields !== "object" || fields === null || Array.isArray(fields)) {
+    return "'fields' must be an object of name to selector";
+  }
+  for (const [name, spec] of Object.entries(fields)) {
+    const selector =
+      typeof spec === "string"
+        ? spec
+        : isFieldObject(spec)
+          ? spec.selector
+          : undefined;
+    if (typeof selector !== "string" || !selector.trim()) {
+      return `Field '${name}' needs a selector`;
+    }
+    const mode = isFieldObject(spec) ? spec.mode : undefined;
+    if (mode !== undefined && mode !== "text" && mode !== "html") {
+      return `Field '${name}' has unknown mode '${mode}'`;
+    }
+  }
+  return undefined;
+}
+
+export function extractTitle($: CheerioAPI): string | undefined {
+  const title = collapseWhitespace($("head > title, title").first().text());
+  return title || undefined;
+}
+
+export function extractMeta($: CheerioAPI): Record<string, string> {
+  const meta: Record<string, string> = {};
+  $("meta").each((_, el) => {
+    const $el = $(el);
+    const key =
+      $el.attr("name") ?? $el.attr("property") ?? $el.attr("http-equiv");
+    const content = $el.attr("content");
+    if (key && content !== undefined) {
+      meta[key.trim().toLowerCase()] = collapseWhitespace(content);
+    }
+    const charset = $el.attr("charset");
+    if (charset) meta.charset = charset.trim();
+  });
+  return meta;
+}
+
+export function extractLinks(
+  $: CheerioAPI,
+  base: string,
+  max = MAX_LINKS,
+): { href: string; text?: string }[] {
+  const links: { href: string; text?: string }[] = [];
+  $("a[href]").each((_, el) => {
+    const $el = $(el);
+    const resolved = resolveUrl($el.attr("href")!, base);
+    if (!resolved || !/^https?:/.test(resolved)) return;
+    const text = collapseWhitespace(
+      textOf(el) || $el.attr("title") || $el.find("img[alt]").attr("alt") || "",
+    ).slice(0, 120);
+    links.push({ href: resolved, text: text || undefined });
+  });
+  return dedupeBy(links, (l) => l.href).slice(0, max);
+}
+
+export function extractHeadings(
+  $: CheerioAPI,
+): { level: number; text: string }[] {
+  const headings: { level: number; text: string }[] = [];
+  $("h1, h2, h3, h4, h5, h6").each((_, el) => {
+    const text = collapseWhitespace(textOf(el));
+    if (text) headings.push({ level: Number(el.tagName[1]), text });
+  });
+  return headings.slice(0, MAX_HEADINGS);
+}
+
+export function extractCanonical(
+  $: CheerioAPI,
+  base: string,
+): string | undefined {
+  const href = $('link[rel~="canonical"]').first().attr("href");
+  return href ? resolveUrl(href, base) : undefined;
+}
+
+/** Visible text of the document body, with block boundaries kept as spaces. */
+export function extractText($: CheerioAPI): string {
+  const root = $("body").get(0) ?? $.root().get(0);
+  return textOf(root);
+}
+
+function textOf(node: any): string {
+  const parts: string[] = [];
+  const walk = (n: any) => {
+    if (n.type === "text") {
+      parts.push(n.data);
+    } else if (n.children && !SKIPPED_TAGS.has(n.name)) {
+      const block = BLOCK_TAGS.has(n.name);
+      if (block) parts.push(" ");
+      n.children.forEach(walk);
+      if (block) parts.push(" ");
+    }
+  };
+  walk(node);
+  return collapseWhitespace(parts.join(""));
+}
+
+function resolveBase($: CheerioAPI, pageUrl: string): string {
+  const href = $("base[href]").first().attr("href");
+  return (href && resolveUrl(href, pageUrl)) || pageUrl;
+}
+
+function resolveUrl(href: string, base: string): string | undefined {
+  try {
+    const url = new URL(href.trim(), base);
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+export function collapseWhitespace(s: string) {
+  return s.replace(/\s+/g, " ").trim();
+}
+
+function dedupeBy<T>(arr: T[], key: (t: T) => string): T[] {
+  const seen = new Set<string>();
+  const out: T[] = [];
+  for (const item of arr) {
+    const k = key(item);
+    if (!seen.has(k)) {
+      seen.add(k);
+      out.push(item);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,330 @@
+import type { ScrapeRequest, ScrapeItem } from "@shared/api";
+import { extractPage, validateFieldSpecs } from "./extract";
+import { recordRequest } from "../core/telemetry";
+import { ROBOTS_USER_AGENT, robotsCache } from "../core/robots";
+import {
+  CachedResponse,
+  conditionalHeaders,
+  httpCache,
+  isFresh,
+} from "../core/httpCache";
+import { DecodedBody, decodeBody } from "../core/charset";
+import { detectChanges, targetKey } from "../core/changes";
+
+const MAX_URLS = 25;
+// Longer Crawl-delay values are clamped so one request can't hang for minutes
+const MAX_CRAWL_DELAY_SEC = 30;
+
+export interface ScrapeJob {
+  urls: string[];
+  fields?: ScrapeRequest["fields"];
+  userAgent?: string;
+  timeoutSec: number;
+  concurrency: number;
+  respectRobotsTxt: boolean;
+  /** Revalidate against the persistent HTTP cache instead of refetching */
+  httpCache: boolean;
+  /** Cap on links returned per page; the extractor's default when unset */
+  maxLinks?: number;
+}
+
+/**
+ * Validate a `ScrapeRequest` body and clamp its options. Returns an error
+ * message instead of a job when the request can't be run.
+ */
+export function parseScrapeRequest(body: any): ScrapeJob | { error: string } {
+  const input: string[] = body?.urls?.length
+    ? body.urls
+    : body?.url
+      ? [body.url]
+      : [];
+  if (!input.length) {
+    return { error: "Provide 'url' or 'urls'" };
+  }
+  const fields: ScrapeRequest["fields"] = body?.fields;
+  const fieldsError =
+    fields !== undefined ? validateFieldSpecs(fields) : undefined;
+  if (fieldsError) {
+    return { error: fieldsError };
+  }
+  const options = body?.options || {};
+  return {
+    urls: input.slice(0, MAX_URLS),
+    fields,
+    userAgent: options.userAgent,
+    timeoutSec: Math.min(Math.max(Number(options.timeout) || 12, 5), 30),
+    concurrency: Math.min(Math.max(Number(options.concurrency) || 4, 1), 10),
+    respectRobotsTxt: options.respectRobotsTxt !== false,
+    httpCache: options.httpCache !== false,
+  };
+}
+
+/** The normalized request a job was built from, as stored in run history. */
+export function jobToRequest(job: ScrapeJob): ScrapeRequest {
+  return {
+    urls: job.urls,
+    fields: job.fields,
+    options: {
+      timeout: job.timeoutSec,
+      concurrency: job.concurrency,
+      userAgent: job.userAgent,
+      respectRobotsTxt: job.respectRobotsTxt,
+      httpCache: job.httpCache,
+    },
+  };
+}
+
+/**
+ * Scrape every URL of the job with `concurrency` workers, calling `onItem` as
+ * each one finishes. Aborting `signal` stops workers from taking new URLs and
+ * cancels in-flight fetches.
+ */
+export async function runScrape(
+  job: ScrapeJob,
+  onItem?: (item: ScrapeItem) => void,
+  signal?: AbortSignal,
+): Promise<ScrapeItem[]> {
+  const queue = [...job.urls];
+  const results: ScrapeItem[] = [];
+  // Earliest time the next request to each host may start, for Crawl-delay
+  const nextSlot = new Map<string, number>();
+
+  async function worker() {
+    while (queue.length && !signal?.aborted) {
+      const url = queue.shift()!;
+      const item = await scrapeOne(url, job, nextSlot, signal);
+      if (signal?.aborted) return;
+      results.push(item);
+      onItem?.(item);
+    }
+  }
+
+  const workers = Array.from({ length: job.concurrency }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Fetch and extract one URL of a job, first checking robots.txt and waiting
+ * out the host's Crawl-delay. `nextSlot` holds the earliest start time per
+ * host and is shared by every worker of the job.
+ */
+export async function scrapeOne(
+  url: string,
+  job: ScrapeJob,
+  nextSlot: Map<string, number>,
+  signal?: AbortSignal,
+): Promise<ScrapeItem> {
+  const verdict = job.respectRobotsTxt
+    ? await checkRobots(url, job)
+    : undefined;
+  if (verdict && !verdict.allowed) {
+    return {
+      url,
+      success: false,
+      skipped: "robots_disallowed",
+      error: verdict.unreachable
+        ? "robots.txt could not be fetched"
+        : "Disallowed by robots.txt",
+    };
+  }
+  if (verdict?.crawlDelay) {
+    await waitForSlot(url, verdict.crawlDelay, nextSlot, signal);
+  }
+  const item = await scrapeUrl(url, job, signal);
+  return job.fields ? withChanges(item, job.fields) : item;
+}
+
+/**
+ * Diff extracted fields against the last scrape of the same URL and field
+ * specs. Error pages aren't compared, so an outage doesn't read as every
+ * field being cleared.
+ */
+async function withChanges(
+  item: ScrapeItem,
+  fields: NonNullable<ScrapeRequest["fields"]>,
+): Promise<ScrapeItem> {
+  if (!item.success || !item.fields || (item.status ?? 0) >= 400) return item;
+  try {
+    const { changes, previousTimestamp } = await detectChanges(
+      targetKey(item.url, fields),
+      item.url,
+      item.fields,
+      "scrape",
+    );
+    return previousTimestamp === undefined ? item : { ...item, changes };
+  } catch (e) {
+    console.error("Failed to compare snapshot:", e);
+    return item;
+  }
+}
+
+async function checkRobots(url: string, job: ScrapeJob) {
+  try {
+    // Match groups for our own token as well as the caller's user agent
+    const agent = [ROBOTS_USER_AGENT, job.userAgent].filter(Boolean).join(" ");
+    return await robotsCache.check(url, agent);
+  } catch {
+    // Not a valid URL; let the fetch report the error
+    return undefined;
+  }
+}
+
+async function waitForSlot(
+  url: string,
+  crawlDelaySec: number,
+  nextSlot: Map<string, number>,
+  signal?: AbortSignal,
+) {
+  const host = new URL(url).host;
+  const now = Date.now();
+  const at = Math.max(now, nextSlot.get(host) ?? 0);
+  nextSlot.set(host, at + Math.min(crawlDelaySec, MAX_CRAWL_DELAY_SEC) * 1000);
+  if (at > now) await sleep(at - now, signal);
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const t = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+    function done() {
+      clearTimeout(t);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+async function scrapeUrl(
+  url: string,
+  job: ScrapeJob,
+  signal?: AbortSignal,
+): Promise<ScrapeItem> {
+  const cached = job.httpCache ? await httpCache.get(url) : undefined;
+  // Still fresh per Cache-Control / Expires: no request needed at all
+  if (cached && isFresh(cached)) {
+    return toItem(
+      url,
+      cached.finalUrl ?? url,
+      cached.status,
+      cached.headers,
+      cachedBody(cached),
+      job,
+      { unchanged: true },
+    );
+  }
+
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), job.timeoutSec * 1000);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort);
+  const started = Date.now();
+  let recorded = false;
+  try {
+    const r = await fetch(url, {
+      redirect: "follow",
+      signal: controller.signal,
+      headers: {
+        ...(job.userAgent ? { "user-agent": job.userAgent } : {}),
+        ...conditionalHeaders(cached),
+      },
+    });
+    const headers = Object.fromEntries(r.headers);
+    if (r.status === 304 && cached) {
+      recordRequest({
+        url,
+        status: r.status,
+        latencyMs: Date.now() - started,
+        source: "scrape",
+      });
+      recorded = true;
+      const entry = await httpCache.revalidated(cached, headers);
+      return toItem(
+        url,
+        r.url || url,
+        entry.status,
+        entry.headers,
+        cachedBody(entry),
+        job,
+        { unchanged: true },
+      );
+    }
+    const status = r.status;
+    const type = r.headers.get("content-type") || "";
+    // Bytes, not r.text(): that assumes UTF-8 whatever the page declares
+    let decoded: DecodedBody | undefined;
+    if (
+      type.includes("text") ||
+      type.includes("html") ||
+      type.includes("xml")
+    ) {
+      decoded = decodeBody(new Uint8Array(await r.arrayBuffer()), type);
+    }
+    recordRequest({
+      url,
+      status,
+      latencyMs: Date.now() - started,
+      source: "scrape",
+    });
+    recorded = true;
+    if (job.httpCache && decoded?.text) {
+      await httpCache.put(url, status, headers, {
+        ...decoded,
+        finalUrl: r.url,
+      });
+    }
+    // Resolve relative links against the final URL after redirects
+    return toItem(url, r.url || url, status, headers, decoded, job);
+  } catch (e: any) {
+    // A cancelled run says nothing about the site, so it isn't recorded
+    if (!recorded && !signal?.aborted) {
+      recordRequest({
+        url,
+        ok: false,
+        latencyMs: Date.now() - started,
+        source: "scrape",
+        error: e?.message,
+      });
+    }
+    return { url, success: false, error: e?.message || "error" };
+  } finally {
+    clearTimeout(t);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+function cachedBody(entry: CachedResponse) {
+  return { text: entry.body, encoding: entry.encoding };
+}
+
+function toItem(
+  url: string,
+  baseUrl: string,
+  status: number,
+  headers: Record<string, string>,
+  body: { text: string; encoding?: string } | undefined,
+  job: ScrapeJob,
+  extra: Partial<ScrapeItem> = {},
+): ScrapeItem {
+  if (!body?.text) {
+    return {
+      url,
+      success: true,
+      status,
+      title: undefined,
+      textPreview: undefined,
+      links: [],
+      metadata: { contentType: headers["content-type"] || "" },
+      ...extra,
+    };
+  }
+  const page = extractPage(body.text, baseUrl, {
+    fields: job.fields,
+    maxLinks: job.maxLinks,
+  });
+  // The encoding the page was decoded from rides along with its meta tags
+  if (body.encoding) {
+    page.metadata = { ...page.metadata, encoding: body.encoding };
+  }
+  return { url, success: true, status, ...page, ...extra };
+}
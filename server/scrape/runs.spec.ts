@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { deleteRun, getRun, listRuns, saveRun } from "./runs";
+
+describe("run history store", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "runs-"));
+    process.env.SCRAPER_DATA_DIR = dir;
+  });
+
+  afterAll(async () => {
+    delete process.env.SCRAPER_DATA_DIR;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("lists nothing before any run is saved", async () => {
+    expect(await listRuns()).toEqual({ runs: [], total: 0 });
+  });
+
+  it("saves, lists newest first, reads and deletes runs", async () => {
+    const first = await saveRun(
+      { urls: ["https://a.example"] },
+      [{ url: "https://a.example", success: true, status: 200 }],
+      1000,
+      1500,
+    );
+    const second = await saveRun(
+      { urls: ["https://b.example"] },
+      [{ url: "https://b.example", success: false, error: "boom" }],
+      2000,
+      2100,
+    );
+
+    const { runs, total } = await listRuns();
+    expect(total).toBe(2);
+    expect(runs.map((r) => r.id)).toEqual([second.id, first.id]);
+    expect(runs[0]).not.toHaveProperty("results");
+    expect(runs[1]).toMatchObject({ success: 1, failed: 0, durationMs: 500 });
+
+    expect((await getRun(first.id))?.results).toHaveLength(1);
+    expect(await deleteRun(first.id)).toBe(true);
+    expect(await getRun(first.id)).toBeUndefined();
+    expect(await deleteRun(first.id)).toBe(false);
+  });
+
+  it("lists from the summary files, falling back to older full files", async () => {
+    const run = await saveRun(
+      { urls: ["https://c.example"] },
+      [{ url: "https://c.example", success: true, status: 200 }],
+      3000,
+      3200,
+    );
+    // A full file that would fail to parse proves listing skips it
+    await writeFile(path.join(dir, "runs", `${run.id}.json`), "{");
+    await writeFile(
+      path.join(dir, "runs", "legacy.json"),
+      JSON.stringify({
+        id: "legacy",
+        startedAt: 500,
+        finishedAt: 600,
+        durationMs: 100,
+        request: { urls: [] },
+        total: 0,
+        success: 0,
+        failed: 0,
+        unchanged: 0,
+        results: [],
+      }),
+    );
+
+    const { runs } = await listRuns();
+    expect(runs[0]).toMatchObject({ id: run.id, success: 1, durationMs: 200 });
+    expect(runs[runs.length - 1]).toMatchObject({ id: "legacy" });
+    expect(runs[runs.length - 1]).not.toHaveProperty("results");
+
+    expect(await deleteRun(run.id)).toBe(true);
+    expect(await readdir(path.join(dir, "runs"))).not.toContain(
+      `${run.id}.summary.json`,
+    );
+  });
+
+  it("rejects ids that could escape the runs directory", async () => {
+    expect(await getRun("../secret")).toBeUndefined();
+    expect(await deleteRun("../secret")).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, readdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import type {
+  ScrapeItem,
+  ScrapeRequest,
+  ScrapeRun,
+  ScrapeRunSummary,
+} from "@shared/api";
+
+/**
+ * Scrape run history, stored as one JSON file per run under
+ * `$SCRAPER_DATA_DIR/runs` (default `./data/runs`), plus a small
+ * `<id>.summary.json` beside it so listing doesn't read every run's results.
+ */
+const RUN_ID = /^[\w-]+$/;
+
+function runsDir() {
+  return path.resolve(process.env.SCRAPER_DATA_DIR || "data", "runs");
+}
+
+const SUMMARY_SUFFIX = ".summary.json";
+
+function runPath(id: string) {
+  return path.join(runsDir(), `${id}.json`);
+}
+
+function summaryPath(id: string) {
+  return path.join(runsDir(), `${id}${SUMMARY_SUFFIX}`);
+}
+
+function summarize({ results, ...summary }: ScrapeRun): ScrapeRunSummary {
+  return summary;
+}
+
+export async function saveRun(
+  request: ScrapeRequest,
+  results: ScrapeItem[],
+  startedAt: number,
+  finishedAt = Date.now(),
+): Promise<ScrapeRun> {
+  const success = results.filter((r) => r.success).length;
+  const run: ScrapeRun = {
+    id: randomUUID(),
+    startedAt,
+    finishedAt,
+    durationMs: finishedAt - startedAt,
+    request,
+    total: results.length,
+    success,
+    failed: results.length - success,
+    unchanged: results.filter((r) => r.unchanged).length,
+    results,
+  };
+  await mkdir(runsDir(), { recursive: true });
+  await writeFile(runPath(run.id), JSON.stringify(run));
+  // Written second, so a listed run can always be read
+  await writeFile(summaryPath(run.id), JSON.stringify(summarize(run)));
+  return run;
+}
+
+export async function getRun(id: string): Promise<ScrapeRun | undefined> {
+  if (!RUN_ID.test(id)) return undefined;
+  try {
+    return JSON.parse(await readFile(runPath(id), "utf8"));
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return undefined;
+    throw e;
+  }
+}
+
+async function readJson<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path.join(runsDir(), file), "utf8"));
+  } catch {
+    // Half-written or not ours
+    return undefined;
+  }
+}
+
+/**
+ * Summaries of stored runs, newest first. Only the summary files are read;
+ * runs saved before those existed fall back to their full file.
+ */
+export async function listRuns(
+  limit = 50,
+  offset = 0,
+): Promise<{ runs: ScrapeRunSummary[]; total: number }> {
+  let files: string[];
+  try {
+    files = (await readdir(runsDir())).filter((f) => f.endsWith(".json"));
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return { runs: [], total: 0 };
+    throw e;
+  }
+  const summarized = new Set(
+    files
+      .filter((f) => f.endsWith(SUMMARY_SUFFIX))
+      .map((f) => f.slice(0, -SUMMARY_SUFFIX.length)),
+  );
+  const runs: ScrapeRunSummary[] = [];
+  for (const file of files) {
+    if (file.endsWith(SUMMARY_SUFFIX)) {
+      const summary = await readJson<ScrapeRunSummary>(file);
+      if (summary) runs.push(summary);
+    } else if (!summarized.has(file.slice(0, -".json".length))) {
+      const run = await readJson<ScrapeRun>(file);
+      if (run) runs.push(summarize(run));
+    }
+  }
+  runs.sort((a, b) => b.startedAt - a.startedAt);
+  return { runs: runs.slice(offset, offset + limit), total: runs.length };
+}
+
+export async function deleteRun(id: string): Promise<boolean> {
+  if (!RUN_ID.test(id)) return false;
+  try {
+    await rm(summaryPath(id), { force: true });
+    await rm(runPath(id));
+    return true;
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return false;
+    throw e;
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import * as cheerio from "cheerio";
+import { extractStructuredData } from "./structured";
+
+const base = "https://shop.example/p/widget";
+
+function extract(html: string) {
+  return extractStructuredData(cheerio.load(html), base);
+}
+
+describe("extractStructuredData", () => {
+  it("returns undefined for pages without structured data", () => {
+    expect(extract("<h1>Plain</h1>")).toBeUndefined();
+  });
+
+  it("reads JSON-LD @graph and resolves @id references", () => {
+    const data = extract(`
+      <script type="application/ld+json">
+      {"@context": "https://schema.org", "@graph": [
+        {"@type": "Person", "@id": "#jane", "name": "Jane Doe"},
+        {"@type": ["NewsArticle"], "headline": "Widgets rise",
+         "author": {"@id": "#jane"}, "datePublished": "2025-02-03T08:00:00+01:00",
+         "publisher": {"@type": "Organization", "name": "Daily"},
+         "image": {"@type": "ImageObject", "url": "/img/w.jpg"}}
+      ]}
+      </script>`);
+    expect(data?.entities.map((e) => e.type)).toEqual([
+      ["Person"],
+      ["NewsArticle"],
+    ]);
+    expect(data?.articles).toEqual([
+      {
+        type: "NewsArticle",
+        headline: "Widgets rise",
+        authors: ["Jane Doe"],
+        publisher: "Daily",
+        datePublished: "2025-02-03T07:00:00.000Z",
+        image: "https://shop.example/img/w.jpg",
+      },
+    ]);
+  });
+
+  it("lifts price, availability and rating out of a Product", () => {
+    const data = extract(`
+      <script type="application/ld+json">
+      {"@type": "Product", "name": "Widget", "sku": "W-1",
+       "brand": {"@type": "Brand", "name": "Acme"},
+       "offers": [{"@type": "Offer", "price": "1,299.00", "priceCurrency": "USD",
+                   "availability": "https://schema.org/InStock"}],
+       "aggregateRating": {"ratingValue": "4.5", "reviewCount": 12}}
+      </script>`);
+    expect(data?.products).toEqual([
+      {
+        name: "Widget",
+        sku: "W-1",
+        brand: "Acme",
+        price: 1299,
+        currency: "USD",
+        availability: "InStock",
+        rating: 4.5,
+        reviewCount: 12,
+      },
+    ]);
+  });
+
+  it("reads microdata with nested items and content overrides", () => {
+    const data = extract(`
+      <div itemscope itemtype="https://schema.org/Product">
+        <h1 itemprop="name">Widget</h1>
+        <a itemprop="url" href="/p/widget">link</a>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <span itemprop="price" content="19.99">$19.99</span>
+          <meta itemprop="priceCurrency" content="EUR">
+          <link itemprop="availability" href="https://schema.org/OutOfStock">
+        </div>
+      </div>`);
+    const [product] = data!.entities;
+    expect(product.source).toBe("microdata");
+    expect(product.properties.name).toBe("Widget");
+    expect(data?.products).toEqual([
+      {
+        name: "Widget",
+        url: "https://shop.example/p/widget",
+        price: 19.99,
+        currency: "EUR",
+        availability: "OutOfStock",
+      },
+    ]);
+  });
+
+  it("reads RDFa Lite resources", () => {
+    const data = extract(`
+      <article vocab="https://schema.org/" typeof="BlogPosting">
+        <h1 property="headline">Notes</h1>
+        <span property="author" typeof="Person"><span property="name">Sam</span></span>
+        <time property="datePublished" datetime="2024-05-01">May 1</time>
+      </article>`);
+    expect(data?.entities[0].source).toBe("rdfa");
+    expect(data?.articles).toEqual([
+      {
+        type: "BlogPosting",
+        headline: "Notes",
+        authors: ["Sam"],
+        datePublished: "2024-05-01T00:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("collects OpenGraph and Twitter tags and falls back to them", () => {
+    const data = extract(`
+      <meta property="og:type" content="product">
+      <meta property="og:title" content="Widget">
+      <meta property="og:image" content="https://cdn.example/1.jpg">
+      <meta property="og:image" content="https://cdn.example/2.jpg">
+      <meta property="product:price:amount" content="9.50">
+      <meta property="product:price:currency" content="GBP">
+      <meta property="product:availability" content="in stock">
+      <meta name="twitter:card" content="summary">`);
+    expect(data?.openGraph.image).toEqual([
+      "https://cdn.example/1.jpg",
+      "https://cdn.example/2.jpg",
+    ]);
+    expect(data?.twitter).toEqual({ card: "summary" });
+    expect(data?.products).toEqual([
+      {
+        name: "Widget",
+        image: "https://cdn.example/1.jpg",
+        price: 9.5,
+        currency: "GBP",
+        availability: "InStock",
+      },
+    ]);
+    expect(data?.articles).toEqual([]);
+  });
+});
@@ -0,0 +1,578 @@
+import type { CheerioAPI } from "cheerio";
+import type {
+  StructuredArticle,
+  StructuredData,
+  StructuredEntity,
+  StructuredProduct,
+  StructuredValue,
+} from "@shared/api";
+import { coerce } from "../core/schema";
+
+// Pages with thousands of itemscopes (listings) are capped, not walked whole
+const MAX_ENTITIES = 100;
+const MAX_DEPTH = 12;
+
+const PRODUCT_TYPES = new Set([
+  "Product",
+  "ProductGroup",
+  "ProductModel",
+  "IndividualProduct",
+  "SomeProducts",
+]);
+const ARTICLE_TYPES = new Set([
+  "Article",
+  "BlogPosting",
+  "LiveBlogPosting",
+  "SocialMediaPosting",
+  "Report",
+]);
+const OG_PREFIX = /^(og|article|product|book|profile|music|video):/;
+// Elements whose microdata / RDFa value is a URL attribute, not their text
+const URL_ATTRIBUTE: Record<string, string> = {
+  a: "href",
+  area: "href",
+  link: "href",
+  audio: "src",
+  embed: "src",
+  iframe: "src",
+  img: "src",
+  source: "src",
+  track: "src",
+  video: "src",
+  object: "data",
+};
+
+/**
+ * Collect the page's structured data: JSON-LD blocks (including `@graph`),
+ * microdata items, RDFa Lite resources and OpenGraph / Twitter card tags,
+ * then lift Product and Article facts out of them. Undefined when the page
+ * declares none of these.
+ */
+export function extractStructuredData(
+  $: CheerioAPI,
+  baseUrl: string,
+): StructuredData | undefined {
+  const entities = [
+    ...jsonLd($),
+    ...microdata($, baseUrl),
+    ...rdfa($, baseUrl),
+  ].slice(0, MAX_ENTITIES);
+  const { openGraph, twitter } = socialTags($);
+  if (
+    !entities.length &&
+    !Object.keys(openGraph).length &&
+    !Object.keys(twitter).length
+  ) {
+    return undefined;
+  }
+  const all = flatten(entities);
+  // Bare {"@id": ...} references point at the entity declared elsewhere
+  const isReference = (e: StructuredEntity) =>
+    !!e.id && !e.type.length && !Object.keys(e.properties).length;
+  const byId = new Map<string, StructuredEntity>();
+  for (const e of all) {
+    if (e.id && !isReference(e) && !byId.has(e.id)) byId.set(e.id, e);
+  }
+  const resolve = (v: StructuredValue | undefined) =>
+    isEntity(v) && isReference(v) ? (byId.get(v.id!) ?? v) : v;
+
+  let products = unique(
+    all
+      .filter((e) => e.type.some((t) => PRODUCT_TYPES.has(t)))
+      .map((e) => toProduct(e, resolve, baseUrl)),
+  );
+  let articles = unique(
+    all
+      .filter((e) => e.type.some(isArticleType))
+      .map((e) => toArticle(e, resolve, baseUrl)),
+  );
+  // OpenGraph only stands in when no entity describes the page
+  if (!products.length) products = ogProduct(openGraph);
+  if (!articles.length) articles = ogArticle(openGraph);
+
+  return { entities, openGraph, twitter, products, articles };
+}
+
+// ----------------------------------------------------------------------------
+// JSON-LD
+// ----------------------------------------------------------------------------
+
+function jsonLd($: CheerioAPI): StructuredEntity[] {
+  const entities: StructuredEntity[] = [];
+  $('script[type="application/ld+json"]').each((_, el) => {
+    // Some CMSs wrap the block in an HTML comment or CDATA section
+    const text = $(el)
+      .text()
+      .trim()
+      .replace(/^(<!--|<!\[CDATA\[)|(-->|\]\]>)$/g, "");
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return;
+    }
+    for (const node of asArray(parsed)) {
+      if (!node || typeof node !== "object") continue;
+      const graph = (node as Record<string, unknown>)["@graph"];
+      if (Array.isArray(graph)) {
+        for (const item of graph) {
+          if (item && typeof item === "object") {
+            entities.push(fromJsonLd(item as Record<string, unknown>, 0));
+          }
+        }
+      } else {
+        entities.push(fromJsonLd(node as Record<string, unknown>, 0));
+      }
+    }
+  });
+  return entities;
+}
+
+function fromJsonLd(
+  node: Record<string, unknown>,
+  depth: number,
+): StructuredEntity {
+  const properties: Record<string, StructuredValue> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith("@")) continue;
+    const v = jsonLdValue(value, depth + 1);
+    if (v !== undefined) properties[stripVocab(key)] = v;
+  }
+  const id = node["@id"];
+  return {
+    type: asArray(node["@type"]).map((t) => typeName(String(t))),
+    ...(typeof id === "string" ? { id } : {}),
+    source: "json-ld",
+    properties,
+  };
+}
+
+function jsonLdValue(
+  value: unknown,
+  depth: number,
+): StructuredValue | undefined {
+  if (value === null || value === undefined || depth > MAX_DEPTH) {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    const items = value
+      .map((v) => jsonLdValue(v, depth + 1))
+      .filter((v) => v !== undefined);
+    return items.length ? items : undefined;
+  }
+  if (typeof value === "object") {
+    const node = value as Record<string, unknown>;
+    // Value objects ({"@value": "2024-01-01", "@type": "Date"}) are literals
+    if ("@value" in node) return jsonLdValue(node["@value"], depth + 1);
+    return fromJsonLd(node, depth);
+  }
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  return undefined;
+}
+
+// ----------------------------------------------------------------------------
+// Microdata and RDFa Lite
+// ----------------------------------------------------------------------------
+
+function microdata($: CheerioAPI, baseUrl: string): StructuredEntity[] {
+  // Top-level items are the itemscopes that aren't some item's property
+  return $("[itemscope]:not([itemprop])")
+    .toArray()
+    .slice(0, MAX_ENTITIES)
+    .map((el) => microdataItem($, el, baseUrl, 0));
+}
+
+function microdataItem(
+  $: CheerioAPI,
+  el: any,
+  baseUrl: string,
+  depth: number,
+): StructuredEntity {
+  const $el = $(el);
+  const properties: Record<string, StructuredValue> = {};
+  const visit = (node: any) => {
+    for (const child of $(node).children().toArray()) {
+      const $child = $(child);
+      const names = $child.attr("itemprop");
+      if (names) {
+        const value = microdataValue($, child, baseUrl, depth);
+        if (value !== undefined) addProperty(properties, names, value);
+      }
+      // A nested item's own properties belong to it, not to this item
+      if ($child.attr("itemscope") === undefined) visit(child);
+    }
+  };
+  visit(el);
+  // itemref pulls in properties declared elsewhere in the document
+  for (const ref of ($el.attr("itemref") ?? "").split(/\s+/).filter(Boolean)) {
+    const target = $("[id]")
+      .filter((_, n) => $(n).attr("id") === ref)
+      .get(0);
+    if (!target) continue;
+    const names = $(target).attr("itemprop");
+    if (names) {
+      const value = microdataValue($, target, baseUrl, depth);
+      if (value !== undefined) addProperty(properties, names, value);
+    } else {
+      visit(target);
+    }
+  }
+  const id = $el.attr("itemid");
+  return {
+    type: splitTypes($el.attr("itemtype")),
+    ...(id ? { id } : {}),
+    source: "microdata",
+    properties,
+  };
+}
+
+function microdataValue(
+  $: CheerioAPI,
+  el: any,
+  baseUrl: string,
+  depth: number,
+): StructuredValue | undefined {
+  const $el = $(el);
+  if ($el.attr("itemscope") !== undefined) {
+    return depth < MAX_DEPTH
+      ? microdataItem($, el, baseUrl, depth + 1)
+      : undefined;
+  }
+  return elementValue($, el, baseUrl);
+}
+
+function rdfa($: CheerioAPI, baseUrl: string): StructuredEntity[] {
+  // Resources that are another resource's property are nested, not top-level
+  return $("[typeof]")
+    .filter(
+      (_, el) =>
+        $(el).attr("property") === undefined ||
+        !$(el).parents("[typeof]").length,
+    )
+    .toArray()
+    .slice(0, MAX_ENTITIES)
+    .map((el) => rdfaItem($, el, baseUrl, 0));
+}
+
+function rdfaItem(
+  $: CheerioAPI,
+  el: any,
+  baseUrl: string,
+  depth: number,
+): StructuredEntity {
+  const $el = $(el);
+  const properties: Record<string, StructuredValue> = {};
+  const visit = (node: any) => {
+    for (const child of $(node).children().toArray()) {
+      const $child = $(child);
+      const names = $child.attr("property");
+      const nested = $child.attr("typeof") !== undefined;
+      if (names) {
+        const value = nested
+          ? depth < MAX_DEPTH
+            ? rdfaItem($, child, baseUrl, depth + 1)
+            : undefined
+          : elementValue($, child, baseUrl, $child.attr("resource"));
+        if (value !== undefined) addProperty(properties, names, value);
+      }
+      if (!nested) visit(child);
+    }
+  };
+  visit(el);
+  const id = $el.attr("resource") ?? $el.attr("about");
+  return {
+    type: splitTypes($el.attr("typeof")),
+    ...(id ? { id } : {}),
+    source: "rdfa",
+    properties,
+  };
+}
+
+/** A property element's value: content, a URL attribute, a datetime or text. */
+function elementValue(
+  $: CheerioAPI,
+  el: any,
+  baseUrl: string,
+  resource?: string,
+): string | undefined {
+  const $el = $(el);
+  // `content` overrides the visible text (<span itemprop=price content=9.99>)
+  const content = $el.attr("content");
+  if (content !== undefined) return content.trim();
+  const urlAttr = URL_ATTRIBUTE[el.name];
+  const href = resource ?? (urlAttr ? $el.attr(urlAttr) : undefined);
+  if (href !== undefined) return resolveUrl(href, baseUrl);
+  if (el.name === "data" || el.name === "meter") return $el.attr("value");
+  if (el.name === "time") return $el.attr("datetime") ?? clean($el.text());
+  return clean($el.text());
+}
+
+function addProperty(
+  properties: Record<string, StructuredValue>,
+  names: string,
+  value: StructuredValue,
+) {
+  for (const name of names.split(/\s+/).filter(Boolean)) {
+    const key = stripVocab(name);
+    const existing = properties[key];
+    if (existing === undefined) properties[key] = value;
+    else if (Array.isArray(existing)) existing.push(value);
+    else properties[key] = [existing, value];
+  }
+}
+
+// ----------------------------------------------------------------------------
+// OpenGraph and Twitter cards
+// ----------------------------------------------------------------------------
+
+function socialTags($: CheerioAPI) {
+  const openGraph: Record<string, string | string[]> = {};
+  const twitter: Record<string, string> = {};
+  $("meta[property], meta[name]").each((_, el) => {
+    const $el = $(el);
+    const key = ($el.attr("property") ?? $el.attr("name") ?? "")
+      .trim()
+      .toLowerCase();
+    const content = $el.attr("content")?.trim();
+    if (!content) return;
+    if (key.startsWith("twitter:")) {
+      twitter[key.slice("twitter:".length)] ??= content;
+    } else if (OG_PREFIX.test(key)) {
+      // Repeated tags (several og:image) are kept in order as an array
+      const name = key.startsWith("og:") ? key.slice(3) : key;
+      const existing = openGraph[name];
+      openGraph[name] =
+        existing === undefined
+          ? content
+          : [...asArray(existing), content].map(String);
+    }
+  });
+  return { openGraph, twitter };
+}
+
+// ----------------------------------------------------------------------------
+// Product and Article facts
+// ----------------------------------------------------------------------------
+
+type Resolve = (v: StructuredValue | undefined) => StructuredValue | undefined;
+
+function toProduct(
+  e: StructuredEntity,
+  resolve: Resolve,
+  baseUrl: string,
+): StructuredProduct {
+  const p = e.properties;
+  const offer = entityOf(resolve(first(p.offers)));
+  // AggregateOffer gives a range; its low price is what listings show
+  const priceSpec = entityOf(
+    resolve(first(offer?.properties.priceSpecification)),
+  );
+  const priceValue =
+    offer?.properties.price ??
+    offer?.properties.lowPrice ??
+    priceSpec?.properties.price;
+  const rating = entityOf(resolve(p.aggregateRating));
+  return compact({
+    name: text(p.name),
+    description: text(p.description),
+    sku: text(p.sku ?? p.gtin13 ?? p.gtin ?? p.mpn),
+    brand: text(resolve(first(p.brand))),
+    image: url(resolve(first(p.image)), baseUrl),
+    url: url(p.url, baseUrl),
+    price: number(priceValue),
+    currency: text(
+      offer?.properties.priceCurrency ?? priceSpec?.properties.priceCurrency,
+    ),
+    availability: enumName(offer?.properties.availability),
+    rating: number(rating?.properties.ratingValue),
+    reviewCount: number(
+      rating?.properties.reviewCount ?? rating?.properties.ratingCount,
+    ),
+  });
+}
+
+function toArticle(
+  e: StructuredEntity,
+  resolve: Resolve,
+  baseUrl: string,
+): StructuredArticle {
+  const p = e.properties;
+  return compact({
+    type: e.type.find(isArticleType) ?? "Article",
+    headline: text(p.headline ?? p.name),
+    description: text(p.description),
+    authors: asArray(p.author)
+      .map((a) => text(resolve(a)))
+      .filter((a): a is string => !!a),
+    publisher: text(resolve(first(p.publisher))),
+    datePublished: date(p.datePublished),
+    dateModified: date(p.dateModified),
+    image: url(resolve(first(p.image)), baseUrl),
+    url: url(p.url ?? p.mainEntityOfPage, baseUrl),
+  });
+}
+
+function ogProduct(og: Record<string, string | string[]>): StructuredProduct[] {
+  const price = og["product:price:amount"] ?? og["price:amount"];
+  if (og.type !== "product" && price === undefined) return [];
+  const availability = text(og["product:availability"] ?? og.availability);
+  return [
+    compact({
+      name: text(og.title),
+      description: text(og.description),
+      image: text(first(og.image)),
+      url: text(og.url),
+      price: number(first(price)),
+      currency: text(og["product:price:currency"] ?? og["price:currency"]),
+      availability: availability && ogAvailability(availability),
+    }),
+  ];
+}
+
+function ogArticle(og: Record<string, string | string[]>): StructuredArticle[] {
+  if (og.type !== "article") return [];
+  return [
+    compact({
+      type: "Article",
+      headline: text(og.title),
+      description: text(og.description),
+      authors: asArray(og["article:author"]).map(String),
+      datePublished: date(first(og["article:published_time"])),
+      dateModified: date(first(og["article:modified_time"])),
+      image: text(first(og.image)),
+      url: text(og.url),
+    }),
+  ];
+}
+
+/** OpenGraph writes "instock" or "in stock"; map it onto schema.org names. */
+function ogAvailability(value: string): string {
+  const key = value.toLowerCase().replace(/[\s_-]/g, "");
+  const known: Record<string, string> = {
+    instock: "InStock",
+    oos: "OutOfStock",
+    outofstock: "OutOfStock",
+    preorder: "PreOrder",
+    backorder: "BackOrder",
+    discontinued: "Discontinued",
+  };
+  return known[key] ?? value;
+}
+
+// ----------------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------------
+
+function isArticleType(type: string): boolean {
+  return ARTICLE_TYPES.has(type) || type.endsWith("Article");
+}
+
+function isEntity(v: unknown): v is StructuredEntity {
+  return !!v && typeof v === "object" && !Array.isArray(v) && "properties" in v;
+}
+
+function entityOf(
+  v: StructuredValue | undefined,
+): StructuredEntity | undefined {
+  return isEntity(v) ? v : undefined;
+}
+
+/** Every entity, including the ones nested as property values. */
+function flatten(entities: StructuredEntity[]): StructuredEntity[] {
+  const out: StructuredEntity[] = [];
+  const walk = (v: StructuredValue) => {
+    if (Array.isArray(v)) v.forEach(walk);
+    else if (isEntity(v)) {
+      out.push(v);
+      Object.values(v.properties).forEach(walk);
+    }
+  };
+  entities.forEach(walk);
+  return out;
+}
+
+function asArray<T>(v: T | T[] | undefined): T[] {
+  return v === undefined ? [] : Array.isArray(v) ? v : [v];
+}
+
+function first<T>(v: T | T[] | undefined): T | undefined {
+  return Array.isArray(v) ? v[0] : v;
+}
+
+/** A value's text; an entity reads as its name, a list as its first item. */
+function text(v: StructuredValue | undefined): string | undefined {
+  if (v === undefined) return undefined;
+  if (Array.isArray(v)) return text(v[0]);
+  if (isEntity(v)) return text(v.properties.name);
+  const s = clean(String(v));
+  return s || undefined;
+}
+
+function url(v: StructuredValue | undefined, baseUrl: string) {
+  // ImageObject and friends carry the address in url / contentUrl
+  const value = isEntity(v)
+    ? text(v.properties.url ?? v.properties.contentUrl)
+    : text(v);
+  return value && resolveUrl(value, baseUrl);
+}
+
+function number(v: StructuredValue | undefined): number | undefined {
+  if (typeof v === "number") return v;
+  const n = coerce(text(v), "number");
+  return typeof n === "number" ? n : undefined;
+}
+
+function date(v: StructuredValue | undefined): string | undefined {
+  const raw = text(v);
+  return (coerce(raw, "date") as string | null) ?? raw;
+}
+
+/** "https://schema.org/InStock" and "InStock" both read as "InStock". */
+function enumName(v: StructuredValue | undefined): string | undefined {
+  const raw = text(v);
+  return raw && typeName(raw);
+}
+
+function stripVocab(name: string): string {
+  return name.replace(/^(https?:\/\/schema\.org\/|schema:)/i, "");
+}
+
+/** The local name of a type, with any vocabulary URL or prefix removed. */
+function typeName(type: string): string {
+  const name = stripVocab(type.trim()).replace(/\/+$/, "");
+  return name.split(/[/#:]/).pop() || name;
+}
+
+function splitTypes(value: string | undefined): string[] {
+  return (value ?? "").split(/\s+/).filter(Boolean).map(typeName);
+}
+
+function resolveUrl(href: string, baseUrl: string): string {
+  try {
+    return new URL(href.trim(), baseUrl).href;
+  } catch {
+    return href.trim();
+  }
+}
+
+function clean(s: string) {
+  return s.replace(/\s+/g, " ").trim();
+}
+
+/** Drop undefined keys so results serialize without noise. */
+function compact<T extends object>(obj: T): T {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => v !== undefined),
+  ) as T;
+}
+
+function unique<T>(items: T[]): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const key = JSON.stringify(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
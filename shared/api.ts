@@ -26,6 +26,24 @@ export interface ProxyStat {
   failure: number;
   avgResponse: number;
   health: number;
+  /** Epoch ms until which a failing proxy is benched, if it is */
+  quarantinedUntil?: number;
+}
+
+/** A host's politeness state: connection slots, request spacing and backoff */
+export interface HostPolitenessStat {
+  host: string;
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  /** Current gap between request starts; above minDelayMs while backing off */
+  delayMs: number;
+  minDelayMs: number;
+  requests: number;
+  /** 429 and 503 responses seen */
+  throttled: number;
+  /** Epoch ms until which the host is paused (Retry-After), if it is */
+  blockedUntil?: number;
 }
 
 export type Severity = "info" | "warning" | "critical";
@@ -51,29 +69,275 @@ export interface MetricsResponse {
   series: TimePoint[];
   proxies: ProxyStat[];
   alerts: AlertItem[];
+  /** Set when the payload comes from the simulator rather than real traffic */
+  demo?: boolean;
 }
 
+/**
+ * A named field to extract from each page. A bare string is a CSS selector
+ * whose text is returned; the object form can read an attribute instead, or
+ * return the inner HTML.
+ */
+export type FieldSpec =
+  | string
+  | {
+      selector: string;
+      attribute?: string;
+      mode?: "text" | "html";
+    };
+
+/** One match gives a string, several give an array, none gives null. */
+export type FieldValue = string | string[] | null;
+
 export interface ScrapeRequest {
   url?: string;
   urls?: string[];
+  fields?: Record<string, FieldSpec>;
   options?: {
     timeout?: number; // seconds
     concurrency?: number;
     userAgent?: string;
+    /** Skip URLs robots.txt disallows and honour Crawl-delay (default true) */
+    respectRobotsTxt?: boolean;
+    /**
+     * Send If-None-Match / If-Modified-Since from the persistent HTTP cache
+     * and reuse the cached page on a 304 (default true)
+     */
+    httpCache?: boolean;
   };
 }
 
+/** Why a URL was not fetched at all */
+export type SkipReason = "robots_disallowed";
+
 export interface ScrapeItem {
   url: string;
   success: boolean;
+  skipped?: SkipReason;
   status?: number;
   title?: string;
   textPreview?: string;
   links?: { href: string; text?: string }[];
   metadata?: Record<string, string>;
+  canonicalUrl?: string;
+  lang?: string;
+  headings?: { level: number; text: string }[];
+  fields?: Record<string, FieldValue>;
+  /** JSON-LD, microdata, RDFa and OpenGraph found on the page, if any */
+  structured?: StructuredData;
+  /** The page matched the HTTP cache (304 or still fresh) and wasn't refetched */
+  unchanged?: boolean;
+  /**
+   * How `fields` differ from the last scrape of this URL with the same field
+   * specs; empty when nothing changed, absent on the first scrape
+   */
+  changes?: FieldChange[];
   error?: string;
 }
 
+export type StructuredValue =
+  | string
+  | number
+  | boolean
+  | StructuredEntity
+  | StructuredValue[];
+
+/**
+ * A schema.org entity, whichever syntax declared it. Types and property
+ * names drop their vocabulary (`https://schema.org/Product` is `Product`).
+ */
+export interface StructuredEntity {
+  type: string[];
+  id?: string;
+  source: "json-ld" | "microdata" | "rdfa";
+  properties: Record<string, StructuredValue>;
+}
+
+/** The facts a Product page states, from its entity or product:* tags. */
+export interface StructuredProduct {
+  name?: string;
+  description?: string;
+  sku?: string;
+  brand?: string;
+  image?: string;
+  url?: string;
+  price?: number;
+  currency?: string;
+  /** schema.org ItemAvailability without the vocabulary, e.g. "InStock" */
+  availability?: string;
+  rating?: number;
+  reviewCount?: number;
+}
+
+/** The facts an Article (or subtype) states, from its entity or article:* tags. */
+export interface StructuredArticle {
+  type: string;
+  headline?: string;
+  description?: string;
+  authors: string[];
+  publisher?: string;
+  /** ISO 8601 when the page's date could be parsed, as written otherwise */
+  datePublished?: string;
+  dateModified?: string;
+  image?: string;
+  url?: string;
+}
+
+export interface StructuredData {
+  entities: StructuredEntity[];
+  /** og:* properties without the prefix, plus article:*, product:* etc. */
+  openGraph: Record<string, string | string[]>;
+  /** twitter:* card properties without the prefix */
+  twitter: Record<string, string>;
+  products: StructuredProduct[];
+  articles: StructuredArticle[];
+}
+
+/** One field's difference between two extractions of the same target. */
+export interface FieldChange {
+  field: string;
+  type: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+/** Payload of a `change-detected` event. */
+export interface ChangeEvent {
+  id: string;
+  /** Hash of the URL and the selectors or field specs used on it */
+  targetId: string;
+  url: string;
+  changes: FieldChange[];
+  timestamp: number;
+  previousTimestamp?: number;
+  /** Which component scraped the page, e.g. "scrape" or "engine" */
+  source: string;
+}
+
+export interface ChangesResponse {
+  changes: ChangeEvent[];
+}
+
 export interface ScrapeResponse {
   results: ScrapeItem[];
+  runId?: string;
+}
+
+/** Final `done` event of the /api/scrape/stream SSE response. */
+export interface ScrapeStreamSummary {
+  total: number;
+  success: number;
+  failed: number;
+  /** Successful pages served from the HTTP cache */
+  unchanged: number;
+  durationMs: number;
+  runId?: string;
+}
+
+export interface ScrapeRunSummary {
+  id: string;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  request: ScrapeRequest;
+  total: number;
+  success: number;
+  failed: number;
+  /** Absent on runs stored before unchanged pages were tracked */
+  unchanged?: number;
+}
+
+export interface ScrapeRun extends ScrapeRunSummary {
+  results: ScrapeItem[];
+}
+
+export interface ScrapeRunsResponse {
+  runs: ScrapeRunSummary[];
+  total: number;
+}
+
+/**
+ * Which discovered links a crawl follows. By default only links on a seed's
+ * host are followed; `samePathPrefix` also keeps them under the seed's
+ * directory. `include` / `exclude` are regexes tested against the full URL.
+ */
+export interface CrawlScope {
+  sameHost?: boolean;
+  samePathPrefix?: boolean;
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Where to read page URLs from: a sitemap (or sitemap index) `url`, or a
+ * `site` whose sitemaps are discovered from robots.txt. Dates are ISO 8601
+ * and filter on `<lastmod>`; patterns are regexes tested against each URL.
+ */
+export interface SitemapSource {
+  url?: string;
+  site?: string;
+  lastmodSince?: string;
+  lastmodUntil?: string;
+  include?: string[];
+  exclude?: string[];
+  maxUrls?: number;
+}
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  changefreq?: string;
+  priority?: number;
+}
+
+export interface SitemapResponse {
+  /** Sitemap files that were fetched and parsed */
+  sitemaps: string[];
+  urls: SitemapEntry[];
+  errors: { sitemap: string; error: string }[];
+  /** Set when a URL, file or nesting limit cut the expansion short */
+  truncated: boolean;
+}
+
+export interface CrawlRequest {
+  /** Start URLs; optional when `sitemap` supplies them */
+  seeds?: string[];
+  /** Seed the crawl with every URL of a sitemap */
+  sitemap?: SitemapSource;
+  maxDepth?: number;
+  maxPages?: number;
+  scope?: CrawlScope;
+  fields?: ScrapeRequest["fields"];
+  options?: ScrapeRequest["options"];
+}
+
+export interface CrawlPage extends ScrapeItem {
+  depth: number;
+  referrer?: string;
+}
+
+export type CrawlState = "running" | "completed" | "cancelled" | "failed";
+
+export interface CrawlStatus {
+  id: string;
+  state: CrawlState;
+  startedAt: number;
+  finishedAt?: number;
+  maxDepth: number;
+  maxPages: number;
+  /** Pages fetched (or skipped by robots.txt) so far */
+  pagesCrawled: number;
+  /** In-scope URLs still waiting in the frontier */
+  queued: number;
+  /** Unique in-scope URLs seen, including seeds */
+  discovered: number;
+  /** URLs the `sitemap` source contributed as seeds */
+  sitemapUrls?: number;
+  error?: string;
+  /** Pages from the `since` offset of the poll request onwards */
+  pages: CrawlPage[];
+}
+
+export interface CrawlListResponse {
+  crawls: Omit<CrawlStatus, "pages">[];
 }
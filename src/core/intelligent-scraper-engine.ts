@@ -8,40 +8,131 @@
  */
 
 import { EventEmitter } from 'events';
-import puppeteer, { Browser, Page, LaunchOptions } from 'puppeteer';
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import puppeteer, { Browser, HTTPRequest, HTTPResponse, Page, LaunchOptions } from 'puppeteer';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import * as cheerio from 'cheerio';
-import { RateLimiter } from 'limiter';
 import pLimit from 'p-limit';
 import UserAgent from 'user-agents';
 import { z } from 'zod';
 import chalk from 'chalk';
+import { recordRequest } from '../../server/core/telemetry';
+import { ROBOTS_USER_AGENT, robotsCache } from '../../server/core/robots';
+import { conditionalHeaders, httpCache } from '../../server/core/httpCache';
+import { DecodedBody, decodeBody } from '../../server/core/charset';
+import { detectChanges, targetKey } from '../../server/core/changes';
+import { ActionResult, BrowserAction, runActions, validateActions } from '../../server/core/actions';
+import { BrowserPool, BrowserPoolOptions } from '../../server/core/browserPool';
+import { PolitenessManager, politeness } from '../../server/core/politeness';
+import { LruCache, resultCacheDir } from '../../server/core/lruCache';
+import {
+  LoginFlow,
+  SessionConfig,
+  SessionError,
+  SessionResponse,
+  SessionState,
+  cookieHeader,
+  sessions,
+} from '../../server/core/sessions';
+import {
+  CapturedResponse,
+  DEFAULT_INTERCEPTION,
+  InterceptionRules,
+  applyCaptures,
+  mergeInterception,
+  shouldBlock,
+  validateInterception,
+  wantsCapture,
+} from '../../server/core/interception';
+import { ExtractionSchema, extractSchema, schemaFailure } from '../../server/core/schema';
+import { ScrapeError } from '../../server/core/retry';
+import {
+  ParsedBody,
+  SelectorEntry,
+  SelectorSpec,
+  extractSelectors,
+  isJsonContentType,
+  parseBody,
+} from '../../server/core/selectors';
+import {
+  Pagination,
+  PaginationSummary,
+  Paginator,
+  maxPages,
+  nextPageUrl,
+} from '../../server/core/pagination';
+import { extractStructuredData } from '../../server/scrape/structured';
+import type { FieldChange, StructuredData } from '../../shared/api';
 
 // ✅ Core Types and Interfaces
 export interface ScrapingTarget {
   id: string;
   url: string;
-  selectors: Record<string, string>;
+  /**
+   * Legacy flat selectors: text of one match, or an array of several. Entries
+   * may name their language (css, xpath, jsonpath, regex)
+   */
+  selectors?: Record<string, SelectorEntry>;
+  /** Typed fields and nested lists; takes precedence over `selectors` */
+  schema?: ExtractionSchema;
   type: 'auto' | 'static' | 'dynamic' | 'spa';
   rateLimit: number;
   retryAttempts: number;
   headers?: Record<string, string>;
   cookies?: Array<{ name: string; value: string; domain: string }>;
   waitForSelector?: string;
+  /** Named session whose cookies and localStorage are used on both paths */
+  session?: string;
+  /** Declarative steps run after load: log in, dismiss banners, expand sections */
+  actions?: BrowserAction[];
   scrollToLoad?: boolean;
+  /** Follow later pages (or scroll for more items) and merge their data */
+  pagination?: Pagination;
+  /** Blocked requests and captured API responses, on top of the global rules */
+  interception?: InterceptionRules;
+  /**
+   * @deprecated Runs arbitrary JavaScript in the page; use `actions`
+   * Rejected unless the engine is configured with `allowCustomLogic`
+   */
   customLogic?: string; // JavaScript code to execute
 }
 
+/** Which page of a paginated target is being scraped */
+interface PageRef {
+  index: number;
+  firstUrl: string;
+}
+
+/** Interception handlers installed on a leased page */
+interface PageInterception {
+  responses: () => Promise<CapturedResponse[]>;
+  detach: () => Promise<void>;
+}
+
 export interface ScrapingResult {
   id: string;
   url: string;
   data: Record<string, any>;
+  /** Diff against the previous scrape of this URL and selectors; absent the first time */
+  changes?: FieldChange[];
+  /** JSON-LD, microdata, RDFa and OpenGraph found on HTML pages */
+  structured?: StructuredData;
+  /** Pages scraped for a paginated target and why pagination stopped */
+  pagination?: PaginationSummary;
   metadata: {
     timestamp: number;
     responseTime: number;
     statusCode: number;
     contentLength: number;
     detectedType: string;
+    skipped?: 'robots_disallowed';
+    /** The server answered 304 and the cached page was reused */
+    unchanged?: boolean;
+    /** Charset the page was decoded from, e.g. 'shift_jis' */
+    encoding?: string;
+    /** URL of the following page, when the target paginates by URL */
+    nextPage?: string;
+    /** Outcome of each of the target's `actions` that ran */
+    actions?: ActionResult[];
     errors?: string[];
     performance: {
       domLoadTime: number;
@@ -66,26 +157,45 @@ export interface ScraperConfig {
   };
   performance: {
     enableCache: boolean;
+    /** Results kept in memory; least recently used go first */
     maxCacheSize: number;
+    maxCacheBytes?: number;
+    /** How long a cached result is served (default 5 minutes) */
+    cacheTtlMs?: number;
+    /** Also keep cached results on disk, so they outlive eviction and restarts */
+    persistCache?: boolean;
     enableCompression: boolean;
+    /** Revalidate static pages with ETag / Last-Modified (default true) */
+    httpCache?: boolean;
   };
+  /** Browsers, contexts per browser and when contexts are recycled */
+  browserPool: Partial<Omit<BrowserPoolOptions, 'resetPage'>>;
+  /** Requests blocked and responses captured on every dynamic scrape */
+  interception: InterceptionRules;
+  /** Sessions to register; targets name them in `session` */
+  sessions?: SessionConfig[];
+  /** Per-host connection slots and backoff; defaults to the process-wide manager */
+  politeness?: PolitenessManager;
+  /** Run targets' `customLogic` scripts; off by default, since that's code injection */
+  allowCustomLogic: boolean;
 }
 
 // ✅ Advanced AI-Powered Scraper Engine
 export class IntelligentScraperEngine extends EventEmitter {
-  private browser?: Browser;
+  private browserPool: BrowserPool<Page>;
   private axiosInstance: AxiosInstance;
-  private rateLimiters: Map<string, RateLimiter> = new Map();
+  private politeness: PolitenessManager;
   private concurrencyLimit: pLimit.Limit;
   private config: ScraperConfig;
   private userAgentGenerator: UserAgent;
-  private cache: Map<string, { data: any; timestamp: number }> = new Map();
+  private cache: LruCache<ScrapingResult>;
   private performanceMetrics: {
     totalRequests: number;
     successfulRequests: number;
     failedRequests: number;
+    unchangedRequests: number;
+    blockedRequests: number;
     averageResponseTime: number;
-    cacheHitRate: number;
     startTime: number;
   };
 
@@ -110,23 +220,48 @@ export class IntelligentScraperEngine extends EventEmitter {
         enableCache: true,
         maxCacheSize: 1000,
         enableCompression: true,
+        httpCache: true,
+      },
+      browserPool: {
+        browsers: 1,
+        contextsPerBrowser: 4,
+        pagesPerContext: 50,
+        maxHeapGrowthMb: 256,
       },
+      interception: DEFAULT_INTERCEPTION,
+      allowCustomLogic: false,
       ...config
     };
+    const interceptionError = validateInterception(this.config.interception);
+    if (interceptionError) {
+      throw new Error(`Invalid interception rules: ${interceptionError}`);
+    }
 
     this.concurrencyLimit = pLimit(this.config.concurrency);
     this.userAgentGenerator = new UserAgent({ deviceCategory: 'desktop' });
     this.axiosInstance = this.createOptimizedAxiosInstance();
+    this.politeness = this.config.politeness ?? politeness;
+    this.cache = new LruCache({
+      maxEntries: this.config.performance.maxCacheSize,
+      maxBytes: this.config.performance.maxCacheBytes ?? 64 * 1024 * 1024,
+      ttlMs: this.config.performance.cacheTtlMs ?? 300000, // 5 minutes
+      dir: this.config.performance.persistCache ? resultCacheDir('intelligent') : undefined,
+    });
     this.performanceMetrics = this.initializeMetrics();
+    this.browserPool = new BrowserPool<Page>(() => this.launchBrowser(), {
+      ...this.config.browserPool,
+      resetPage: page => this.resetPage(page),
+    });
+    sessions.define(this.config.sessions ?? []);
     
     // Optimization: Graceful shutdown and cleanup
     process.on('SIGTERM', () => this.shutdown());
     process.on('SIGINT', () => this.shutdown());
   }
 
-  // ✅ Initialize High-Performance Browser
-  private async initializeBrowser(): Promise<void> {
-    if (this.browser) return;
+  // ✅ Launch a High-Performance Browser for the pool
+  // Called again by the pool whenever a browser disconnects
+  private async launchBrowser(): Promise<Browser> {
 
     const launchOptions: LaunchOptions = {
       headless: 'new',
@@ -150,9 +285,11 @@ export class IntelligentScraperEngine extends EventEmitter {
     };
 
     try {
-      this.browser = await puppeteer.launch(launchOptions);
+      const browser = await puppeteer.launch(launchOptions);
       console.log(chalk.green('🚀 Browser initialized with performance optimization'));
       this.emit('browser:initialized');
+      browser.on('disconnected', () => this.emit('browser:disconnected'));
+      return browser;
     } catch (error) {
       console.error(chalk.red('❌ Browser initialization failed:'), error);
       this.emit('browser:error', error);
@@ -198,6 +335,10 @@ export class IntelligentScraperEngine extends EventEmitter {
   private async detectWebsiteType(url: string): Promise<'static' | 'dynamic' | 'spa'> {
     try {
       const response = await this.axiosInstance.get(url, { timeout: 10000 });
+      // JSON APIs never need a browser
+      if (typeof response.data !== 'string' || isJsonContentType(response.headers['content-type'])) {
+        return 'static';
+      }
       const html = response.data;
       const $ = cheerio.load(html);
 
@@ -241,43 +382,77 @@ export class IntelligentScraperEngine extends EventEmitter {
     
     // Check cache first
     if (this.config.performance.enableCache) {
-      const cached = this.getCachedResult(target.url);
+      const cached = await this.cache.get(this.resultKey(target));
       if (cached) {
-        this.performanceMetrics.cacheHitRate++;
         return cached;
       }
     }
 
-    // Auto-detect website type if not specified
-    const websiteType = target.type === 'auto' 
-      ? await this.detectWebsiteType(target.url)
+    // Respect robots.txt before touching the site at all
+    let crawlDelay: number | undefined;
+    if (this.config.respectRobotsTxt) {
+      const verdict = await robotsCache.check(target.url, ROBOTS_USER_AGENT);
+      if (!verdict.allowed) {
+        const skipped = this.createSkippedResult(target, verdict.unreachable
+          ? 'robots.txt could not be fetched'
+          : 'Disallowed by robots.txt');
+        this.emit('scraping:skipped', skipped);
+        return skipped;
+      }
+      crawlDelay = verdict.crawlDelay;
+    }
+
+    // Auto-detect website type if not specified; infinite scroll needs the browser
+    const websiteType = target.type === 'auto'
+      ? target.pagination?.strategy === 'infinite-scroll' ? 'dynamic' : await this.detectWebsiteType(target.url)
       : target.type;
 
     let result: ScrapingResult;
+    let requestStart = Date.now();
 
     try {
-      // Rate limiting per domain
-      await this.enforceRateLimit(target.url, target.rateLimit);
+      // Per-host politeness: a connection slot, spacing and any backoff
+      const release = await this.acquireHost(target.url, target.rateLimit, crawlDelay);
+      requestStart = Date.now();
 
       // Dynamic synergy - choose optimal scraping strategy
-      switch (websiteType) {
-        case 'static':
-          result = await this.scrapeStatic(target);
-          break;
-        case 'dynamic':
-        case 'spa':
-          result = await this.scrapeDynamic(target);
-          break;
-        default:
-          throw new Error(`Unsupported website type: ${websiteType}`);
+      try {
+        switch (websiteType) {
+          case 'static':
+            result = await this.scrapeStatic(target);
+            break;
+          case 'dynamic':
+          case 'spa':
+            result = await this.scrapeDynamic(target);
+            break;
+          default:
+            throw new Error(`Unsupported website type: ${websiteType}`);
+        }
+      } finally {
+        release();
+      }
+
+      // Infinite scroll is handled inside the browser; other strategies fetch more pages
+      if (target.pagination && target.pagination.strategy !== 'infinite-scroll') {
+        await this.followPages(target, websiteType, result, crawlDelay);
       }
 
       result.metadata.detectedType = websiteType;
       result.metadata.responseTime = Date.now() - startTime;
 
+      recordRequest({
+        url: target.url,
+        status: result.metadata.statusCode,
+        latencyMs: Date.now() - requestStart,
+        source: 'engine',
+      });
+
+      // Change detection against the last snapshot of this URL + selectors
+      await this.compareSnapshot(target, result);
+
       // Cache successful results
       if (this.config.performance.enableCache) {
-        this.setCachedResult(target.url, result);
+        await this.cache.set(this.resultKey(target), result);
       }
 
       this.performanceMetrics.successfulRequests++;
@@ -286,6 +461,14 @@ export class IntelligentScraperEngine extends EventEmitter {
       return result;
 
     } catch (error) {
+      recordRequest({
+        url: target.url,
+        status: axios.isAxiosError(error) ? error.response?.status : undefined,
+        ok: false,
+        latencyMs: Date.now() - requestStart,
+        source: 'engine',
+        error: error instanceof Error ? error.message : String(error),
+      });
       this.performanceMetrics.failedRequests++;
       this.emit('scraping:error', { target, error });
       
@@ -293,29 +476,118 @@ export class IntelligentScraperEngine extends EventEmitter {
     }
   }
 
+  // Results differ by what was extracted and how the page got there, not just by URL
+  private resultKey(target: ScrapingTarget): string {
+    return targetKey(target.url, {
+      schema: target.schema,
+      selectors: target.selectors,
+      pagination: target.pagination,
+      actions: target.actions,
+      capture: target.interception?.capture,
+    });
+  }
+
+  // ✅ Field-level Change Detection
+  private async compareSnapshot(target: ScrapingTarget, result: ScrapingResult): Promise<void> {
+    try {
+      const comparison = await detectChanges(
+        targetKey(target.url, target.pagination
+          ? { extraction: target.schema ?? target.selectors, pagination: target.pagination }
+          : target.schema ?? target.selectors),
+        target.url,
+        result.data,
+        'engine',
+      );
+      if (comparison.previousTimestamp !== undefined) {
+        result.changes = comparison.changes;
+      }
+      if (comparison.event) {
+        this.emit('change-detected', comparison.event);
+      }
+    } catch (error) {
+      console.warn(chalk.yellow(`⚠️ Snapshot comparison failed for ${target.url}`));
+    }
+  }
+
   // ✅ Static Content Scraping with Cheerio
-  private async scrapeStatic(target: ScrapingTarget): Promise<ScrapingResult> {
-    const config: AxiosRequestConfig = {
-      headers: target.headers || {},
+  // Always revalidates against the HTTP cache: a 304 reuses the stored page
+  private async scrapeStatic(
+    target: ScrapingTarget,
+    pageRef: PageRef = { index: 0, firstUrl: target.url }
+  ): Promise<ScrapingResult> {
+    // Logged-in pages differ per account, so they bypass the shared HTTP cache
+    const useHttpCache = this.config.performance.httpCache !== false && !target.session;
+    const cached = useHttpCache ? await httpCache.get(target.url) : undefined;
+    let session = target.session ? await this.ensureSession(target.session) : undefined;
+    const get = async () => {
+      const cookie = session && cookieHeader(session.cookies, target.url);
+      const config: AxiosRequestConfig = {
+        headers: { ...conditionalHeaders(cached), ...target.headers, ...(cookie ? { Cookie: cookie } : {}) },
+        // Bytes, so the page is decoded from its declared charset rather than assumed UTF-8
+        responseType: 'arraybuffer',
+      };
+      try {
+        const response = await this.axiosInstance.get(target.url, config);
+        this.politeness.report(target.url, { status: response.status, retryAfter: response.headers['retry-after'] });
+        const decoded = decodeBody(new Uint8Array(response.data), response.headers['content-type']);
+        return { response, decoded };
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response) {
+          this.politeness.report(target.url, {
+            status: error.response.status,
+            retryAfter: error.response.headers['retry-after'],
+          });
+        }
+        throw error;
+      }
     };
 
-    const response = await this.axiosInstance.get(target.url, config);
-    const $ = cheerio.load(response.data);
+    let { response, decoded } = await get();
 
-    const data: Record<string, any> = {};
-    
-    // Extract data using selectors
-    for (const [key, selector] of Object.entries(target.selectors)) {
-      try {
-        const elements = $(selector);
-        if (elements.length === 1) {
-          data[key] = elements.text().trim();
-        } else if (elements.length > 1) {
-          data[key] = elements.map((_, el) => $(el).text().trim()).get();
+    // A logged-out response gets one fresh login and one retry
+    if (target.session) {
+      if (sessions.isLoggedOut(target.session, this.sessionResponse(target.url, response, decoded))) {
+        session = await this.refreshSession(target.session, session!);
+        ({ response, decoded } = await get());
+        if (sessions.isLoggedOut(target.session, this.sessionResponse(target.url, response, decoded))) {
+          throw new SessionError(`Session '${target.session}' is still logged out after logging in again`);
         }
-      } catch (error) {
-        console.warn(chalk.yellow(`⚠️ Selector failed: ${selector}`));
-        data[key] = null;
+      }
+      await sessions.remember(target.session, target.url, response.headers['set-cookie']);
+    }
+    let html: string;
+    let encoding: string | undefined;
+    let statusCode = response.status;
+    let contentType: string | undefined = response.headers['content-type'];
+    const unchanged = response.status === 304 && !!cached;
+    if (unchanged) {
+      const entry = await httpCache.revalidated(cached!, response.headers);
+      html = entry.body;
+      encoding = entry.encoding;
+      statusCode = entry.status;
+      contentType = entry.headers['content-type'];
+      this.performanceMetrics.unchangedRequests++;
+    } else {
+      html = decoded.text;
+      encoding = decoded.encoding;
+      if (useHttpCache) {
+        await httpCache.put(target.url, response.status, response.headers, decoded);
+      }
+    }
+    // Declarative schema shares one extractor with the dynamic strategy
+    const extracted = target.schema ? extractSchema(html, target.schema, target.url, contentType) : undefined;
+    // Missing required fields or broken selectors fail the scrape, as in AdvancedScraperEngine
+    if (extracted?.errors.length) throw schemaFailure(extracted);
+
+    const data: Record<string, any> = extracted?.data ?? {};
+    const doc = parseBody(html, contentType);
+    
+    // Extract data using selectors; JSON responses skip the HTML parser
+    if (!target.schema && target.selectors) {
+      const selected = extractSelectors(doc, target.selectors);
+      Object.assign(data, selected.data);
+      for (const { selector } of selected.errors) {
+        console.warn(chalk.yellow(`⚠️ Selector failed: ${JSON.stringify(selector)}`));
       }
     }
 
@@ -323,12 +595,16 @@ export class IntelligentScraperEngine extends EventEmitter {
       id: target.id,
       url: target.url,
       data,
+      structured: doc.kind === 'html' ? extractStructuredData(doc.$, target.url) : undefined,
       metadata: {
         timestamp: Date.now(),
         responseTime: 0, // Will be set in parent method
-        statusCode: response.status,
-        contentLength: response.data.length,
+        statusCode,
+        contentLength: html.length,
         detectedType: 'static',
+        unchanged,
+        encoding,
+        nextPage: this.nextPage(target, pageRef, target.url, doc),
         performance: {
           domLoadTime: 0,
           networkTime: 0,
@@ -339,12 +615,32 @@ export class IntelligentScraperEngine extends EventEmitter {
   }
 
   // ✅ Dynamic Content Scraping with Puppeteer
-  private async scrapeDynamic(target: ScrapingTarget): Promise<ScrapingResult> {
-    await this.initializeBrowser();
-    
-    const page = await this.browser!.newPage();
+  private async scrapeDynamic(
+    target: ScrapingTarget,
+    pageRef: PageRef = { index: 0, firstUrl: target.url }
+  ): Promise<ScrapingResult> {
+    const actionsError = target.actions ? validateActions(target.actions) : undefined;
+    if (actionsError) {
+      throw new Error(`Invalid actions: ${actionsError}`);
+    }
+    if (target.customLogic && !this.config.allowCustomLogic) {
+      throw new Error('customLogic is disabled: use `actions`, or enable allowCustomLogic to run page scripts');
+    }
+    const interceptionError = validateInterception(target.interception);
+    if (interceptionError) {
+      throw new Error(`Invalid interception rules: ${interceptionError}`);
+    }
+
+    const lease = await this.browserPool.acquire();
+    const page = lease.page;
+    let discard = false;
+    const rules = mergeInterception(this.config.interception, target.interception);
+    let interception: PageInterception | undefined;
+    const sessionScripts: string[] = [];
     
     try {
+      interception = await this.interceptRequests(page, rules);
+
       // Anti-detection measures
       if (this.config.antiDetection.randomViewport) {
         await page.setViewport({
@@ -358,6 +654,12 @@ export class IntelligentScraperEngine extends EventEmitter {
         await page.setCookie(...target.cookies);
       }
 
+      // Session cookies and localStorage go in before the page loads
+      let session = target.session ? await this.ensureSession(target.session) : undefined;
+      if (session) {
+        sessionScripts.push(await this.applySession(page, session));
+      }
+
       // Performance monitoring
       const performanceMetrics = {
         domLoadTime: 0,
@@ -368,10 +670,36 @@ export class IntelligentScraperEngine extends EventEmitter {
       const navigationStart = Date.now();
       
       // Navigate to page with optimized settings
-      await page.goto(target.url, {
-        waitUntil: 'domcontentloaded',
-        timeout: this.config.timeout,
-      });
+      const navigate = async () => {
+        const response = await page.goto(target.url, {
+          waitUntil: 'domcontentloaded',
+          timeout: this.config.timeout,
+        });
+        if (response) {
+          this.politeness.report(target.url, { status: response.status(), retryAfter: response.headers()['retry-after'] });
+        }
+        return response;
+      };
+      let response = await navigate();
+
+      // A logged-out page gets one fresh login and one more load
+      if (target.session) {
+        const loggedOut = async () => sessions.isLoggedOut(target.session!, {
+          requestedUrl: target.url,
+          url: page.url(),
+          status: response?.status() ?? 200,
+          body: await page.content(),
+          contentType: 'text/html',
+        });
+        if (await loggedOut()) {
+          session = await this.refreshSession(target.session, session!);
+          sessionScripts.push(await this.applySession(page, session));
+          response = await navigate();
+          if (await loggedOut()) {
+            throw new SessionError(`Session '${target.session}' is still logged out after logging in again`);
+          }
+        }
+      }
 
       performanceMetrics.networkTime = Date.now() - navigationStart;
 
@@ -380,8 +708,17 @@ export class IntelligentScraperEngine extends EventEmitter {
         await page.waitForSelector(target.waitForSelector, { timeout: 10000 });
       }
 
-      // Scroll to load content if needed
-      if (target.scrollToLoad) {
+      // Scripted steps; a failed required step ends them and is reported, extraction still runs
+      const actions = target.actions?.length ? await runActions(page, target.actions) : undefined;
+      const actionErrors = (actions ?? [])
+        .filter(step => !step.ok)
+        .map(step => `Action ${step.index + 1} (${step.action}) failed: ${step.error}`);
+
+      // Scroll to load content if needed; infinite-scroll pagination scrolls in rounds
+      let scrolled: PaginationSummary | undefined;
+      if (target.pagination?.strategy === 'infinite-scroll') {
+        scrolled = await this.scrollPages(page, target.pagination);
+      } else if (target.scrollToLoad) {
         await this.autoScroll(page);
       }
 
@@ -397,19 +734,49 @@ export class IntelligentScraperEngine extends EventEmitter {
 
       const renderStart = Date.now();
 
-      // Extract data using selectors
-      const data: Record<string, any> = {};
-      
-      for (const [key, selector] of Object.entries(target.selectors)) {
+      // Schema extraction runs on the rendered DOM, same extractor as static pages
+      const html = await page.content();
+      // The browser has already decoded the page; report what it settled on
+      const encoding = await page.evaluate(() => document.characterSet.toLowerCase());
+      const extracted = target.schema ? extractSchema(html, target.schema, page.url()) : undefined;
+      if (extracted?.errors.length) throw schemaFailure(extracted);
+
+      // Extract data using selectors; captured API responses come first so selectors win
+      const data: Record<string, any> = {
+        ...applyCaptures(rules.capture, await interception!.responses()),
+        ...extracted?.data,
+      };
+
+      // CSS runs in the page; XPath, JSONPath and regex run on the rendered HTML
+      const inPage: Record<string, SelectorSpec> = {};
+      const offPage: Record<string, SelectorEntry> = {};
+      for (const [key, entry] of Object.entries(target.schema ? {} : target.selectors ?? {})) {
+        const spec = typeof entry === 'string' ? { selector: entry } : entry;
+        if ((spec.language ?? 'css') === 'css') inPage[key] = spec;
+        else offPage[key] = spec;
+      }
+      const rendered = parseBody(html, 'text/html');
+      if (Object.keys(offPage).length) {
+        const selected = extractSelectors(rendered, offPage);
+        Object.assign(data, selected.data);
+        for (const { selector } of selected.errors) {
+          console.warn(chalk.yellow(`⚠️ Selector failed: ${JSON.stringify(selector)}`));
+        }
+      }
+
+      for (const [key, { selector, attribute }] of Object.entries(inPage)) {
         try {
-          const elements = await page.$$(selector);
-          
-          if (elements.length === 1) {
-            data[key] = await page.$eval(selector, el => el.textContent?.trim());
-          } else if (elements.length > 1) {
-            data[key] = await page.$$eval(selector, els => 
-              els.map(el => el.textContent?.trim()).filter(Boolean)
-            );
+          const values = await page.$$eval(
+            selector,
+            (els, attr) => els.map(el => (attr ? el.getAttribute(attr) : el.textContent)?.trim()),
+            attribute
+          );
+          const found = values.filter(v => v !== undefined && v !== null);
+
+          if (found.length === 1) {
+            data[key] = found[0];
+          } else if (found.length > 1) {
+            data[key] = found.filter(Boolean);
           }
         } catch (error) {
           console.warn(chalk.yellow(`⚠️ Selector failed: ${selector}`));
@@ -423,34 +790,260 @@ export class IntelligentScraperEngine extends EventEmitter {
         id: target.id,
         url: target.url,
         data,
+        structured: rendered.kind === 'html' ? extractStructuredData(rendered.$, page.url()) : undefined,
+        pagination: scrolled,
         metadata: {
           timestamp: Date.now(),
           responseTime: 0,
-          statusCode: 200,
-          contentLength: (await page.content()).length,
+          statusCode: response?.status() ?? 200,
+          contentLength: html.length,
           detectedType: 'dynamic',
+          encoding,
+          nextPage: this.nextPage(target, pageRef, page.url(), rendered),
+          actions,
+          ...(actionErrors.length ? { errors: actionErrors } : {}),
           performance: performanceMetrics,
         },
       };
 
+    } catch (error) {
+      // A page that failed mid-scrape may be wedged; its context is replaced
+      // A page that rendered but didn't match the schema is fine to reuse
+      discard = !(error instanceof ScrapeError);
+      throw error;
     } finally {
-      await page.close();
+      // The page is reused: stop restoring this session's localStorage into it
+      for (const identifier of sessionScripts) {
+        await page.removeScriptToEvaluateOnNewDocument(identifier).catch(() => undefined);
+      }
+      await interception?.detach();
+      await lease.release({ discard });
     }
   }
 
-  // ✅ Utility Methods
-  private async enforceRateLimit(url: string, rateLimit: number): Promise<void> {
-    const domain = new URL(url).hostname;
-    
-    if (!this.rateLimiters.has(domain)) {
-      this.rateLimiters.set(domain, new RateLimiter({
-        tokensPerInterval: rateLimit,
-        interval: 'minute',
-      }));
+  // ✅ Request Interception: block heavy or tracking requests, capture API JSON
+  // Handlers are removed afterwards, since the page goes back to the pool
+  private async interceptRequests(
+    page: Page,
+    rules: InterceptionRules
+  ): Promise<PageInterception> {
+    const captured: CapturedResponse[] = [];
+    const reading: Promise<void>[] = [];
+
+    // Every paused request must be aborted or continued, or the page hangs
+    const onRequest = (request: HTTPRequest) => {
+      let block = false;
+      try {
+        const navigation = request.isNavigationRequest() && request.frame() === page.mainFrame();
+        block = shouldBlock(rules, { url: request.url(), resourceType: request.resourceType(), navigation });
+      } catch (error) {
+        console.warn(chalk.yellow(`⚠️ Request interception failed: ${(error as Error).message}`));
+      }
+      if (block) {
+        this.performanceMetrics.blockedRequests++;
+        request.abort('blockedbyclient').catch(() => undefined);
+      } else {
+        request.continue().catch(() => undefined);
+      }
+    };
+    const onResponse = (response: HTTPResponse) => {
+      const url = response.url();
+      if (!wantsCapture(rules, { url, resourceType: response.request().resourceType() })) return;
+      // Bodies that aren't JSON (or are gone after a redirect) are skipped
+      reading.push(response.json().then(data => { captured.push({ url, data }); }, () => undefined));
+    };
+
+    const blocking = !!(rules.block?.resourceTypes?.length || rules.block?.urlPatterns?.length);
+    if (blocking) {
+      await page.setRequestInterception(true);
+      page.on('request', onRequest);
+    }
+    if (rules.capture?.length) {
+      page.on('response', onResponse);
+    }
+
+    return {
+      responses: async () => {
+        await Promise.all(reading);
+        return captured;
+      },
+      detach: async () => {
+        page.off('request', onRequest);
+        page.off('response', onResponse);
+        if (blocking) {
+          await page.setRequestInterception(false).catch(() => undefined);
+        }
+      },
+    };
+  }
+
+  // ✅ Sessions: log in once, reuse the cookies and localStorage on every path
+  private ensureSession(name: string): Promise<SessionState> {
+    return sessions.ensure(name, flow => this.browserLogin(flow));
+  }
+
+  private refreshSession(name: string, stale: SessionState): Promise<SessionState> {
+    return sessions.refresh(name, stale, flow => this.browserLogin(flow));
+  }
+
+  // Run a session's browser login flow and keep what the site stored
+  private async browserLogin(flow: Extract<LoginFlow, { type: 'browser' }>): Promise<Pick<SessionState, 'cookies' | 'localStorage'>> {
+    return this.browserPool.withPage(async page => {
+      await page.goto(flow.url, { waitUntil: 'domcontentloaded', timeout: this.config.timeout });
+      const failed = (await runActions(page, flow.actions)).find(step => !step.ok);
+      if (failed) {
+        throw new SessionError(`Login step ${failed.index + 1} (${failed.action}) failed: ${failed.error}`);
+      }
+      const cookies = await page.cookies(flow.url, page.url());
+      const storage: Record<string, string> = await page.evaluate(() => Object.fromEntries(Object.entries(localStorage)));
+      return { cookies, localStorage: { [new URL(page.url()).origin]: storage } };
+    });
+  }
+
+  // Set the session's cookies; its localStorage is restored on each matching document
+  private async applySession(page: Page, session: SessionState): Promise<string> {
+    if (session.cookies.length) {
+      await page.setCookie(...session.cookies);
+    }
+    const { identifier } = await page.evaluateOnNewDocument((storage: SessionState['localStorage']) => {
+      for (const [key, value] of Object.entries(storage[location.origin] ?? {})) {
+        localStorage.setItem(key, value);
+      }
+    }, session.localStorage);
+    return identifier;
+  }
+
+  private sessionResponse(url: string, response: AxiosResponse, decoded: DecodedBody): SessionResponse {
+    return {
+      requestedUrl: url,
+      url: response.request?.res?.responseUrl ?? url,
+      status: response.status,
+      body: decoded.text,
+      contentType: response.headers['content-type'],
+    };
+  }
+
+  // Pages are reused across targets: drop the last target's cookies and DOM
+  private async resetPage(page: Page): Promise<void> {
+    const cookies = await page.cookies();
+    if (cookies.length) {
+      await page.deleteCookie(...cookies);
+    }
+    await page.goto('about:blank');
+  }
+
+  private createSkippedResult(target: ScrapingTarget, reason: string): ScrapingResult {
+    return {
+      id: target.id,
+      url: target.url,
+      data: {},
+      metadata: {
+        timestamp: Date.now(),
+        responseTime: 0,
+        statusCode: 0,
+        contentLength: 0,
+        detectedType: 'skipped',
+        skipped: 'robots_disallowed',
+        errors: [reason],
+        performance: {
+          domLoadTime: 0,
+          networkTime: 0,
+          renderTime: 0,
+        },
+      },
+    };
+  }
+
+  // ✅ Pagination: fetch later pages with the same strategy and merge their data
+  // A page that fails or is disallowed ends pagination; earlier pages are kept
+  private async followPages(
+    target: ScrapingTarget,
+    websiteType: string,
+    first: ScrapingResult,
+    crawlDelay?: number
+  ): Promise<void> {
+    const paginator = new Paginator(target.pagination!);
+    let stop = paginator.add(target.url, first.data);
+    let next = first.metadata.nextPage;
+    let error: string | undefined;
+
+    while (!stop) {
+      stop = paginator.follow(next);
+      if (stop) break;
+      const url = next!;
+
+      if (this.config.respectRobotsTxt && !(await robotsCache.check(url, ROBOTS_USER_AGENT)).allowed) {
+        stop = 'disallowed';
+        break;
+      }
+
+      try {
+        const release = await this.acquireHost(url, target.rateLimit, crawlDelay);
+        const pageTarget = { ...target, url };
+        const pageRef = { index: paginator.pageCount, firstUrl: target.url };
+        let page: ScrapingResult;
+        try {
+          page = websiteType === 'static'
+            ? await this.scrapeStatic(pageTarget, pageRef)
+            : await this.scrapeDynamic(pageTarget, pageRef);
+        } finally {
+          release();
+        }
+        next = page.metadata.nextPage;
+        first.metadata.unchanged = first.metadata.unchanged && page.metadata.unchanged;
+        stop = paginator.add(url, page.data);
+      } catch (pageError) {
+        stop = 'error';
+        error = pageError instanceof Error ? pageError.message : String(pageError);
+      }
     }
 
-    const limiter = this.rateLimiters.get(domain)!;
-    await limiter.removeTokens(1);
+    first.data = paginator.merged();
+    first.pagination = paginator.summary(stop, error);
+    delete first.metadata.nextPage;
+  }
+
+  private nextPage(
+    target: ScrapingTarget,
+    pageRef: PageRef,
+    currentUrl: string,
+    doc: ParsedBody
+  ): string | undefined {
+    return target.pagination
+      ? nextPageUrl(target.pagination, pageRef.index, pageRef.firstUrl, currentUrl, doc)
+      : undefined;
+  }
+
+  // Scroll to the bottom once per "page", stopping when the page stops growing
+  private async scrollPages(
+    page: Page,
+    pagination: Extract<Pagination, { strategy: 'infinite-scroll' }>
+  ): Promise<PaginationSummary> {
+    const limit = maxPages(pagination);
+    const delay = pagination.scrollDelayMs ?? 1000;
+    let pages = 1;
+    let height = await page.evaluate(() => document.body.scrollHeight);
+
+    while (pages < limit) {
+      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+      await new Promise(resolve => setTimeout(resolve, delay));
+      const grown = await page.evaluate(() => document.body.scrollHeight);
+      if (grown <= height) {
+        return { pages, urls: [page.url()], stoppedBy: 'no-next-page' };
+      }
+      height = grown;
+      pages++;
+    }
+    return { pages, urls: [page.url()], stoppedBy: 'max-pages' };
+  }
+
+  // ✅ Utility Methods
+  // Wait for a slot on the target's host; the returned function gives it back
+  private async acquireHost(url: string, rateLimit: number, crawlDelay?: number): Promise<() => void> {
+    // A robots.txt Crawl-delay stricter than the target's rate wins
+    // Per request: the host's configured policy is shared with other engines and left alone
+    const minDelayMs = Math.max(rateLimit > 0 ? 60000 / rateLimit : 0, (crawlDelay ?? 0) * 1000);
+    return this.politeness.acquire(url, undefined, Math.round(minDelayMs));
   }
 
   private async autoScroll(page: Page): Promise<void> {
@@ -477,29 +1070,14 @@ export class IntelligentScraperEngine extends EventEmitter {
     await new Promise(resolve => setTimeout(resolve, delay));
   }
 
-  private getCachedResult(url: string): ScrapingResult | null {
-    const cached = this.cache.get(url);
-    if (cached && Date.now() - cached.timestamp < 300000) { // 5 minutes
-      return cached.data;
-    }
-    return null;
-  }
-
-  private setCachedResult(url: string, result: ScrapingResult): void {
-    if (this.cache.size >= this.config.performance.maxCacheSize) {
-      const firstKey = this.cache.keys().next().value;
-      this.cache.delete(firstKey);
-    }
-    this.cache.set(url, { data: result, timestamp: Date.now() });
-  }
-
   private initializeMetrics() {
     return {
       totalRequests: 0,
       successfulRequests: 0,
       failedRequests: 0,
+      unchangedRequests: 0,
+      blockedRequests: 0,
       averageResponseTime: 0,
-      cacheHitRate: 0,
       startTime: Date.now(),
     };
   }
@@ -530,15 +1108,22 @@ export class IntelligentScraperEngine extends EventEmitter {
   // ✅ Performance Analytics
   public getPerformanceReport(): Record<string, any> {
     const uptime = Date.now() - this.performanceMetrics.startTime;
+    const hosts = this.politeness.stats();
+    const cache = this.cache.stats();
     
     return {
       uptime: `${Math.round(uptime / 1000)}s`,
       totalRequests: this.performanceMetrics.totalRequests,
       successRate: `${Math.round((this.performanceMetrics.successfulRequests / this.performanceMetrics.totalRequests) * 100)}%`,
-      cacheHitRate: `${Math.round((this.performanceMetrics.cacheHitRate / this.performanceMetrics.totalRequests) * 100)}%`,
+      unchangedPages: this.performanceMetrics.unchangedRequests,
+      blockedRequests: this.performanceMetrics.blockedRequests,
+      cacheHitRate: `${Math.round(cache.hitRate * 100)}%`,
       averageResponseTime: `${this.performanceMetrics.averageResponseTime}ms`,
-      cacheSize: this.cache.size,
-      activeDomains: this.rateLimiters.size,
+      cacheSize: cache.entries,
+      cache,
+      activeDomains: hosts.length,
+      hosts,
+      browserPool: this.browserPool.stats(),
     };
   }
 
@@ -546,12 +1131,9 @@ export class IntelligentScraperEngine extends EventEmitter {
   public async shutdown(): Promise<void> {
     console.log(chalk.yellow('🛑 Shutting down scraper engine...'));
     
-    if (this.browser) {
-      await this.browser.close();
-    }
+    await this.browserPool.close();
     
     this.cache.clear();
-    this.rateLimiters.clear();
     
     console.log(chalk.green('✅ Scraper engine shutdown complete'));
   }
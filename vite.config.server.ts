@@ -5,7 +5,11 @@ import path from "path";
 export default defineConfig({
   build: {
     lib: {
-      entry: path.resolve(__dirname, "server/node-build.ts"),
+      entry: {
+        "node-build": path.resolve(__dirname, "server/node-build.ts"),
+        // Spawned by the extraction pool from dist/server/extractWorker.mjs
+        extractWorker: path.resolve(__dirname, "server/core/extractWorker.ts"),
+      },
       name: "server",
       fileName: "production",
       formats: ["es"],
@@ -29,6 +33,8 @@ export default defineConfig({
         "buffer",
         "querystring",
         "child_process",
+        "worker_threads",
+        "v8",
         // External dependencies that should not be bundled
         "express",
         "cors",